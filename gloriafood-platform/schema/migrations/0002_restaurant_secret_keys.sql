@@ -0,0 +1,9 @@
+-- =====================================================
+-- Secret key de cada restaurante y logs por restaurante
+-- =====================================================
+
+ALTER TABLE restaurants ADD COLUMN secret_key TEXT; -- Clave para polling y menú (nunca se expone por la API)
+ALTER TABLE webhook_logs ADD COLUMN restaurant_id INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_menus_restaurant ON menus(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_logs_restaurant ON webhook_logs(restaurant_id);
@@ -0,0 +1,16 @@
+-- =====================================================
+-- Historial de estados de pedidos
+-- =====================================================
+
+-- Historial de cambios de estado de pedidos
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_id INTEGER NOT NULL,
+    from_status TEXT, -- NULL en el registro inicial
+    to_status TEXT NOT NULL,
+    actor TEXT NOT NULL, -- 'gloriafood', 'api' o identificador de quien hizo el cambio
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_order ON order_status_history(order_id);
@@ -0,0 +1,36 @@
+-- =====================================================
+-- Cola de webhooks y dead-letter
+-- =====================================================
+
+-- Payloads crudos recibidos por el webhook, procesados por la cola
+CREATE TABLE IF NOT EXISTS webhook_payloads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    content_type TEXT,
+    raw_payload TEXT NOT NULL,
+    status TEXT DEFAULT 'pending', -- 'pending', 'retrying', 'processed', 'failed'
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    received_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    processed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_payloads_status ON webhook_payloads(status);
+
+-- Pedidos que agotaron los reintentos
+CREATE TABLE IF NOT EXISTS dead_letter_orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    payload_id INTEGER,
+    restaurant_id INTEGER,
+    gloriafood_id INTEGER,
+    kind TEXT NOT NULL DEFAULT 'order', -- 'order' o 'payload' (no se pudo parsear)
+    payload TEXT NOT NULL, -- JSON del pedido o payload crudo
+    error_message TEXT,
+    attempts INTEGER DEFAULT 0,
+    status TEXT DEFAULT 'pending', -- 'pending', 'replayed'
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    replayed_at TEXT,
+    FOREIGN KEY (payload_id) REFERENCES webhook_payloads(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_status ON dead_letter_orders(status);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_restaurant ON dead_letter_orders(restaurant_id);
@@ -0,0 +1,32 @@
+-- =====================================================
+-- Borrado lógico del menú e historial de cambios
+-- =====================================================
+
+-- Borrado lógico: ya no aparece en GloriaFood
+ALTER TABLE menu_categories ADD COLUMN deleted_at TEXT;
+ALTER TABLE menu_items ADD COLUMN deleted_at TEXT;
+ALTER TABLE menu_item_sizes ADD COLUMN deleted_at TEXT;
+ALTER TABLE menu_options ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sizes_gloriafood ON menu_item_sizes(gloriafood_id);
+
+-- Historial de cambios del menú (una fila por cambio detectado en cada sincronización)
+CREATE TABLE IF NOT EXISTS menu_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    restaurant_id INTEGER NOT NULL,
+    menu_id INTEGER NOT NULL,
+    sync_id TEXT NOT NULL, -- Agrupa los cambios de una misma sincronización
+    entity_type TEXT NOT NULL, -- 'item', 'size', 'option'
+    entity_id INTEGER NOT NULL, -- ID interno (estable entre sincronizaciones)
+    gloriafood_id INTEGER,
+    name TEXT NOT NULL,
+    change_type TEXT NOT NULL, -- 'added', 'removed', 'renamed', 'repriced'
+    old_value TEXT,
+    new_value TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id),
+    FOREIGN KEY (menu_id) REFERENCES menus(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_changes_restaurant ON menu_changes(restaurant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_menu_changes_sync ON menu_changes(sync_id);
@@ -0,0 +1,26 @@
+-- =====================================================
+-- Grupos de opciones por menú, asignados a categorías, items o tamaños
+-- =====================================================
+
+-- Cada menú tiene sus propios grupos (en las bases de datos nuevas también es
+-- nullable: ADD COLUMN no admite NOT NULL sin valor por defecto)
+ALTER TABLE menu_option_groups ADD COLUMN menu_id INTEGER REFERENCES menus(id) ON DELETE CASCADE;
+ALTER TABLE menu_option_groups ADD COLUMN deleted_at TEXT; -- Borrado lógico: ya no está asignado a nada en GloriaFood
+ALTER TABLE menu_item_option_groups ADD COLUMN category_id INTEGER REFERENCES menu_categories(id) ON DELETE CASCADE;
+
+-- Los grupos existentes pasan al menú de los items y tamaños que los usan
+UPDATE menu_option_groups SET menu_id = (
+    SELECT mc.menu_id
+    FROM menu_item_option_groups mig
+    LEFT JOIN menu_item_sizes s ON mig.size_id = s.id
+    INNER JOIN menu_items mi ON mi.id = COALESCE(mig.item_id, s.item_id)
+    INNER JOIN menu_categories mc ON mi.category_id = mc.id
+    WHERE mig.option_group_id = menu_option_groups.id
+    LIMIT 1
+) WHERE menu_id IS NULL;
+
+-- Los que no usa ningún item se vuelven a crear en la próxima sincronización
+DELETE FROM menu_option_groups WHERE menu_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_option_groups_menu ON menu_option_groups(menu_id, gloriafood_id);
+CREATE INDEX IF NOT EXISTS idx_item_option_groups_group ON menu_item_option_groups(option_group_id);
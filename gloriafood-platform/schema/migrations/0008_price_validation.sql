@@ -0,0 +1,28 @@
+-- =====================================================
+-- Validación de precios contra el menú
+-- =====================================================
+
+-- Validación de precios contra el menú sincronizado
+ALTER TABLE orders ADD COLUMN price_check TEXT DEFAULT 'unchecked'; -- 'ok', 'mismatch', 'unchecked' (sin menú)
+ALTER TABLE orders ADD COLUMN expected_sub_total_price REAL;
+ALTER TABLE orders ADD COLUMN expected_tax_value REAL;
+ALTER TABLE orders ADD COLUMN expected_total_price REAL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_price_check ON orders(restaurant_id, price_check);
+
+-- Diferencias entre los precios de un pedido y el menú sincronizado
+CREATE TABLE IF NOT EXISTS order_price_discrepancies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_id INTEGER NOT NULL,
+    item_gloriafood_id INTEGER NOT NULL, -- Línea del pedido (order_items.gloriafood_id)
+    type_id INTEGER, -- ID del item, tamaño u opción en el menú de GloriaFood
+    entity_type TEXT NOT NULL, -- 'item', 'size', 'option'
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL, -- 'price', 'not_in_menu', 'removed_from_menu', 'line_total'
+    expected REAL,
+    actual REAL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_discrepancies_order ON order_price_discrepancies(order_id);
@@ -0,0 +1,42 @@
+-- =====================================================
+-- Deduplicación y fusión de clientes
+-- =====================================================
+
+ALTER TABLE clients ADD COLUMN email_normalized TEXT; -- Email en minúsculas y sin espacios (para deduplicar)
+ALTER TABLE clients ADD COLUMN phone_normalized TEXT; -- Solo dígitos del teléfono (para deduplicar)
+ALTER TABLE clients ADD COLUMN merged_into_id INTEGER REFERENCES clients(id); -- Cliente que lo sustituye tras una fusión
+
+-- Mismas reglas que normalizeEmail y normalizePhone (services/clients.ts)
+UPDATE clients SET email_normalized = LOWER(TRIM(email))
+WHERE email LIKE '%@%';
+
+UPDATE clients SET phone_normalized = REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(
+    phone, ' ', ''), '-', ''), '+', ''), '(', ''), ')', ''), '.', ''), '/', '')
+WHERE phone IS NOT NULL;
+
+UPDATE clients SET phone_normalized = SUBSTR(phone_normalized, 3)
+WHERE phone_normalized LIKE '00%';
+
+UPDATE clients SET phone_normalized = NULL
+WHERE LENGTH(phone_normalized) < 6 OR phone_normalized GLOB '*[^0-9]*';
+
+CREATE INDEX IF NOT EXISTS idx_clients_email_normalized ON clients(email_normalized);
+CREATE INDEX IF NOT EXISTS idx_clients_phone_normalized ON clients(phone_normalized);
+
+-- Historial de fusiones de clientes duplicados
+CREATE TABLE IF NOT EXISTS client_merges (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    restaurant_id INTEGER NOT NULL, -- Restaurante desde el que se hizo la fusión
+    survivor_id INTEGER NOT NULL, -- Cliente que se conserva
+    merged_id INTEGER NOT NULL, -- Cliente fusionado (queda con merged_into_id)
+    merged_snapshot TEXT NOT NULL, -- JSON del cliente fusionado antes de la fusión
+    orders_moved INTEGER DEFAULT 0,
+    addresses_moved INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id),
+    FOREIGN KEY (survivor_id) REFERENCES clients(id),
+    FOREIGN KEY (merged_id) REFERENCES clients(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_merges_survivor ON client_merges(survivor_id);
+CREATE INDEX IF NOT EXISTS idx_client_merges_merged ON client_merges(merged_id);
@@ -0,0 +1,26 @@
+-- =====================================================
+-- Segmentación RFM de clientes
+-- =====================================================
+
+-- Segmento RFM de cada cliente en cada restaurante (recalculado por el cron diario)
+CREATE TABLE IF NOT EXISTS client_segments (
+    client_id INTEGER NOT NULL,
+    restaurant_id INTEGER NOT NULL,
+    segment TEXT NOT NULL, -- 'champions', 'loyal', 'new', 'at_risk', 'lost'
+    recency_days INTEGER NOT NULL, -- Días desde el último pedido
+    frequency INTEGER NOT NULL, -- Número de pedidos
+    monetary REAL NOT NULL, -- Importe total
+    r_score INTEGER NOT NULL, -- Puntuaciones de 1 a 5
+    f_score INTEGER NOT NULL,
+    m_score INTEGER NOT NULL,
+    avg_interval_days REAL, -- Días medios entre pedidos (NULL con un solo pedido)
+    churn_risk INTEGER DEFAULT 0, -- Lleva mucho más de lo habitual sin pedir
+    first_order_at TEXT NOT NULL,
+    last_order_at TEXT NOT NULL,
+    computed_at TEXT NOT NULL,
+    PRIMARY KEY (client_id, restaurant_id),
+    FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_segments_restaurant ON client_segments(restaurant_id, segment);
@@ -0,0 +1,20 @@
+-- =====================================================
+-- Borrado de datos de clientes e historial de consentimiento
+-- =====================================================
+
+ALTER TABLE clients ADD COLUMN anonymized_at TEXT; -- Datos personales borrados a petición del cliente
+
+-- Historial del consentimiento de marketing de cada cliente
+CREATE TABLE IF NOT EXISTS client_consent_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    client_id INTEGER NOT NULL,
+    restaurant_id INTEGER, -- Restaurante del pedido o de la petición
+    marketing_consent INTEGER NOT NULL,
+    previous_consent INTEGER, -- NULL si es el valor inicial del cliente
+    source TEXT NOT NULL, -- 'gloriafood' (pedido), 'api', 'erasure'
+    order_gloriafood_id INTEGER, -- Pedido que trajo el cambio
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_history_client ON client_consent_history(client_id);
@@ -0,0 +1,35 @@
+-- =====================================================
+-- Audiencias de marketing
+-- =====================================================
+
+-- Audiencias de marketing guardadas (clientes con consentimiento que cumplen los filtros)
+CREATE TABLE IF NOT EXISTS marketing_audiences (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    restaurant_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    filters TEXT NOT NULL, -- JSON con los filtros de la audiencia
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_audiences_restaurant ON marketing_audiences(restaurant_id);
+
+-- Registro de cada lista de marketing exportada
+CREATE TABLE IF NOT EXISTS marketing_audience_exports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    restaurant_id INTEGER NOT NULL,
+    audience_id INTEGER, -- NULL si la audiencia se ha borrado después
+    audience_name TEXT NOT NULL,
+    filters TEXT NOT NULL, -- JSON de los filtros en el momento de la exportación
+    client_count INTEGER NOT NULL,
+    requested_by TEXT, -- Cabecera X-Requested-By de la petición
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id),
+    FOREIGN KEY (audience_id) REFERENCES marketing_audiences(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_exports_restaurant ON marketing_audience_exports(restaurant_id, created_at);
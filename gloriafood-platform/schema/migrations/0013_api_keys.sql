@@ -0,0 +1,20 @@
+-- =====================================================
+-- API keys con permisos
+-- =====================================================
+
+-- API keys con permisos (scopes) y restaurante opcional
+CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL, -- Inicio de la key, para reconocerla (la key no se guarda)
+    key_hash TEXT NOT NULL UNIQUE, -- SHA-256 de la key
+    scopes TEXT NOT NULL, -- JSON: ["orders:read", "orders:write", "menu:sync", "clients:pii", "stats:read", "admin"]
+    restaurant_id INTEGER, -- NULL = todos los restaurantes
+    expires_at TEXT,
+    last_used_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (restaurant_id) REFERENCES restaurants(id)
+);
+
+ALTER TABLE marketing_audience_exports ADD COLUMN api_key_id INTEGER REFERENCES api_keys(id); -- NULL con el token general
@@ -0,0 +1,25 @@
+-- =====================================================
+-- Log de auditoría
+-- =====================================================
+
+-- Log de auditoría de las llamadas a la API que modifican datos (solo se insertan filas)
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id TEXT NOT NULL, -- Cabecera X-Request-Id de la respuesta
+    restaurant_id INTEGER,
+    api_key_id INTEGER, -- NULL = token general (API_AUTH_TOKEN)
+    actor TEXT NOT NULL, -- Nombre de la API key o 'API_AUTH_TOKEN'
+    method TEXT NOT NULL,
+    route TEXT NOT NULL, -- Patrón de la ruta: /api/orders/:id/status
+    path TEXT NOT NULL,
+    entity_type TEXT NOT NULL, -- 'order', 'client', 'menu', 'restaurant', 'audience', 'webhook_subscription', ...
+    entity_id INTEGER,
+    action TEXT NOT NULL,
+    changes TEXT, -- JSON: { campo: { before, after } } (los secretos nunca se guardan)
+    ip_address TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_restaurant ON audit_log(restaurant_id, created_at);
@@ -0,0 +1,7 @@
+-- =====================================================
+-- Actor autenticado en el historial de estados
+-- =====================================================
+
+-- El actor de los cambios hechos por la API es la API key autenticada (o 'API_AUTH_TOKEN');
+-- lo que envía quien hace la petición se guarda aparte, solo como nota
+ALTER TABLE order_status_history ADD COLUMN note TEXT;
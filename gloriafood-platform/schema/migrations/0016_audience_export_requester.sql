@@ -0,0 +1,7 @@
+-- =====================================================
+-- Identidad autenticada en el registro de exportaciones
+-- =====================================================
+
+-- requested_by pasa a ser la API key autenticada (o 'API_AUTH_TOKEN'); la cabecera
+-- X-Requested-By, que envía el cliente y no está verificada, se guarda aparte
+ALTER TABLE marketing_audience_exports ADD COLUMN requested_by_header TEXT;
@@ -65,6 +65,10 @@ fi
 
 echo -e "${GREEN}KV ID: $KV_ID${NC}"
 
+# Crear colas (pedidos del webhook y webhooks salientes)
+npx wrangler queues create gloriafood-orders 2>&1 || true
+npx wrangler queues create gloriafood-webhooks 2>&1 || true
+
 # Paso 5: Actualizar wrangler.toml
 echo ""
 echo -e "${YELLOW}[5/7] Actualizando wrangler.toml...${NC}"
@@ -83,7 +87,7 @@ echo -e "${GREEN}wrangler.toml actualizado${NC}"
 # Paso 6: Ejecutar migraciones
 echo ""
 echo -e "${YELLOW}[6/7] Ejecutando migraciones de base de datos...${NC}"
-npx wrangler d1 execute gloriafood-db --remote --file=./schema/migrations.sql
+npx wrangler d1 migrations apply gloriafood-db --remote
 
 echo -e "${GREEN}Migraciones completadas${NC}"
 
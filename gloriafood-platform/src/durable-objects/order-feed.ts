@@ -0,0 +1,123 @@
+import type { Env, OrderFeedEvent } from '../types';
+
+// Intervalo del heartbeat de los streams SSE (evita que los proxies cierren la conexión)
+const HEARTBEAT_MS = 25_000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Durable Object con el feed en tiempo real de un restaurante.
+ * Los clientes se conectan por WebSocket o Server-Sent Events y reciben
+ * cada evento publicado en /publish.
+ */
+export class OrderFeed implements DurableObject {
+  private state: DurableObjectState;
+  private streams = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/publish' && request.method === 'POST') {
+      const event = await request.json<OrderFeedEvent>();
+      this.broadcast(event);
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.headers.get('Upgrade') === 'websocket') {
+      return this.acceptWebSocket();
+    }
+
+    return this.openEventStream();
+  }
+
+  /**
+   * Los clientes WebSocket pueden mandar "ping" para mantener viva la conexión
+   */
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    if (message === 'ping') {
+      ws.send('pong');
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    ws.close(code, reason);
+  }
+
+  /**
+   * Heartbeat de los streams SSE; también detecta los clientes desconectados
+   */
+  async alarm(): Promise<void> {
+    await this.write(encoder.encode(': heartbeat\n\n'));
+
+    if (this.streams.size > 0) {
+      await this.state.storage.setAlarm(Date.now() + HEARTBEAT_MS);
+    }
+  }
+
+  /**
+   * Acepta un WebSocket con la API de hibernación (el objeto puede dormir entre eventos)
+   */
+  private acceptWebSocket(): Response {
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+
+    this.state.acceptWebSocket(server);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Abre un stream SSE. Los streams viven en memoria mientras el cliente siga conectado.
+   */
+  private async openEventStream(): Promise<Response> {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    this.streams.add(writer);
+    writer.write(encoder.encode('retry: 5000\n: connected\n\n')).catch(() => this.streams.delete(writer));
+
+    if (await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(Date.now() + HEARTBEAT_MS);
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+  }
+
+  /**
+   * Envía un evento a todos los clientes conectados
+   */
+  private broadcast(event: OrderFeedEvent): void {
+    const data = JSON.stringify(event);
+
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        ws.send(data);
+      } catch (error) {
+        console.error('Order feed WebSocket send failed:', error);
+      }
+    }
+
+    this.write(encoder.encode(`event: ${event.type}\ndata: ${data}\n\n`));
+  }
+
+  /**
+   * Escribe en todos los streams SSE y descarta los que ya están cerrados
+   */
+  private async write(chunk: Uint8Array): Promise<void> {
+    await Promise.all([...this.streams].map(writer =>
+      writer.write(chunk).catch(() => {
+        this.streams.delete(writer);
+      })
+    ));
+  }
+}
@@ -1,24 +1,91 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
-import type { Env, GloriaFoodOrderResponse } from './types';
-import { GloriaFoodClient } from './services/gloriafood-client';
+import { requestId } from 'hono/request-id';
+import { routePath } from 'hono/route';
+import type {
+  ApiKey,
+  ApiScope,
+  AppEnv,
+  AuditTarget,
+  Env,
+  OrderQueueMessage,
+  WebhookQueueMessage
+} from './types';
+import { GloriaFoodClient, timingSafeEqual } from './services/gloriafood-client';
 import { OrdersService } from './services/orders';
 import { MenuService } from './services/menu';
 import { ClientsService } from './services/clients';
+import { PrivacyService } from './services/privacy';
+import { AudiencesService } from './services/audiences';
+import { SegmentsService } from './services/segments';
 import { StatsService } from './services/stats';
-
-const app = new Hono<{ Bindings: Env }>();
+import { RestaurantsService } from './services/restaurants';
+import { IngestionService, ingestionBackoff, MAX_INGESTION_ATTEMPTS } from './services/ingestion';
+import { SchedulerService } from './services/scheduler';
+import { TicketsService } from './services/tickets';
+import { OrderFeedService } from './services/order-feed';
+import { PriceValidationService } from './services/price-validation';
+import { ReportsService } from './services/reports';
+import { ExportService } from './services/exports';
+import { WebhooksService, WEBHOOKS_QUEUE, deliveryBackoff, MAX_DELIVERY_ATTEMPTS } from './services/webhooks';
+import { ApiKeysService, hasScope } from './services/api-keys';
+import { AuditService } from './services/audit';
+import { WebhookAuthService } from './services/webhook-auth';
+import { validateBody, validateParams, validateQuery, validationErrorResponse, documentBody, ROUTE_SCHEMA } from './services/validation';
+import { buildOpenApiDocument, ROUTE_SCOPES } from './services/openapi';
+import {
+  idParams,
+  restaurantQuery,
+  basisQuery,
+  restaurantCreateBody,
+  restaurantUpdateBody,
+  ordersQuery,
+  discrepanciesQuery,
+  ticketQuery,
+  orderStatusBody,
+  menuSearchQuery,
+  menuChangesQuery,
+  clientsQuery,
+  topQuery,
+  duplicatesQuery,
+  clientUpdateBody,
+  clientMergeBody,
+  audienceCreateBody,
+  audienceUpdateBody,
+  audiencePreviewBody,
+  audienceExportsQuery,
+  salesDailyQuery,
+  promotionsQuery,
+  taxReportQuery,
+  ordersExportQuery,
+  clientsExportQuery,
+  menuItemsExportQuery,
+  logsQuery,
+  auditQuery,
+  deadLettersQuery,
+  webhookCreateBody,
+  webhookUpdateBody,
+  webhookDeliveriesQuery,
+  apiKeyCreateBody,
+  gloriaFoodOrderResponse
+} from './schemas';
+
+// Durable Objects
+export { OrderFeed } from './durable-objects/order-feed';
+
+const app = new Hono<AppEnv>();
 
 // Middlewares
 app.use('*', logger());
+app.use('*', requestId());
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
 }));
 
-// Middleware de autenticación para rutas protegidas
+// Middleware de autenticación para rutas protegidas: API key o token general (API_AUTH_TOKEN)
 const authMiddleware = async (c: any, next: () => Promise<void>) => {
   const authHeader = c.req.header('Authorization');
   const apiToken = c.env.API_AUTH_TOKEN;
@@ -28,13 +95,99 @@ const authMiddleware = async (c: any, next: () => Promise<void>) => {
     return next();
   }
 
-  if (!authHeader || authHeader !== `Bearer ${apiToken}`) {
+  // EventSource y WebSocket del navegador no permiten cabeceras: el feed acepta ?token=
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : c.req.path === '/api/orders/stream' ? c.req.query('token') : undefined;
+
+  if (!token) {
+    return c.json({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  // El token general tiene todos los permisos (comparado en tiempo constante)
+  if (apiToken && await timingSafeEqual(token, apiToken)) {
+    c.set('apiKey', null);
+    return next();
+  }
+
+  const apiKeysService = new ApiKeysService(c.env);
+  const apiKey = await apiKeysService.authenticate(token);
+
+  if (!apiKey) {
     return c.json({ success: false, error: 'Unauthorized' }, 401);
   }
 
+  c.executionCtx.waitUntil(apiKeysService.touch(apiKey.id));
+  c.set('apiKey', apiKey);
+  return next();
+};
+
+// Middleware que exige permisos a la key de la petición (va después de authMiddleware)
+const requireScope = (...scopes: ApiScope[]) => Object.assign(async (c: any, next: () => Promise<void>) => {
+  const missing = scopes.filter(scope => !hasScope(c.get('apiKey'), scope));
+
+  if (missing.length > 0) {
+    return c.json({ success: false, error: `Missing scope: ${missing.join(', ')}` }, 403);
+  }
+
   return next();
+}, { [ROUTE_SCOPES]: scopes });
+
+// Identidad autenticada de la petición: nombre de la API key o el token general
+const requestActor = (c: any): string => {
+  const apiKey: ApiKey | null = c.get('apiKey');
+  return apiKey?.name ?? 'API_AUTH_TOKEN';
 };
 
+// Registra en el log de auditoría una modificación hecha en la petición
+const audit = async (c: any, target: AuditTarget) => {
+  const apiKey: ApiKey | null = c.get('apiKey');
+
+  await new AuditService(c.env).record(
+    { restaurant_id: c.get('restaurant')?.id ?? null, ...target },
+    {
+      requestId: c.get('requestId'),
+      apiKeyId: apiKey?.id ?? null,
+      actor: requestActor(c),
+      method: c.req.method,
+      route: routePath(c),
+      path: c.req.path,
+      ipAddress: c.req.header('CF-Connecting-IP') || null
+    }
+  );
+};
+
+// Middleware que resuelve el restaurante de la petición (restaurant_id o restaurant_key)
+const restaurantMiddleware = Object.assign(async (c: any, next: () => Promise<void>) => {
+  const restaurantId = c.req.query('restaurant_id');
+  const restaurantKey = c.req.query('restaurant_key');
+
+  const query = restaurantQuery.parse({ restaurant_id: restaurantId, restaurant_key: restaurantKey }, 'query');
+  if (!query.success) {
+    return validationErrorResponse(c, query.errors);
+  }
+
+  if (!restaurantId && !restaurantKey) {
+    return c.json({ success: false, error: 'restaurant_id or restaurant_key is required' }, 400);
+  }
+
+  const restaurantsService = new RestaurantsService(c.env);
+  const restaurant = await restaurantsService.resolveRestaurant(restaurantId, restaurantKey);
+
+  if (!restaurant) {
+    return c.json({ success: false, error: 'Restaurant not found' }, 404);
+  }
+
+  // Keys restringidas a un restaurante
+  const apiKey: ApiKey | null = c.get('apiKey');
+  if (apiKey?.restaurant_id && apiKey.restaurant_id !== restaurant.id) {
+    return c.json({ success: false, error: 'API key not allowed for this restaurant' }, 403);
+  }
+
+  c.set('restaurant', restaurant);
+  return next();
+}, { [ROUTE_SCHEMA]: { target: 'query', schema: restaurantQuery } });
+
 // =====================================================
 // RUTAS PÚBLICAS
 // =====================================================
@@ -46,10 +199,12 @@ app.get('/', (c) => {
     status: 'running',
     endpoints: {
       webhook: 'POST /webhook/orders',
+      restaurants: 'GET /api/restaurants',
       orders: 'GET /api/orders',
       menu: 'GET /api/menu',
       clients: 'GET /api/clients',
-      stats: 'GET /api/stats/dashboard'
+      stats: 'GET /api/stats/dashboard',
+      openapi: 'GET /openapi.json'
     }
   });
 });
@@ -59,47 +214,67 @@ app.get('/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Documento OpenAPI generado a partir de los esquemas de validación de cada ruta
+app.get('/openapi.json', (c) => {
+  return c.json(buildOpenApiDocument(app.routes, { title: 'GloriaFood Platform API', version: '1.0.0' }));
+});
+
 // =====================================================
 // WEBHOOK - Recepción de pedidos de GloriaFood (PUSH)
 // =====================================================
 
-app.post('/webhook/orders', async (c) => {
+app.post('/webhook/orders', documentBody(gloriaFoodOrderResponse), async (c) => {
   const env = c.env;
 
-  // Validar que la solicitud viene de GloriaFood
-  const authHeader = c.req.header('Authorization');
-  if (!GloriaFoodClient.validateWebhookRequest(authHeader, env.GLORIAFOOD_MASTER_KEY)) {
-    // Log del intento fallido
+  const rawPayload = await c.req.text();
+  const ip = c.req.header('CF-Connecting-IP') || null;
+
+  // Validar que la solicitud viene de GloriaFood (o de un proxy relay que firma las peticiones)
+  const auth = await new WebhookAuthService(env).authenticate({
+    ip,
+    authorization: c.req.header('Authorization'),
+    timestamp: c.req.header('X-Webhook-Timestamp'),
+    signature: c.req.header('X-Webhook-Signature'),
+    body: rawPayload
+  });
+
+  if (auth.result === 'forbidden') {
+    return c.json({ success: false, error: auth.error }, 403);
+  }
+
+  if (auth.result === 'rate_limited') {
+    c.header('Retry-After', String(auth.retryAfter));
+    return c.json({ success: false, error: 'Too many failed attempts' }, 429);
+  }
+
+  if (auth.result === 'unauthorized') {
+    // Log del intento fallido (como mucho MAX_FAILED_ATTEMPTS por IP y ventana)
     await env.DB.prepare(
       "INSERT INTO webhook_logs (event_type, payload, status, error_message) VALUES (?, ?, ?, ?)"
-    ).bind('order_received', 'unauthorized', 'error', 'Invalid master key').run();
+    ).bind('order_received', 'unauthorized', 'error', `${auth.error} (${ip || 'unknown IP'})`).run();
 
     return c.json({ success: false, error: 'Unauthorized' }, 401);
   }
 
+  // GloriaFood exige respuesta en menos de 15 segundos: se valida y se guarda el
+  // payload crudo (JSON o XML), y se procesa en segundo plano desde la cola
   try {
-    const payload = await c.req.json<GloriaFoodOrderResponse>();
-    const ordersService = new OrdersService(env);
-
-    const results = [];
-    for (const order of payload.orders) {
-      const result = await ordersService.processOrder(order);
-      results.push({
-        gloriafood_id: order.id,
-        internal_id: result.orderId,
-        is_new: result.isNew
-      });
+    const ingestionService = new IngestionService(env);
+    const contentType = c.req.header('Content-Type') || null;
+
+    // Un payload no válido queda en dead-letter para poder reintentarlo
+    const check = ingestionService.checkPayload(rawPayload, contentType);
+    if (check.result === 'invalid') {
+      await ingestionService.rejectPayload(rawPayload, contentType, check.errors);
+      return validationErrorResponse(c, check.errors);
     }
 
-    // Log exitoso
-    await env.DB.prepare(
-      "INSERT INTO webhook_logs (event_type, payload, status) VALUES (?, ?, ?)"
-    ).bind('order_received', JSON.stringify({ count: payload.count, orders: results }), 'success').run();
+    const payloadId = await ingestionService.enqueuePayload(rawPayload, contentType);
 
     return c.json({
       success: true,
-      message: `Processed ${results.length} orders`,
-      data: results
+      message: 'Payload received',
+      data: { payload_id: payloadId }
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -112,31 +287,142 @@ app.post('/webhook/orders', async (c) => {
   }
 });
 
+// =====================================================
+// API DE RESTAURANTES
+// =====================================================
+
+// Cualquier key puede ver los restaurantes (solo el suyo si está restringida)
+app.get('/api/restaurants', authMiddleware, async (c) => {
+  const env = c.env;
+  const restaurantsService = new RestaurantsService(env);
+  const apiKey = c.get('apiKey');
+
+  const restaurants = await restaurantsService.getRestaurants();
+  return c.json({
+    success: true,
+    data: apiKey?.restaurant_id ? restaurants.filter(r => r.id === apiKey.restaurant_id) : restaurants
+  });
+});
+
+app.get('/api/restaurants/:id', authMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const restaurantsService = new RestaurantsService(env);
+  const id = c.req.valid('param').id;
+  const apiKey = c.get('apiKey');
+
+  const restaurant = apiKey?.restaurant_id && apiKey.restaurant_id !== id
+    ? null
+    : await restaurantsService.getRestaurantById(id);
+
+  if (!restaurant) {
+    return c.json({ success: false, error: 'Restaurant not found' }, 404);
+  }
+
+  return c.json({ success: true, data: restaurant });
+});
+
+app.post('/api/restaurants', authMiddleware, requireScope('admin'), validateBody(restaurantCreateBody), async (c) => {
+  const env = c.env;
+  const restaurantsService = new RestaurantsService(env);
+
+  const body = c.req.valid('json');
+
+  if (await restaurantsService.getRestaurantByKey(body.restaurant_key)) {
+    return c.json({ success: false, error: 'Restaurant already exists' }, 409);
+  }
+
+  const id = await restaurantsService.createRestaurant(body);
+  const restaurant = await restaurantsService.getRestaurantById(id);
+
+  await audit(c, {
+    entity_type: 'restaurant',
+    entity_id: id,
+    action: 'create',
+    restaurant_id: id,
+    after: { ...restaurant, secret_key: body.secret_key ?? null }
+  });
+
+  return c.json({ success: true, data: restaurant }, 201);
+});
+
+app.put('/api/restaurants/:id', authMiddleware, requireScope('admin'), validateParams(idParams), validateBody(restaurantUpdateBody), async (c) => {
+  const env = c.env;
+  const restaurantsService = new RestaurantsService(env);
+  const id = c.req.valid('param').id;
+
+  const body = c.req.valid('json');
+  const before = await restaurantsService.getRestaurantById(id);
+  const secretBefore = await restaurantsService.getSecretKey(id);
+  const updated = await restaurantsService.updateRestaurant(id, body);
+
+  if (!updated) {
+    return c.json({ success: false, error: 'Restaurant not found or no changes' }, 404);
+  }
+
+  await audit(c, {
+    entity_type: 'restaurant',
+    entity_id: id,
+    action: 'update',
+    restaurant_id: id,
+    before: { ...before, secret_key: secretBefore },
+    after: {
+      ...await restaurantsService.getRestaurantById(id),
+      secret_key: await restaurantsService.getSecretKey(id)
+    }
+  });
+
+  return c.json({ success: true, message: 'Restaurant updated' });
+});
+
 // =====================================================
 // API DE PEDIDOS
 // =====================================================
 
-app.get('/api/orders', authMiddleware, async (c) => {
+app.get('/api/orders', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateQuery(ordersQuery), async (c) => {
   const env = c.env;
   const ordersService = new OrdersService(env);
 
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '20');
-  const status = c.req.query('status');
-  const type = c.req.query('type') as 'pickup' | 'delivery' | undefined;
-  const dateFrom = c.req.query('date_from');
-  const dateTo = c.req.query('date_to');
+  const { page, limit, status, type, date_from: dateFrom, date_to: dateTo } = c.req.valid('query');
 
   const { orders, total } = await ordersService.getOrders(page, limit, {
     status,
     type,
     dateFrom,
-    dateTo
+    dateTo,
+    restaurantId: c.get('restaurant').id
+  });
+
+  return c.json({
+    success: true,
+    data: orders,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
   });
+});
+
+// Feed en tiempo real de pedidos (WebSocket con Upgrade, si no Server-Sent Events)
+app.get('/api/orders/stream', authMiddleware, requireScope('orders:read'), restaurantMiddleware, async (c) => {
+  const feedService = new OrderFeedService(c.env);
+  return feedService.connect(c.get('restaurant').id, c.req.raw);
+});
+
+// Pedidos cuyos precios no coinciden con el menú sincronizado
+app.get('/api/orders/discrepancies', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateQuery(discrepanciesQuery), async (c) => {
+  const env = c.env;
+  const priceValidation = new PriceValidationService(env, c.get('restaurant').id);
+
+  const { page, limit, kind, date_from: dateFrom, date_to: dateTo } = c.req.valid('query');
+
+  const { orders, total, summary } = await priceValidation.getDiscrepancies(page, limit, { kind, dateFrom, dateTo });
 
   return c.json({
     success: true,
     data: orders,
+    summary,
     pagination: {
       page,
       limit,
@@ -146,12 +432,12 @@ app.get('/api/orders', authMiddleware, async (c) => {
   });
 });
 
-app.get('/api/orders/:id', authMiddleware, async (c) => {
+app.get('/api/orders/:id', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
   const ordersService = new OrdersService(env);
-  const id = parseInt(c.req.param('id'));
+  const id = c.req.valid('param').id;
 
-  const result = await ordersService.getOrderWithDetails(id);
+  const result = await ordersService.getOrderWithDetails(id, c.get('restaurant').id);
 
   if (!result) {
     return c.json({ success: false, error: 'Order not found' }, 404);
@@ -160,29 +446,95 @@ app.get('/api/orders/:id', authMiddleware, async (c) => {
   return c.json({ success: true, data: result });
 });
 
-app.put('/api/orders/:id/status', authMiddleware, async (c) => {
+// Comanda de cocina (?format=text|escpos|html)
+app.get('/api/orders/:id/ticket', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateParams(idParams), validateQuery(ticketQuery), async (c) => {
+  const { format } = c.req.valid('query');
+
+  const ticketsService = new TicketsService(c.env, c.get('restaurant'));
+  const ticket = await ticketsService.renderKitchenTicket(c.req.valid('param').id, format);
+
+  if (!ticket) {
+    return c.json({ success: false, error: 'Order not found' }, 404);
+  }
+
+  return c.body(ticket.body, 200, { 'Content-Type': ticket.contentType });
+});
+
+// Recibo del cliente (?format=text|escpos|html)
+app.get('/api/orders/:id/receipt', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateParams(idParams), validateQuery(ticketQuery), async (c) => {
+  const { format } = c.req.valid('query');
+
+  const ticketsService = new TicketsService(c.env, c.get('restaurant'));
+  const receipt = await ticketsService.renderReceipt(c.req.valid('param').id, format);
+
+  if (!receipt) {
+    return c.json({ success: false, error: 'Order not found' }, 404);
+  }
+
+  return c.body(receipt.body, 200, { 'Content-Type': receipt.contentType });
+});
+
+app.put('/api/orders/:id/status', authMiddleware, requireScope('orders:write'), restaurantMiddleware, validateParams(idParams), validateBody(orderStatusBody), async (c) => {
   const env = c.env;
   const ordersService = new OrdersService(env);
-  const id = parseInt(c.req.param('id'));
+  const id = c.req.valid('param').id;
 
-  const body = await c.req.json<{ status: string }>();
-  const updated = await ordersService.updateOrderStatus(id, body.status);
+  const body = c.req.valid('json');
 
-  if (!updated) {
+  const update = await ordersService.updateOrderStatus(
+    id,
+    body.status,
+    c.get('restaurant').id,
+    requestActor(c),
+    body.actor ?? null
+  );
+
+  if (update.result === 'not_found') {
     return c.json({ success: false, error: 'Order not found' }, 404);
   }
 
-  return c.json({ success: true, message: 'Status updated' });
+  if (update.result === 'invalid_transition') {
+    return c.json({
+      success: false,
+      error: `Cannot change status from ${update.from} to ${update.to}`,
+      data: { from: update.from, to: update.to, allowed: update.allowed }
+    }, 409);
+  }
+
+  await audit(c, {
+    entity_type: 'order',
+    entity_id: id,
+    action: 'status_change',
+    before: { status: update.from },
+    after: { status: update.to }
+  });
+
+  return c.json({ success: true, message: 'Status updated', data: { from: update.from, to: update.to } });
 });
 
 // Polling manual de pedidos (alternativa al webhook)
-app.post('/api/orders/poll', authMiddleware, async (c) => {
+app.post('/api/orders/poll', authMiddleware, requireScope('orders:write'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const gloriaFood = new GloriaFoodClient(env);
+  const restaurant = c.get('restaurant');
+  const secretKey = await new RestaurantsService(env).getSecretKey(restaurant.id);
+
+  if (!secretKey) {
+    return c.json({ success: false, error: 'Restaurant has no GloriaFood secret key configured' }, 400);
+  }
+
+  const gloriaFood = new GloriaFoodClient(env, secretKey);
   const ordersService = new OrdersService(env);
 
   try {
     const response = await gloriaFood.pollOrders();
+
+    // GloriaFood ya ha entregado estos pedidos: si la respuesta no es válida se guarda en dead-letter
+    const validation = gloriaFoodOrderResponse.parse(response);
+    if (!validation.success) {
+      await new IngestionService(env).rejectPayload(JSON.stringify(response), 'application/json', validation.errors);
+      return c.json({ success: false, error: 'Invalid response from GloriaFood', errors: validation.errors }, 502);
+    }
+
     const results = [];
 
     for (const order of response.orders) {
@@ -194,6 +546,16 @@ app.post('/api/orders/poll', authMiddleware, async (c) => {
       });
     }
 
+    await audit(c, {
+      entity_type: 'restaurant',
+      entity_id: restaurant.id,
+      action: 'orders_poll',
+      after: {
+        orders_polled: results.length,
+        orders_created: results.filter(result => result.is_new).length
+      }
+    });
+
     return c.json({
       success: true,
       message: `Polled and processed ${results.length} orders`,
@@ -209,9 +571,9 @@ app.post('/api/orders/poll', authMiddleware, async (c) => {
 // API DE MENÚ
 // =====================================================
 
-app.get('/api/menu', authMiddleware, async (c) => {
+app.get('/api/menu', authMiddleware, requireScope('orders:read'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const menuService = new MenuService(env);
+  const menuService = new MenuService(env, c.get('restaurant').id);
 
   const menu = await menuService.getFullMenu();
 
@@ -225,42 +587,70 @@ app.get('/api/menu', authMiddleware, async (c) => {
   return c.json({ success: true, data: menu });
 });
 
-app.get('/api/menu/categories', authMiddleware, async (c) => {
+app.get('/api/menu/categories', authMiddleware, requireScope('orders:read'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const menuService = new MenuService(env);
+  const menuService = new MenuService(env, c.get('restaurant').id);
 
   const categories = await menuService.getCategories();
   return c.json({ success: true, data: categories });
 });
 
-app.get('/api/menu/categories/:id/items', authMiddleware, async (c) => {
+app.get('/api/menu/categories/:id/items', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const menuService = new MenuService(env);
-  const categoryId = parseInt(c.req.param('id'));
+  const menuService = new MenuService(env, c.get('restaurant').id);
+  const categoryId = c.req.valid('param').id;
 
   const items = await menuService.getItemsByCategory(categoryId);
   return c.json({ success: true, data: items });
 });
 
-app.get('/api/menu/search', authMiddleware, async (c) => {
+app.get('/api/menu/search', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateQuery(menuSearchQuery), async (c) => {
   const env = c.env;
-  const menuService = new MenuService(env);
-  const query = c.req.query('q') || '';
-
-  if (query.length < 2) {
-    return c.json({ success: false, error: 'Query must be at least 2 characters' }, 400);
-  }
+  const menuService = new MenuService(env, c.get('restaurant').id);
+  const { q } = c.req.valid('query');
 
-  const items = await menuService.searchItems(query);
+  const items = await menuService.searchItems(q);
   return c.json({ success: true, data: items });
 });
 
-app.post('/api/menu/sync', authMiddleware, async (c) => {
+app.get('/api/menu/changes', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateQuery(menuChangesQuery), async (c) => {
+  const env = c.env;
+  const menuService = new MenuService(env, c.get('restaurant').id);
+
+  const { page, limit, sync_id: syncId, entity, type } = c.req.valid('query');
+
+  const { changes, total } = await menuService.getChanges(page, limit, {
+    syncId,
+    entityType: entity,
+    changeType: type
+  });
+
+  return c.json({
+    success: true,
+    data: changes,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+app.post('/api/menu/sync', authMiddleware, requireScope('menu:sync'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const menuService = new MenuService(env);
+  const menuService = new MenuService(env, c.get('restaurant').id);
 
   try {
     const result = await menuService.syncMenu();
+
+    await audit(c, {
+      entity_type: 'menu',
+      entity_id: c.get('restaurant').id,
+      action: 'sync',
+      after: { success: result.success, message: result.message }
+    });
+
     return c.json(result);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -272,15 +662,13 @@ app.post('/api/menu/sync', authMiddleware, async (c) => {
 // API DE CLIENTES
 // =====================================================
 
-app.get('/api/clients', authMiddleware, async (c) => {
+app.get('/api/clients', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateQuery(clientsQuery), async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
 
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '20');
-  const search = c.req.query('search');
+  const { page, limit, search, segment, churn_risk: churnRisk } = c.req.valid('query');
 
-  const { clients, total } = await clientsService.getClients(page, limit, search);
+  const { clients, total } = await clientsService.getClients(page, limit, { search, segment, churnRisk });
 
   return c.json({
     success: true,
@@ -294,36 +682,81 @@ app.get('/api/clients', authMiddleware, async (c) => {
   });
 });
 
-app.get('/api/clients/top', authMiddleware, async (c) => {
+app.get('/api/clients/top', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateQuery(topQuery), async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
 
-  const limit = parseInt(c.req.query('limit') || '10');
+  const { limit } = c.req.valid('query');
   const clients = await clientsService.getTopClients(limit);
 
   return c.json({ success: true, data: clients });
 });
 
-app.get('/api/clients/marketing', authMiddleware, async (c) => {
+app.get('/api/clients/marketing', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
 
   const clients = await clientsService.getMarketingClients();
   return c.json({ success: true, data: clients });
 });
 
-app.get('/api/clients/stats', authMiddleware, async (c) => {
+app.get('/api/clients/stats', authMiddleware, requireScope('stats:read'), restaurantMiddleware, async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
 
   const stats = await clientsService.getClientsStats();
   return c.json({ success: true, data: stats });
 });
 
-app.get('/api/clients/:id', authMiddleware, async (c) => {
+// Segmentos RFM de los clientes (recalculados cada día por el cron)
+app.get('/api/clients/segments', authMiddleware, requireScope('stats:read'), restaurantMiddleware, async (c) => {
+  const segmentsService = new SegmentsService(c.env, c.get('restaurant').id);
+
+  const summary = await segmentsService.getSummary();
+  return c.json({ success: true, data: summary });
+});
+
+// Recalcula los segmentos sin esperar al cron
+app.post('/api/clients/segments/refresh', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, async (c) => {
+  const segmentsService = new SegmentsService(c.env, c.get('restaurant').id);
+
+  const counts = await segmentsService.computeSegments();
+
+  await audit(c, {
+    entity_type: 'client_segments',
+    entity_id: c.get('restaurant').id,
+    action: 'refresh',
+    after: { ...counts }
+  });
+
+  return c.json({ success: true, message: 'Segments recomputed', data: counts });
+});
+
+// Clientes que comparten email o teléfono normalizado
+app.get('/api/clients/duplicates', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateQuery(duplicatesQuery), async (c) => {
+  const env = c.env;
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+
+  const { page, limit } = c.req.valid('query');
+
+  const { groups, total } = await clientsService.getDuplicates(page, limit);
+
+  return c.json({
+    success: true,
+    data: groups,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+app.get('/api/clients/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
-  const id = parseInt(c.req.param('id'));
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
   const result = await clientsService.getClientWithDetails(id);
 
@@ -334,122 +767,928 @@ app.get('/api/clients/:id', authMiddleware, async (c) => {
   return c.json({ success: true, data: result });
 });
 
-app.put('/api/clients/:id', authMiddleware, async (c) => {
+app.put('/api/clients/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), validateBody(clientUpdateBody), async (c) => {
   const env = c.env;
-  const clientsService = new ClientsService(env);
-  const id = parseInt(c.req.param('id'));
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const body = await c.req.json();
+  const body = c.req.valid('json');
+  const before = await clientsService.getClientById(id);
   const updated = await clientsService.updateClient(id, body);
 
   if (!updated) {
     return c.json({ success: false, error: 'Client not found or no changes' }, 404);
   }
 
+  await audit(c, {
+    entity_type: 'client',
+    entity_id: id,
+    action: 'update',
+    before: { ...before },
+    after: { ...await clientsService.getClientById(id) }
+  });
+
   return c.json({ success: true, message: 'Client updated' });
 });
 
-// =====================================================
-// API DE ESTADÍSTICAS
-// =====================================================
-
-app.get('/api/stats/dashboard', authMiddleware, async (c) => {
+// Fusiona los clientes de client_ids en este (pasan sus pedidos y direcciones)
+app.post('/api/clients/:id/merge', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), validateBody(clientMergeBody), async (c) => {
   const env = c.env;
-  const statsService = new StatsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const stats = await statsService.getDashboardStats();
-  return c.json({ success: true, data: stats });
-});
+  // La fusión mueve los pedidos y datos de los clientes en todos los restaurantes
+  const apiKey: ApiKey | null = c.get('apiKey');
+  if (apiKey?.restaurant_id) {
+    return c.json({ success: false, error: 'Merging clients requires an API key without a restaurant restriction' }, 403);
+  }
 
-app.get('/api/stats/sales/daily', authMiddleware, async (c) => {
-  const env = c.env;
-  const statsService = new StatsService(env);
+  const body = c.req.valid('json');
+  const merge = await clientsService.mergeClients(id, body.client_ids);
 
-  const days = parseInt(c.req.query('days') || '30');
-  const sales = await statsService.getSalesByDay(days);
+  if (merge.result === 'invalid') {
+    return c.json({ success: false, error: merge.error }, 400);
+  }
 
-  return c.json({ success: true, data: sales });
+  if (merge.result === 'not_found') {
+    return c.json({ success: false, error: `Clients not found: ${merge.ids.join(', ')}` }, 404);
+  }
+
+  await audit(c, {
+    entity_type: 'client',
+    entity_id: id,
+    action: 'merge',
+    after: { merged_client_ids: merge.merges.map(m => m.merged_id) }
+  });
+
+  return c.json({ success: true, message: 'Clients merged', data: { client: merge.client, merges: merge.merges } });
 });
 
-app.get('/api/stats/sales/hourly', authMiddleware, async (c) => {
+// Historial de fusiones del cliente
+app.get('/api/clients/:id/merges', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const statsService = new StatsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const sales = await statsService.getSalesByHour();
-  return c.json({ success: true, data: sales });
+  const client = await clientsService.getClientById(id);
+
+  if (!client) {
+    return c.json({ success: false, error: 'Client not found' }, 404);
+  }
+
+  const merges = await clientsService.getMerges(id);
+  return c.json({ success: true, data: merges });
 });
 
-app.get('/api/stats/products/top', authMiddleware, async (c) => {
+// Historial del consentimiento de marketing del cliente
+app.get('/api/clients/:id/consent', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const statsService = new StatsService(env);
+  const clientsService = new ClientsService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const limit = parseInt(c.req.query('limit') || '10');
-  const products = await statsService.getTopProducts(limit);
+  const client = await clientsService.getClientById(id);
 
-  return c.json({ success: true, data: products });
+  if (!client) {
+    return c.json({ success: false, error: 'Client not found' }, 404);
+  }
+
+  const history = await clientsService.getConsentHistory(id);
+  return c.json({
+    success: true,
+    data: { marketing_consent: !!client.marketing_consent, history }
+  });
 });
 
-app.get('/api/stats/payments', authMiddleware, async (c) => {
+// Todos los datos guardados del cliente (derecho de acceso)
+app.get('/api/clients/:id/export', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const statsService = new StatsService(env);
+  const privacyService = new PrivacyService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const stats = await statsService.getPaymentStats();
-  return c.json({ success: true, data: stats });
+  const data = await privacyService.exportClientData(id);
+
+  if (!data) {
+    return c.json({ success: false, error: 'Client not found' }, 404);
+  }
+
+  c.header('Content-Disposition', `attachment; filename="client-${id}.json"`);
+  return c.json({ success: true, data });
 });
 
-app.get('/api/stats/delivery-zones', authMiddleware, async (c) => {
+// Anonimiza al cliente (derecho de supresión); los pedidos se conservan sin datos personales
+app.delete('/api/clients/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
   const env = c.env;
-  const statsService = new StatsService(env);
+  const privacyService = new PrivacyService(env, c.get('restaurant').id);
+  const id = c.req.valid('param').id;
 
-  const stats = await statsService.getDeliveryZoneStats();
-  return c.json({ success: true, data: stats });
+  const erasure = await privacyService.eraseClient(id);
+
+  if (erasure.result === 'not_found') {
+    return c.json({ success: false, error: 'Client not found' }, 404);
+  }
+
+  if (erasure.result === 'already_anonymized') {
+    return c.json({ success: false, error: `Client already anonymized at ${erasure.anonymized_at}` }, 409);
+  }
+
+  await audit(c, {
+    entity_type: 'client',
+    entity_id: id,
+    action: 'erase',
+    after: { ...erasure.erasure }
+  });
+
+  return c.json({ success: true, message: 'Client anonymized', data: erasure.erasure });
 });
 
 // =====================================================
-// API DE LOGS
+// API DE MARKETING (audiencias guardadas, siempre con consentimiento)
 // =====================================================
 
-app.get('/api/logs', authMiddleware, async (c) => {
+app.get('/api/marketing/audiences', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, async (c) => {
   const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
 
-  const page = parseInt(c.req.query('page') || '1');
-  const limit = parseInt(c.req.query('limit') || '50');
-  const eventType = c.req.query('event_type');
-  const offset = (page - 1) * limit;
+  const audiences = await audiencesService.getAudiences();
+  return c.json({ success: true, data: audiences });
+});
 
-  let query = 'SELECT * FROM webhook_logs';
-  const params: (string | number)[] = [];
+app.post('/api/marketing/audiences', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateBody(audienceCreateBody), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
 
-  if (eventType) {
-    query += ' WHERE event_type = ?';
-    params.push(eventType);
+  const body = c.req.valid('json');
+  const error = audiencesService.validateAudience(body, false);
+
+  if (error) {
+    return c.json({ success: false, error }, 400);
   }
 
-  query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
-  params.push(limit, offset);
+  const id = await audiencesService.createAudience(body);
+  const audience = await audiencesService.getAudience(id);
 
-  const logs = await env.DB.prepare(query).bind(...params).all();
+  await audit(c, { entity_type: 'audience', entity_id: id, action: 'create', after: { ...audience } });
 
-  return c.json({ success: true, data: logs.results });
+  return c.json({ success: true, data: audience }, 201);
 });
 
-// =====================================================
-// SCHEDULED HANDLER - Cron Jobs
-// =====================================================
+// Vista previa de unos filtros sin guardar la audiencia
+app.post('/api/marketing/audiences/preview', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateBody(audiencePreviewBody), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
 
-export default {
-  fetch: app.fetch,
+  const { filters } = c.req.valid('json');
+  const error = audiencesService.validateFilters(filters);
 
-  // Handler para cron jobs (sincronización automática del menú)
-  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-    const menuService = new MenuService(env);
+  if (error) {
+    return c.json({ success: false, error }, 400);
+  }
 
-    try {
-      console.log('Starting scheduled menu sync...');
-      const result = await menuService.syncMenu();
-      console.log('Menu sync completed:', result);
-    } catch (error) {
-      console.error('Menu sync failed:', error);
+  const preview = await audiencesService.preview(filters);
+  return c.json({ success: true, data: preview });
+});
+
+app.get('/api/marketing/audiences/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+  const id = c.req.valid('param').id;
+
+  const audience = await audiencesService.getAudience(id);
+
+  if (!audience) {
+    return c.json({ success: false, error: 'Audience not found' }, 404);
+  }
+
+  return c.json({ success: true, data: audience });
+});
+
+app.put('/api/marketing/audiences/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), validateBody(audienceUpdateBody), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+  const id = c.req.valid('param').id;
+
+  const body = c.req.valid('json');
+  const error = audiencesService.validateAudience(body, true);
+
+  if (error) {
+    return c.json({ success: false, error }, 400);
+  }
+
+  const before = await audiencesService.getAudience(id);
+  const updated = await audiencesService.updateAudience(id, body);
+
+  if (!updated) {
+    return c.json({ success: false, error: 'Audience not found or no changes' }, 404);
+  }
+
+  await audit(c, {
+    entity_type: 'audience',
+    entity_id: id,
+    action: 'update',
+    before: { ...before },
+    after: { ...await audiencesService.getAudience(id) }
+  });
+
+  return c.json({ success: true, message: 'Audience updated' });
+});
+
+app.delete('/api/marketing/audiences/:id', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+  const id = c.req.valid('param').id;
+
+  const before = await audiencesService.getAudience(id);
+  const deleted = await audiencesService.deleteAudience(id);
+
+  if (!deleted) {
+    return c.json({ success: false, error: 'Audience not found' }, 404);
+  }
+
+  await audit(c, { entity_type: 'audience', entity_id: id, action: 'delete', before: { ...before } });
+
+  return c.json({ success: true, message: 'Audience deleted' });
+});
+
+// Número de clientes que hay ahora en la audiencia y una muestra
+app.get('/api/marketing/audiences/:id/preview', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+  const id = c.req.valid('param').id;
+
+  const audience = await audiencesService.getAudience(id);
+
+  if (!audience) {
+    return c.json({ success: false, error: 'Audience not found' }, 404);
+  }
+
+  const preview = await audiencesService.preview(audience.filters);
+  return c.json({ success: true, data: preview });
+});
+
+// CSV para herramientas de email; queda registrado quién lo descarga
+app.get('/api/marketing/audiences/:id/export', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+  const id = c.req.valid('param').id;
+
+  const audience = await audiencesService.getAudience(id);
+
+  if (!audience) {
+    return c.json({ success: false, error: 'Audience not found' }, 404);
+  }
+
+  const { csv } = await audiencesService.exportAudience(audience, {
+    requestedBy: requestActor(c),
+    requestedByHeader: c.req.header('X-Requested-By') || null,
+    apiKeyId: c.get('apiKey')?.id ?? null,
+    ipAddress: c.req.header('CF-Connecting-IP') || null,
+    userAgent: c.req.header('User-Agent') || null
+  });
+
+  return c.body(csv, 200, {
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="audience-${id}.csv"`
+  });
+});
+
+// Registro de listas exportadas
+app.get('/api/marketing/exports', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateQuery(audienceExportsQuery), async (c) => {
+  const env = c.env;
+  const audiencesService = new AudiencesService(env, c.get('restaurant'));
+
+  const { page, limit, audience_id: audienceId } = c.req.valid('query');
+
+  const { exports, total } = await audiencesService.getExports(page, limit, audienceId);
+
+  return c.json({
+    success: true,
+    data: exports,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// =====================================================
+// API DE ESTADÍSTICAS
+// =====================================================
+
+app.get('/api/stats/dashboard', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(basisQuery), async (c) => {
+  const env = c.env;
+  const { basis } = c.req.valid('query');
+
+  const statsService = new StatsService(env, c.get('restaurant'), basis);
+
+  const stats = await statsService.getDashboardStats();
+  return c.json({ success: true, data: stats });
+});
+
+app.get('/api/stats/sales/daily', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(salesDailyQuery), async (c) => {
+  const env = c.env;
+  const { basis, days } = c.req.valid('query');
+
+  const statsService = new StatsService(env, c.get('restaurant'), basis);
+
+  const sales = await statsService.getSalesByDay(days);
+
+  return c.json({ success: true, data: sales });
+});
+
+app.get('/api/stats/sales/hourly', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(basisQuery), async (c) => {
+  const env = c.env;
+  const { basis } = c.req.valid('query');
+
+  const statsService = new StatsService(env, c.get('restaurant'), basis);
+
+  const sales = await statsService.getSalesByHour();
+  return c.json({ success: true, data: sales });
+});
+
+app.get('/api/stats/products/top', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(topQuery), async (c) => {
+  const env = c.env;
+  const statsService = new StatsService(env, c.get('restaurant'));
+
+  const { limit } = c.req.valid('query');
+  const products = await statsService.getTopProducts(limit);
+
+  return c.json({ success: true, data: products });
+});
+
+app.get('/api/stats/payments', authMiddleware, requireScope('stats:read'), restaurantMiddleware, async (c) => {
+  const env = c.env;
+  const statsService = new StatsService(env, c.get('restaurant'));
+
+  const stats = await statsService.getPaymentStats();
+  return c.json({ success: true, data: stats });
+});
+
+app.get('/api/stats/delivery-zones', authMiddleware, requireScope('stats:read'), restaurantMiddleware, async (c) => {
+  const env = c.env;
+  const statsService = new StatsService(env, c.get('restaurant'));
+
+  const stats = await statsService.getDeliveryZoneStats();
+  return c.json({ success: true, data: stats });
+});
+
+// Promociones y cupones (?from&to en días locales, por defecto los últimos 30 días)
+app.get('/api/stats/promotions', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(promotionsQuery), async (c) => {
+  const env = c.env;
+  const { basis, from, to } = c.req.valid('query');
+
+  if (from && to && from > to) {
+    return c.json({ success: false, error: 'from must not be after to' }, 400);
+  }
+  if (from && to && Date.parse(to) - Date.parse(from) > 366 * 24 * 60 * 60 * 1000) {
+    return c.json({ success: false, error: 'The range cannot exceed 366 days' }, 400);
+  }
+
+  const statsService = new StatsService(env, c.get('restaurant'), basis);
+
+  const stats = await statsService.getPromotionStats(from, to);
+  return c.json({ success: true, data: stats });
+});
+
+// =====================================================
+// API DE INFORMES
+// =====================================================
+
+// Informe de impuestos por tipo impositivo y tipo de impuesto (?from&to en días locales, ?format=json|csv)
+app.get('/api/reports/taxes', authMiddleware, requireScope('stats:read'), restaurantMiddleware, validateQuery(taxReportQuery), async (c) => {
+  const { from, to, format } = c.req.valid('query');
+
+  if (from > to) {
+    return c.json({ success: false, error: 'from must not be after to' }, 400);
+  }
+  if (Date.parse(to) - Date.parse(from) > 366 * 24 * 60 * 60 * 1000) {
+    return c.json({ success: false, error: 'The report range cannot exceed 366 days' }, 400);
+  }
+
+  const reportsService = new ReportsService(c.env, c.get('restaurant'));
+
+  if (format === 'csv') {
+    const csv = await reportsService.getTaxReportCsv(from, to);
+    return c.body(csv, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="taxes-${from}-${to}.csv"`
+    });
+  }
+
+  const report = await reportsService.getTaxReport(from, to);
+  return c.json({ success: true, data: report });
+});
+
+// =====================================================
+// API DE EXPORTACIÓN (?format=csv|ndjson|xlsx, respuesta en streaming)
+// =====================================================
+
+// Pedidos con una fila por línea (mismos filtros que /api/orders)
+app.get('/api/exports/orders', authMiddleware, requireScope('orders:read', 'clients:pii'), restaurantMiddleware, validateQuery(ordersExportQuery), async (c) => {
+  const { format, status, type, date_from: dateFrom, date_to: dateTo } = c.req.valid('query');
+
+  const exportService = new ExportService(c.env, c.get('restaurant'));
+  const stream = exportService.exportOrders(format, { status, type, dateFrom, dateTo });
+
+  return c.body(stream, 200, exportService.headers('orders', format));
+});
+
+// Clientes con una fila por dirección (mismos filtros que /api/clients)
+app.get('/api/exports/clients', authMiddleware, requireScope('clients:pii'), restaurantMiddleware, validateQuery(clientsExportQuery), async (c) => {
+  const { format, search, segment, churn_risk: churnRisk } = c.req.valid('query');
+
+  const exportService = new ExportService(c.env, c.get('restaurant'));
+  const stream = exportService.exportClients(format, { search, segment, churnRisk });
+
+  return c.body(stream, 200, exportService.headers('clients', format));
+});
+
+// Items vigentes del menú (?category_id, ?search)
+app.get('/api/exports/menu-items', authMiddleware, requireScope('orders:read'), restaurantMiddleware, validateQuery(menuItemsExportQuery), async (c) => {
+  const { format, category_id: categoryId, search } = c.req.valid('query');
+
+  const exportService = new ExportService(c.env, c.get('restaurant'));
+  const stream = exportService.exportMenuItems(format, { categoryId, search });
+
+  return c.body(stream, 200, exportService.headers('menu-items', format));
+});
+
+// =====================================================
+// API DE LOGS
+// =====================================================
+
+app.get('/api/logs', authMiddleware, requireScope('admin'), validateQuery(logsQuery), async (c) => {
+  const env = c.env;
+
+  const { page, limit, event_type: eventType, restaurant_id: restaurantId } = c.req.valid('query');
+  const offset = (page - 1) * limit;
+
+  let query = 'SELECT * FROM webhook_logs WHERE 1=1';
+  const params: (string | number)[] = [];
+
+  if (eventType) {
+    query += ' AND event_type = ?';
+    params.push(eventType);
+  }
+  if (restaurantId) {
+    query += ' AND restaurant_id = ?';
+    params.push(restaurantId);
+  }
+
+  query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  params.push(limit, offset);
+
+  const logs = await env.DB.prepare(query).bind(...params).all();
+
+  return c.json({ success: true, data: logs.results });
+});
+
+// =====================================================
+// API DE AUDITORÍA (modificaciones hechas a través de la API)
+// =====================================================
+
+app.get('/api/audit', authMiddleware, requireScope('admin'), validateQuery(auditQuery), async (c) => {
+  const env = c.env;
+  const auditService = new AuditService(env);
+
+  const query = c.req.valid('query');
+
+  // Instantes ISO 8601 (sin zona = UTC); `to` no se incluye
+  const { page, limit } = query;
+  const { entries, total } = await auditService.getEntries(page, limit, {
+    restaurantId: query.restaurant_id,
+    entityType: query.entity_type,
+    entityId: query.entity_id,
+    action: query.action,
+    apiKeyId: query.api_key_id,
+    from: query.from ? new Date(query.from) : undefined,
+    to: query.to ? new Date(query.to) : undefined
+  });
+
+  return c.json({
+    success: true,
+    data: entries,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// =====================================================
+// API DE DEAD-LETTER (pedidos que agotaron los reintentos)
+// =====================================================
+
+app.get('/api/dead-letters', authMiddleware, requireScope('admin'), validateQuery(deadLettersQuery), async (c) => {
+  const env = c.env;
+  const ingestionService = new IngestionService(env);
+
+  const { page, limit, status, restaurant_id: restaurantId } = c.req.valid('query');
+
+  const { deadLetters, total } = await ingestionService.getDeadLetters(page, limit, { status, restaurantId });
+
+  return c.json({
+    success: true,
+    data: deadLetters,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+app.get('/api/dead-letters/:id', authMiddleware, requireScope('admin'), validateParams(idParams), async (c) => {
+  const env = c.env;
+  const ingestionService = new IngestionService(env);
+  const id = c.req.valid('param').id;
+
+  const deadLetter = await ingestionService.getDeadLetter(id);
+
+  if (!deadLetter) {
+    return c.json({ success: false, error: 'Dead letter not found' }, 404);
+  }
+
+  return c.json({ success: true, data: deadLetter });
+});
+
+app.post('/api/dead-letters/:id/replay', authMiddleware, requireScope('admin'), validateParams(idParams), async (c) => {
+  const env = c.env;
+  const ingestionService = new IngestionService(env);
+  const id = c.req.valid('param').id;
+
+  const deadLetter = await ingestionService.getDeadLetter(id);
+
+  if (!deadLetter) {
+    return c.json({ success: false, error: 'Dead letter not found' }, 404);
+  }
+
+  if (deadLetter.status === 'replayed') {
+    return c.json({ success: false, error: 'Dead letter already replayed' }, 409);
+  }
+
+  const replay = await ingestionService.replayDeadLetter(deadLetter);
+
+  if (!replay.replayed) {
+    return c.json({ success: false, error: replay.error }, 500);
+  }
+
+  await audit(c, {
+    entity_type: 'dead_letter',
+    entity_id: id,
+    action: 'replay',
+    restaurant_id: deadLetter.restaurant_id,
+    before: { status: deadLetter.status },
+    after: { status: 'replayed' }
+  });
+
+  return c.json({ success: true, message: 'Dead letter replayed', data: replay.result });
+});
+
+// =====================================================
+// API DE WEBHOOKS SALIENTES (suscripciones de sistemas externos)
+// =====================================================
+
+app.get('/api/webhooks', authMiddleware, requireScope('admin'), restaurantMiddleware, async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+
+  const subscriptions = await webhooksService.getSubscriptions(c.get('restaurant').id);
+
+  return c.json({ success: true, data: subscriptions });
+});
+
+app.post('/api/webhooks', authMiddleware, requireScope('admin'), restaurantMiddleware, validateBody(webhookCreateBody), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const restaurantId = c.get('restaurant').id;
+
+  const body = c.req.valid('json');
+  const error = webhooksService.validateSubscription(body, false);
+
+  if (error) {
+    return c.json({ success: false, error }, 400);
+  }
+
+  const { id, secret } = await webhooksService.createSubscription(restaurantId, body);
+  const subscription = await webhooksService.getSubscription(id, restaurantId);
+
+  await audit(c, {
+    entity_type: 'webhook_subscription',
+    entity_id: id,
+    action: 'create',
+    after: { ...subscription, secret }
+  });
+
+  // El secret solo se devuelve aquí: hay que guardarlo para verificar las firmas
+  return c.json({ success: true, data: { ...subscription, secret } }, 201);
+});
+
+app.put('/api/webhooks/:id', authMiddleware, requireScope('admin'), restaurantMiddleware, validateParams(idParams), validateBody(webhookUpdateBody), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const id = c.req.valid('param').id;
+
+  const body = c.req.valid('json');
+  const error = webhooksService.validateSubscription(body, true);
+
+  if (error) {
+    return c.json({ success: false, error }, 400);
+  }
+
+  const before = await webhooksService.getSubscription(id, c.get('restaurant').id);
+  const updated = await webhooksService.updateSubscription(id, c.get('restaurant').id, body);
+
+  if (!updated) {
+    return c.json({ success: false, error: 'Webhook subscription not found or no changes' }, 404);
+  }
+
+  await audit(c, {
+    entity_type: 'webhook_subscription',
+    entity_id: id,
+    action: 'update',
+    before: { ...before },
+    after: { ...await webhooksService.getSubscription(id, c.get('restaurant').id) }
+  });
+
+  return c.json({ success: true, message: 'Webhook subscription updated' });
+});
+
+app.post('/api/webhooks/:id/rotate-secret', authMiddleware, requireScope('admin'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const id = c.req.valid('param').id;
+
+  const secret = await webhooksService.rotateSecret(id, c.get('restaurant').id);
+
+  if (!secret) {
+    return c.json({ success: false, error: 'Webhook subscription not found' }, 404);
+  }
+
+  await audit(c, {
+    entity_type: 'webhook_subscription',
+    entity_id: id,
+    action: 'rotate_secret',
+    before: { secret: true },
+    after: { secret }
+  });
+
+  return c.json({ success: true, data: { id, secret } });
+});
+
+app.delete('/api/webhooks/:id', authMiddleware, requireScope('admin'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const id = c.req.valid('param').id;
+
+  const before = await webhooksService.getSubscription(id, c.get('restaurant').id);
+  const deleted = await webhooksService.deleteSubscription(id, c.get('restaurant').id);
+
+  if (!deleted) {
+    return c.json({ success: false, error: 'Webhook subscription not found' }, 404);
+  }
+
+  await audit(c, { entity_type: 'webhook_subscription', entity_id: id, action: 'delete', before: { ...before } });
+
+  return c.json({ success: true, message: 'Webhook subscription deleted' });
+});
+
+app.get('/api/webhooks/deliveries', authMiddleware, requireScope('admin'), restaurantMiddleware, validateQuery(webhookDeliveriesQuery), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+
+  const { page, limit, subscription_id: subscriptionId, status, event } = c.req.valid('query');
+
+  const { deliveries, total } = await webhooksService.getDeliveries(c.get('restaurant').id, page, limit, {
+    subscriptionId,
+    status,
+    eventType: event
+  });
+
+  return c.json({
+    success: true,
+    data: deliveries,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+});
+
+app.get('/api/webhooks/deliveries/:id', authMiddleware, requireScope('admin'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const id = c.req.valid('param').id;
+
+  const delivery = await webhooksService.getDelivery(id, c.get('restaurant').id);
+
+  if (!delivery) {
+    return c.json({ success: false, error: 'Webhook delivery not found' }, 404);
+  }
+
+  return c.json({ success: true, data: delivery });
+});
+
+app.post('/api/webhooks/deliveries/:id/redeliver', authMiddleware, requireScope('admin'), restaurantMiddleware, validateParams(idParams), async (c) => {
+  const env = c.env;
+  const webhooksService = new WebhooksService(env);
+  const id = c.req.valid('param').id;
+
+  const delivery = await webhooksService.getDelivery(id, c.get('restaurant').id);
+
+  if (!delivery) {
+    return c.json({ success: false, error: 'Webhook delivery not found' }, 404);
+  }
+
+  await webhooksService.redeliver(id);
+
+  await audit(c, { entity_type: 'webhook_delivery', entity_id: id, action: 'redeliver' });
+
+  return c.json({ success: true, message: 'Webhook delivery queued' });
+});
+
+// =====================================================
+// API DE API KEYS (administración del acceso a la API)
+// =====================================================
+
+app.get('/api/admin/api-keys', authMiddleware, requireScope('admin'), async (c) => {
+  const env = c.env;
+  const apiKeysService = new ApiKeysService(env);
+
+  const keys = await apiKeysService.getKeys();
+
+  return c.json({ success: true, data: keys });
+});
+
+app.post('/api/admin/api-keys', authMiddleware, requireScope('admin'), validateBody(apiKeyCreateBody), async (c) => {
+  const env = c.env;
+  const apiKeysService = new ApiKeysService(env);
+
+  const body = c.req.valid('json');
+  const error = apiKeysService.validateKey(body);
+
+  if (error) {
+    return c.json({ success: false, error }, 400);
+  }
+
+  if (body.restaurant_id) {
+    const restaurant = await new RestaurantsService(env).getRestaurantById(body.restaurant_id);
+    if (!restaurant) {
+      return c.json({ success: false, error: 'Restaurant not found' }, 400);
+    }
+  }
+
+  const { id, key } = await apiKeysService.createKey(body);
+  const apiKey = await apiKeysService.getKey(id);
+
+  await audit(c, {
+    entity_type: 'api_key',
+    entity_id: id,
+    action: 'create',
+    restaurant_id: apiKey?.restaurant_id ?? null,
+    after: { ...apiKey }
+  });
+
+  // La key solo se devuelve aquí: después solo se conserva su hash
+  return c.json({ success: true, data: { ...apiKey, key } }, 201);
+});
+
+app.get('/api/admin/api-keys/:id', authMiddleware, requireScope('admin'), validateParams(idParams), async (c) => {
+  const env = c.env;
+  const apiKeysService = new ApiKeysService(env);
+  const id = c.req.valid('param').id;
+
+  const apiKey = await apiKeysService.getKey(id);
+
+  if (!apiKey) {
+    return c.json({ success: false, error: 'API key not found' }, 404);
+  }
+
+  return c.json({ success: true, data: apiKey });
+});
+
+app.delete('/api/admin/api-keys/:id', authMiddleware, requireScope('admin'), validateParams(idParams), async (c) => {
+  const env = c.env;
+  const apiKeysService = new ApiKeysService(env);
+  const id = c.req.valid('param').id;
+
+  const revoked = await apiKeysService.revokeKey(id);
+
+  if (!revoked) {
+    return c.json({ success: false, error: 'API key not found or already revoked' }, 404);
+  }
+
+  const apiKey = await apiKeysService.getKey(id);
+  await audit(c, {
+    entity_type: 'api_key',
+    entity_id: id,
+    action: 'revoke',
+    restaurant_id: apiKey?.restaurant_id ?? null,
+    before: { revoked_at: null },
+    after: { revoked_at: apiKey?.revoked_at ?? null }
+  });
+
+  return c.json({ success: true, message: 'API key revoked' });
+});
+
+// =====================================================
+// CONSUMIDORES DE COLAS
+// =====================================================
+
+// Pedidos recibidos por webhook
+async function processOrderPayloads(batch: MessageBatch<OrderQueueMessage>, env: Env): Promise<void> {
+  const ingestionService = new IngestionService(env);
+
+  for (const message of batch.messages) {
+    const attempt = message.attempts + (message.body.previousAttempts ?? 0);
+
+    try {
+      const result = await ingestionService.processPayload(message.body.payloadId, attempt);
+
+      if (result.retry) {
+        message.retry({ delaySeconds: ingestionBackoff(attempt) });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      console.error(`Payload ${message.body.payloadId} processing failed:`, error);
+
+      if (attempt < MAX_INGESTION_ATTEMPTS) {
+        message.retry({ delaySeconds: ingestionBackoff(attempt) });
+        continue;
+      }
+
+      // Último intento: a dead-letter, en vez de reintentar hasta que la cola lo descarte
+      try {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await ingestionService.failPayload(message.body.payloadId, attempt, errorMessage);
+        message.ack();
+      } catch (deadLetterError) {
+        console.error(`Payload ${message.body.payloadId} could not be dead-lettered:`, deadLetterError);
+        message.retry({ delaySeconds: ingestionBackoff(attempt) });
+      }
+    }
+  }
+}
+
+// Webhooks salientes
+async function deliverWebhooks(batch: MessageBatch<WebhookQueueMessage>, env: Env): Promise<void> {
+  const webhooksService = new WebhooksService(env);
+
+  for (const message of batch.messages) {
+    try {
+      const result = await webhooksService.deliver(message.body.deliveryId, message.attempts);
+
+      if (result.retry) {
+        message.retry({ delaySeconds: deliveryBackoff(message.attempts) });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      console.error(`Webhook delivery ${message.body.deliveryId} failed:`, error);
+
+      if (message.attempts < MAX_DELIVERY_ATTEMPTS) {
+        message.retry({ delaySeconds: deliveryBackoff(message.attempts) });
+        continue;
+      }
+
+      // Último intento: el envío queda como fallido, en vez de reintentar hasta que la cola lo descarte
+      try {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await webhooksService.failDelivery(message.body.deliveryId, errorMessage);
+        message.ack();
+      } catch (updateError) {
+        console.error(`Webhook delivery ${message.body.deliveryId} could not be marked as failed:`, updateError);
+        message.retry({ delaySeconds: deliveryBackoff(message.attempts) });
+      }
+    }
+  }
+}
+
+// =====================================================
+// SCHEDULED HANDLER - Cron Jobs
+// =====================================================
+
+export default {
+  fetch: app.fetch,
+
+  // Handler para cron jobs (polling de pedidos y sincronización de menús, según event.cron)
+  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+    await new SchedulerService(env).run(event.cron);
+  },
+
+  // Consumidor de las colas: pedidos recibidos por webhook y webhooks salientes
+  async queue(batch: MessageBatch, env: Env): Promise<void> {
+    if (batch.queue === WEBHOOKS_QUEUE) {
+      await deliverWebhooks(batch as MessageBatch<WebhookQueueMessage>, env);
+    } else {
+      await processOrderPayloads(batch as MessageBatch<OrderQueueMessage>, env);
     }
   }
 };
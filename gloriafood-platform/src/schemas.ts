@@ -0,0 +1,392 @@
+// =====================================================
+// ESQUEMAS DE LAS PETICIONES (query, parámetros y cuerpo)
+// =====================================================
+
+import type {
+  MenuChangeEntity,
+  MenuChangeType,
+  OrderItem,
+  OrderStatus,
+  OrderTax,
+  PriceDiscrepancyKind
+} from './types';
+import { v } from './services/validation';
+import type { Schema } from './services/validation';
+import { API_SCOPES } from './services/api-keys';
+import { AUDIENCE_ORDER_TYPES } from './services/audiences';
+import { EXPORT_FORMATS } from './services/exports';
+import { ORDER_STATUS_TRANSITIONS } from './services/orders';
+import { CLIENT_SEGMENTS } from './services/segments';
+import { STATS_BASES } from './services/stats';
+import { TICKET_FORMATS } from './services/tickets';
+import { WEBHOOK_EVENTS } from './services/webhooks';
+
+// Tamaño máximo de página de los listados
+export const MAX_PAGE_SIZE = 100;
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+const ORDER_TYPES = ['pickup', 'delivery'] as const;
+
+const id = () => v.integer({ min: 1 });
+const day = () => v.string({ format: 'date' }).describe('Fecha local del restaurante (YYYY-MM-DD)');
+
+const pagination = (defaultLimit: number) => ({
+  page: v.integer({ min: 1 }).default(1),
+  limit: v.integer({ min: 1, max: MAX_PAGE_SIZE }).default(defaultLimit)
+});
+
+// =====================================================
+// COMUNES
+// =====================================================
+
+export const idParams = v.object({ id: id() });
+
+// Restaurante sobre el que opera la ruta (lo resuelve restaurantMiddleware)
+export const restaurantQuery = v.object({
+  restaurant_id: id().optional().describe('ID interno del restaurante'),
+  restaurant_key: v.string({ min: 1 }).optional().describe('restaurant_key de GloriaFood')
+});
+
+export const basisQuery = v.object({
+  basis: v.enumeration(STATS_BASES).default('accepted')
+});
+
+// =====================================================
+// RESTAURANTES
+// =====================================================
+
+const restaurantFields = {
+  gloriafood_id: v.integer().nullable().optional(),
+  restaurant_key: v.string({ min: 1, max: 255 }),
+  name: v.string({ min: 1, max: 255 }),
+  timezone: v.string({ min: 1 }).optional().describe('Zona horaria IANA, por ejemplo Europe/Madrid'),
+  currency: v.string({ min: 1, max: 8 }).optional(),
+  active: v.boolean().optional(),
+  secret_key: v.string({ min: 1 }).nullable().optional()
+};
+
+export const restaurantCreateBody = v.object(restaurantFields);
+
+export const restaurantUpdateBody = v.object({
+  ...restaurantFields,
+  restaurant_key: restaurantFields.restaurant_key.optional(),
+  name: restaurantFields.name.optional()
+});
+
+// =====================================================
+// PEDIDOS
+// =====================================================
+
+const orderFilters = {
+  status: v.enumeration(ORDER_STATUSES).optional(),
+  type: v.enumeration(ORDER_TYPES).optional(),
+  date_from: v.string({ format: 'date' }).optional(),
+  date_to: v.string({ format: 'date' }).optional()
+};
+
+export const ordersQuery = v.object({ ...pagination(20), ...orderFilters });
+
+export const discrepanciesQuery = v.object({
+  ...pagination(20),
+  kind: v.enumeration<PriceDiscrepancyKind>(['price', 'not_in_menu', 'removed_from_menu', 'line_total']).optional(),
+  date_from: v.string({ format: 'date' }).optional(),
+  date_to: v.string({ format: 'date' }).optional()
+});
+
+export const ticketQuery = v.object({
+  format: v.enumeration(TICKET_FORMATS).default('text')
+});
+
+export const orderStatusBody = v.object({
+  status: v.enumeration(ORDER_STATUSES),
+  actor: v.string({ min: 1, max: 100 }).optional().describe('Nota sobre quién hace el cambio; el actor registrado es la API key autenticada')
+});
+
+// =====================================================
+// MENÚ
+// =====================================================
+
+export const menuSearchQuery = v.object({
+  q: v.string({ min: 2, max: 100 })
+});
+
+export const menuChangesQuery = v.object({
+  ...pagination(50),
+  sync_id: v.string({ min: 1 }).optional(),
+  entity: v.enumeration<MenuChangeEntity>(['item', 'size', 'option']).optional(),
+  type: v.enumeration<MenuChangeType>(['added', 'removed', 'renamed', 'repriced']).optional()
+});
+
+// =====================================================
+// CLIENTES
+// =====================================================
+
+const clientFilters = {
+  search: v.string({ min: 1, max: 100 }).optional(),
+  segment: v.enumeration(CLIENT_SEGMENTS).optional(),
+  churn_risk: v.boolean().optional()
+};
+
+export const clientsQuery = v.object({ ...pagination(20), ...clientFilters });
+
+export const topQuery = v.object({
+  limit: v.integer({ min: 1, max: MAX_PAGE_SIZE }).default(10)
+});
+
+export const duplicatesQuery = v.object(pagination(20));
+
+export const clientUpdateBody = v.object({
+  first_name: v.string({ max: 100 }).nullable().optional(),
+  last_name: v.string({ max: 100 }).nullable().optional(),
+  email: v.string({ format: 'email', max: 255 }).nullable().optional(),
+  phone: v.string({ max: 50 }).nullable().optional(),
+  marketing_consent: v.boolean().optional()
+});
+
+export const clientMergeBody = v.object({
+  client_ids: v.array(id(), { min: 1, max: MAX_PAGE_SIZE }).describe('Clientes que se fusionan en este')
+});
+
+// =====================================================
+// MARKETING
+// =====================================================
+
+const count = () => v.integer({ min: 0 });
+const amount = () => v.number({ min: 0 });
+const text = () => v.string({ min: 1, max: 255 });
+
+export const audienceFilters = v.object({
+  last_order_after: day().optional(),
+  last_order_before: day().optional(),
+  last_order_within_days: count().optional(),
+  inactive_days: count().optional(),
+  min_orders: count().optional(),
+  max_orders: count().optional(),
+  min_spent: amount().optional(),
+  max_spent: amount().optional(),
+  favorite_product: text().optional(),
+  delivery_zone: text().optional(),
+  order_type: v.enumeration(AUDIENCE_ORDER_TYPES).optional(),
+  used_coupon: v.boolean().optional(),
+  coupon_code: text().optional()
+}).strict();
+
+const audienceFields = {
+  name: v.string({ min: 1, max: 255 }),
+  description: v.string({ max: 1000 }).nullable().optional(),
+  filters: audienceFilters
+};
+
+export const audienceCreateBody = v.object(audienceFields);
+
+export const audienceUpdateBody = v.object({
+  name: audienceFields.name.optional(),
+  description: audienceFields.description,
+  filters: audienceFields.filters.optional()
+});
+
+export const audiencePreviewBody = v.object({
+  filters: audienceFilters.default({})
+});
+
+export const audienceExportsQuery = v.object({
+  ...pagination(20),
+  audience_id: id().optional()
+});
+
+// =====================================================
+// ESTADÍSTICAS E INFORMES
+// =====================================================
+
+export const salesDailyQuery = v.object({
+  basis: v.enumeration(STATS_BASES).default('accepted'),
+  days: v.integer({ min: 1, max: 366 }).default(30)
+});
+
+export const promotionsQuery = v.object({
+  basis: v.enumeration(STATS_BASES).default('accepted'),
+  from: day().optional(),
+  to: day().optional()
+});
+
+export const taxReportQuery = v.object({
+  from: day(),
+  to: day(),
+  format: v.enumeration(['json', 'csv'] as const).default('json')
+});
+
+// =====================================================
+// EXPORTACIONES
+// =====================================================
+
+const exportFormat = () => v.enumeration(EXPORT_FORMATS).default('csv');
+
+export const ordersExportQuery = v.object({ format: exportFormat(), ...orderFilters });
+
+export const clientsExportQuery = v.object({ format: exportFormat(), ...clientFilters });
+
+export const menuItemsExportQuery = v.object({
+  format: exportFormat(),
+  category_id: id().optional(),
+  search: v.string({ min: 1, max: 100 }).optional()
+});
+
+// =====================================================
+// ADMINISTRACIÓN
+// =====================================================
+
+export const logsQuery = v.object({
+  ...pagination(50),
+  event_type: v.string({ min: 1 }).optional(),
+  restaurant_id: id().optional()
+});
+
+export const auditQuery = v.object({
+  ...pagination(50),
+  restaurant_id: id().optional(),
+  entity_type: v.string({ min: 1 }).optional(),
+  entity_id: id().optional(),
+  action: v.string({ min: 1 }).optional(),
+  api_key_id: id().optional(),
+  from: v.string({ format: 'date-time' }).optional().describe('Instante ISO 8601 (sin zona = UTC)'),
+  to: v.string({ format: 'date-time' }).optional().describe('Instante ISO 8601 (no incluido)')
+});
+
+export const deadLettersQuery = v.object({
+  ...pagination(20),
+  status: v.enumeration(['pending', 'replayed'] as const).optional(),
+  restaurant_id: id().optional()
+});
+
+const webhookFields = {
+  url: v.string({ format: 'uri', max: 2048 }),
+  events: v.array(v.enumeration(WEBHOOK_EVENTS), { min: 1 }),
+  description: v.string({ max: 1000 }).nullable().optional(),
+  active: v.boolean().optional()
+};
+
+export const webhookCreateBody = v.object(webhookFields);
+
+export const webhookUpdateBody = v.object({
+  ...webhookFields,
+  url: webhookFields.url.optional(),
+  events: webhookFields.events.optional()
+});
+
+export const webhookDeliveriesQuery = v.object({
+  ...pagination(20),
+  subscription_id: id().optional(),
+  status: v.enumeration(['pending', 'retrying', 'delivered', 'failed'] as const).optional(),
+  event: v.enumeration(WEBHOOK_EVENTS).optional()
+});
+
+export const apiKeyCreateBody = v.object({
+  name: v.string({ min: 1, max: 100 }),
+  scopes: v.array(v.enumeration(API_SCOPES), { min: 1 }),
+  restaurant_id: id().nullable().optional().describe('Limita la key a un restaurante'),
+  expires_at: v.string({ format: 'date-time' }).nullable().optional()
+});
+
+// =====================================================
+// PAYLOAD DE GLORIAFOOD (webhook y polling)
+// =====================================================
+
+// Los campos opcionales llegan como null (JSON) o vacíos (XML) cuando no tienen valor
+const optional = <T>(schema: Schema<T>) => schema.nullable().optional();
+
+const gloriaFoodOption = v.object({
+  id: v.integer(),
+  name: v.string(),
+  price: v.number(),
+  group_name: optional(v.string()),
+  quantity: v.number({ min: 0 }),
+  type: v.enumeration(['size', 'option'] as const),
+  type_id: optional(v.integer()),
+  kitchen_internal_name: optional(v.string())
+});
+
+const gloriaFoodItem = v.object({
+  id: v.integer(),
+  name: v.string(),
+  total_item_price: v.number(),
+  price: v.number(),
+  quantity: v.number({ min: 0 }),
+  instructions: optional(v.string()),
+  type: v.enumeration<OrderItem['type']>([
+    'item', 'delivery_fee', 'tip', 'promo_cart', 'promo_item', 'promo_cart_item',
+    'service_fee_subtotal', 'service_fee_total', 'cash_discount'
+  ]),
+  type_id: optional(v.integer()),
+  tax_rate: optional(v.number()),
+  tax_value: optional(v.number()),
+  tax_type: optional(v.enumeration(['NET', 'GROSS'] as const)),
+  parent_id: optional(v.integer()),
+  item_discount: optional(v.number()),
+  cart_discount: optional(v.number()),
+  cart_discount_rate: optional(v.number()),
+  kitchen_internal_name: optional(v.string()),
+  coupon: optional(v.string()),
+  options: optional(v.array(gloriaFoodOption))
+});
+
+const gloriaFoodOrder = v.object({
+  id: v.integer(),
+  api_version: v.integer(),
+  status: v.string({ min: 1 }),
+  type: v.enumeration(ORDER_TYPES),
+  source: optional(v.string()),
+  restaurant_key: v.string({ min: 1 }),
+  restaurant_id: v.integer(),
+  restaurant_name: v.string(),
+  restaurant_timezone: optional(v.string()),
+  currency: v.string({ min: 1 }),
+  total_price: v.number(),
+  sub_total_price: v.number(),
+  tax_value: v.number(),
+  tax_type: v.enumeration(['NET', 'GROSS'] as const),
+  tax_name: optional(v.string()),
+  tax_list: optional(v.array(v.object({
+    type: v.enumeration<OrderTax['type']>(['item', 'delivery_fee', 'tip', 'fees_discounts_subtotal', 'service_fee_total']),
+    value: v.number(),
+    rate: v.number()
+  }))),
+  coupons: optional(v.array(v.string())),
+  instructions: optional(v.string()),
+  fulfill_at: v.string({ format: 'date-time' }),
+  accepted_at: v.string({ format: 'date-time' }),
+  for_later: optional(v.boolean()),
+  payment: optional(v.unknown()).describe('Método de pago (texto) o detalle del pago'),
+  items: v.array(gloriaFoodItem),
+  client_id: optional(v.integer()),
+  client_first_name: optional(v.string()),
+  client_last_name: optional(v.string()),
+  client_email: optional(v.string()),
+  client_phone: optional(v.string()),
+  client_address: optional(v.string()),
+  client_address_parts: optional(v.object({
+    street: optional(v.string()),
+    bloc: optional(v.string()),
+    floor: optional(v.string()),
+    apartment: optional(v.string()),
+    intercom: optional(v.string()),
+    more_address: optional(v.string()),
+    zipcode: optional(v.string()),
+    city: optional(v.string()),
+    full_address: optional(v.string())
+  })),
+  client_order_count: optional(v.integer({ min: 0 })),
+  client_marketing_consent: optional(v.boolean()),
+  latitude: optional(v.string()),
+  longitude: optional(v.string()),
+  delivery_zone_name: optional(v.string()),
+  outside_delivery_area: optional(v.boolean()),
+  billing_details: optional(v.object({
+    type: optional(v.enumeration(['personal', 'company'] as const))
+  }))
+});
+
+// Los pedidos no se reducen a estos campos: se guarda y procesa el payload completo
+export const gloriaFoodOrderResponse = v.object({
+  count: v.integer({ min: 0 }),
+  orders: v.array(gloriaFoodOrder)
+});
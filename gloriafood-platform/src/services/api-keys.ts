@@ -0,0 +1,167 @@
+import type { Env, ApiKey, ApiKeyInput, ApiScope } from '../types';
+import { toSqlTimestamp } from './timezone';
+
+export const API_SCOPES: ApiScope[] = ['orders:read', 'orders:write', 'menu:sync', 'clients:pii', 'stats:read', 'admin'];
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Indica si una key tiene un permiso ('admin' los tiene todos).
+ * `null` es el token general (API_AUTH_TOKEN), que también los tiene todos.
+ */
+export function hasScope(apiKey: ApiKey | null, scope: ApiScope): boolean {
+  return apiKey === null || apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+// Caracteres de la key que se guardan para reconocerla en los listados
+const KEY_PREFIX_LENGTH = 12;
+
+// last_used_at se actualiza como mucho una vez por este intervalo
+const LAST_USED_INTERVAL = '-5 minutes';
+
+const PUBLIC_COLUMNS = 'id, name, key_prefix, scopes, restaurant_id, expires_at, last_used_at, revoked_at, created_at';
+
+type ApiKeyRow = Omit<ApiKey, 'scopes'> & { scopes: string };
+
+/**
+ * SHA-256 de una key en hexadecimal
+ */
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * API keys con permisos. Solo se guarda el hash de cada key: la key completa se
+ * devuelve una única vez, al crearla.
+ */
+export class ApiKeysService {
+  private db: D1Database;
+
+  constructor(env: Env) {
+    this.db = env.DB;
+  }
+
+  /**
+   * Obtiene todas las keys (también las revocadas y caducadas)
+   */
+  async getKeys(): Promise<ApiKey[]> {
+    const keys = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys ORDER BY id`
+    ).all<ApiKeyRow>();
+
+    return keys.results.map(key => this.toApiKey(key));
+  }
+
+  /**
+   * Obtiene una key por ID
+   */
+  async getKey(id: number): Promise<ApiKey | null> {
+    const key = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE id = ?`
+    ).bind(id).first<ApiKeyRow>();
+
+    return key ? this.toApiKey(key) : null;
+  }
+
+  /**
+   * Valida los datos de una key; devuelve el error o null
+   */
+  validateKey(data: ApiKeyInput): string | null {
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      return 'name is required';
+    }
+
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+      return 'scopes must be a non-empty array';
+    }
+    const invalid = data.scopes.filter(scope => !isApiScope(scope));
+    if (invalid.length > 0) {
+      return `Invalid scopes: ${invalid.join(', ')}. Valid values: ${API_SCOPES.join(', ')}`;
+    }
+
+    if (data.restaurant_id !== undefined && data.restaurant_id !== null) {
+      if (!Number.isInteger(data.restaurant_id)) {
+        return 'restaurant_id must be a restaurant ID';
+      }
+      // La administración (keys, restaurantes, logs) no es de un restaurante
+      if (data.scopes.includes('admin')) {
+        return 'The admin scope cannot be restricted to a restaurant';
+      }
+    }
+
+    if (data.expires_at !== undefined && data.expires_at !== null) {
+      const expiresAt = typeof data.expires_at === 'string' ? Date.parse(data.expires_at) : NaN;
+      if (Number.isNaN(expiresAt)) {
+        return 'expires_at must be an ISO 8601 date';
+      }
+      if (expiresAt <= Date.now()) {
+        return 'expires_at must be in the future';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Crea una key y la devuelve completa (no se puede volver a obtener)
+   */
+  async createKey(data: ApiKeyInput): Promise<{ id: number; key: string }> {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const key = 'gfp_' + [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+    const result = await this.db.prepare(`
+      INSERT INTO api_keys (name, key_prefix, key_hash, scopes, restaurant_id, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      (data.name as string).trim(),
+      key.slice(0, KEY_PREFIX_LENGTH),
+      await hashKey(key),
+      JSON.stringify([...new Set(data.scopes)]),
+      data.restaurant_id ?? null,
+      data.expires_at ? toSqlTimestamp(new Date(data.expires_at)) : null
+    ).run();
+
+    return { id: result.meta.last_row_id as number, key };
+  }
+
+  /**
+   * Revoca una key (deja de funcionar inmediatamente)
+   */
+  async revokeKey(id: number): Promise<boolean> {
+    const result = await this.db.prepare(
+      'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL'
+    ).bind(id).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Key vigente (no revocada ni caducada) a partir de su valor, o null
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.db.prepare(`
+      SELECT ${PUBLIC_COLUMNS} FROM api_keys
+      WHERE key_hash = ? AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+    `).bind(await hashKey(key)).first<ApiKeyRow>();
+
+    return apiKey ? this.toApiKey(apiKey) : null;
+  }
+
+  /**
+   * Registra el uso de una key (sin escribir en cada petición)
+   */
+  async touch(id: number): Promise<void> {
+    await this.db.prepare(`
+      UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '${LAST_USED_INTERVAL}'))
+    `).bind(id).run();
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return { ...row, scopes: JSON.parse(row.scopes) };
+  }
+}
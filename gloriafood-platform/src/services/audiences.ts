@@ -0,0 +1,408 @@
+import type {
+  Env, AudienceExport, AudienceFilters, AudienceMember, MarketingAudience, MarketingAudienceInput, Restaurant
+} from '../types';
+import { csvLine } from './reports';
+import { addDays, resolveTimezone, startOfLocalDay, toSqlTimestamp } from './timezone';
+
+export const AUDIENCE_ORDER_TYPES: NonNullable<AudienceFilters['order_type']>[] = ['pickup', 'delivery'];
+
+const DATE_FILTERS = ['last_order_after', 'last_order_before'] as const;
+const COUNT_FILTERS = ['last_order_within_days', 'inactive_days', 'min_orders', 'max_orders'] as const;
+const AMOUNT_FILTERS = ['min_spent', 'max_spent'] as const;
+const TEXT_FILTERS = ['favorite_product', 'delivery_zone', 'coupon_code'] as const;
+
+const AUDIENCE_FILTERS = [
+  ...DATE_FILTERS, ...COUNT_FILTERS, ...AMOUNT_FILTERS, ...TEXT_FILTERS, 'order_type', 'used_coupon'
+];
+
+// Pedidos que cuentan para los filtros (los mismos que en la segmentación)
+const VALID_ORDER = "status NOT IN ('cancelled', 'refunded')";
+
+// Clientes de muestra en la vista previa
+const PREVIEW_SAMPLE_SIZE = 10;
+
+// Cabeceras que Mailchimp, Brevo y similares reconocen al importar un CSV
+const EXPORT_COLUMNS = ['Email Address', 'First Name', 'Last Name', 'Phone Number', 'Orders', 'Total Spent', 'Last Order'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type AudienceRow = Omit<MarketingAudience, 'filters'> & { filters: string };
+type AudienceExportRow = Omit<AudienceExport, 'filters'> & { filters: string };
+
+/**
+ * Audiencias de marketing de un restaurante.
+ *
+ * Una audiencia guarda filtros, no clientes: se evalúa cada vez que se previsualiza
+ * o se exporta. Solo entran clientes con consentimiento de marketing y email, sin
+ * anonimizar ni fusionar, sea cual sea el filtro. Cada exportación queda registrada.
+ */
+export class AudiencesService {
+  private db: D1Database;
+  private restaurant: Restaurant;
+  private timezone: string;
+
+  constructor(env: Env, restaurant: Restaurant) {
+    this.db = env.DB;
+    this.restaurant = restaurant;
+    this.timezone = resolveTimezone(restaurant.timezone);
+  }
+
+  /**
+   * Obtiene las audiencias del restaurante
+   */
+  async getAudiences(): Promise<MarketingAudience[]> {
+    const audiences = await this.db.prepare(
+      'SELECT * FROM marketing_audiences WHERE restaurant_id = ? ORDER BY id'
+    ).bind(this.restaurant.id).all<AudienceRow>();
+
+    return audiences.results.map(audience => this.toAudience(audience));
+  }
+
+  /**
+   * Obtiene una audiencia del restaurante
+   */
+  async getAudience(id: number): Promise<MarketingAudience | null> {
+    const audience = await this.db.prepare(
+      'SELECT * FROM marketing_audiences WHERE id = ? AND restaurant_id = ?'
+    ).bind(id, this.restaurant.id).first<AudienceRow>();
+
+    return audience ? this.toAudience(audience) : null;
+  }
+
+  /**
+   * Valida los datos de una audiencia; devuelve el error o null
+   */
+  validateAudience(data: MarketingAudienceInput, partial: boolean): string | null {
+    if (!partial || data.name !== undefined) {
+      if (typeof data.name !== 'string' || data.name.trim() === '') {
+        return 'name is required';
+      }
+    }
+
+    if (!partial || data.filters !== undefined) {
+      return this.validateFilters(data.filters);
+    }
+
+    return null;
+  }
+
+  /**
+   * Valida los filtros de una audiencia; devuelve el error o null
+   */
+  validateFilters(filters: unknown): string | null {
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+      return 'filters must be an object';
+    }
+
+    const values = filters as Record<string, unknown>;
+
+    const unknown = Object.keys(values).filter(key => !AUDIENCE_FILTERS.includes(key));
+    if (unknown.length > 0) {
+      return `Unknown filters: ${unknown.join(', ')}. Valid filters: ${AUDIENCE_FILTERS.join(', ')}`;
+    }
+
+    for (const key of DATE_FILTERS) {
+      const value = values[key];
+      if (value !== undefined && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value)))) {
+        return `${key} must be a date (YYYY-MM-DD)`;
+      }
+    }
+    for (const key of COUNT_FILTERS) {
+      const value = values[key];
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+        return `${key} must be a non-negative integer`;
+      }
+    }
+    for (const key of AMOUNT_FILTERS) {
+      const value = values[key];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return `${key} must be a non-negative number`;
+      }
+    }
+    for (const key of TEXT_FILTERS) {
+      const value = values[key];
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        return `${key} must be a non-empty string`;
+      }
+    }
+
+    if (values.order_type !== undefined && !(AUDIENCE_ORDER_TYPES as unknown[]).includes(values.order_type)) {
+      return `Invalid order_type. Valid values: ${AUDIENCE_ORDER_TYPES.join(', ')}`;
+    }
+    if (values.used_coupon !== undefined && typeof values.used_coupon !== 'boolean') {
+      return 'used_coupon must be a boolean';
+    }
+    if (values.used_coupon === false && values.coupon_code !== undefined) {
+      return 'coupon_code cannot be combined with used_coupon: false';
+    }
+
+    return null;
+  }
+
+  /**
+   * Crea una audiencia
+   */
+  async createAudience(data: MarketingAudienceInput): Promise<number> {
+    const result = await this.db.prepare(`
+      INSERT INTO marketing_audiences (restaurant_id, name, description, filters)
+      VALUES (?, ?, ?, ?)
+    `).bind(
+      this.restaurant.id,
+      (data.name as string).trim(),
+      data.description || null,
+      JSON.stringify(data.filters)
+    ).run();
+
+    return result.meta.last_row_id as number;
+  }
+
+  /**
+   * Actualiza una audiencia
+   */
+  async updateAudience(id: number, data: MarketingAudienceInput): Promise<boolean> {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (data.name !== undefined) {
+      fields.push('name = ?');
+      values.push((data.name as string).trim());
+    }
+    if (data.description !== undefined) {
+      fields.push('description = ?');
+      values.push(data.description || null);
+    }
+    if (data.filters !== undefined) {
+      fields.push('filters = ?');
+      values.push(JSON.stringify(data.filters));
+    }
+
+    if (fields.length === 0) return false;
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, this.restaurant.id);
+
+    const result = await this.db.prepare(
+      `UPDATE marketing_audiences SET ${fields.join(', ')} WHERE id = ? AND restaurant_id = ?`
+    ).bind(...values).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Elimina una audiencia (su registro de exportaciones se conserva)
+   */
+  async deleteAudience(id: number): Promise<boolean> {
+    const result = await this.db.prepare(
+      'DELETE FROM marketing_audiences WHERE id = ? AND restaurant_id = ?'
+    ).bind(id, this.restaurant.id).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Número de clientes que cumplen los filtros y una muestra de ellos
+   */
+  async preview(filters: AudienceFilters, now: Date = new Date()): Promise<{ count: number; sample: AudienceMember[] }> {
+    const { sql, params } = this.membersQuery(filters, now);
+
+    const count = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM (${sql})`
+    ).bind(...params).first<{ total: number }>();
+
+    const sample = await this.db.prepare(
+      `${sql} ORDER BY s.total_spent DESC, c.id LIMIT ?`
+    ).bind(...params, PREVIEW_SAMPLE_SIZE).all<AudienceMember>();
+
+    return { count: count?.total || 0, sample: sample.results };
+  }
+
+  /**
+   * CSV de la audiencia para importar en una herramienta de email.
+   * Registra quién la ha pedido.
+   */
+  async exportAudience(
+    audience: MarketingAudience,
+    requester: {
+      requestedBy: string;
+      requestedByHeader: string | null;
+      apiKeyId: number | null;
+      ipAddress: string | null;
+      userAgent: string | null;
+    },
+    now: Date = new Date()
+  ): Promise<{ csv: string; count: number }> {
+    const { sql, params } = this.membersQuery(audience.filters, now);
+
+    const members = await this.db.prepare(
+      `${sql} ORDER BY c.id`
+    ).bind(...params).all<AudienceMember>();
+
+    await this.db.prepare(`
+      INSERT INTO marketing_audience_exports (
+        restaurant_id, audience_id, audience_name, filters, client_count,
+        requested_by, requested_by_header, api_key_id, ip_address, user_agent
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      this.restaurant.id,
+      audience.id,
+      audience.name,
+      JSON.stringify(audience.filters),
+      members.results.length,
+      requester.requestedBy,
+      requester.requestedByHeader,
+      requester.apiKeyId,
+      requester.ipAddress,
+      requester.userAgent
+    ).run();
+
+    const lines = members.results.map(member => csvLine([
+      member.email,
+      member.first_name,
+      member.last_name,
+      member.phone,
+      member.order_count,
+      member.total_spent,
+      member.last_order_at
+    ]));
+
+    return { csv: csvLine(EXPORT_COLUMNS) + lines.join(''), count: members.results.length };
+  }
+
+  /**
+   * Registro de exportaciones del restaurante con paginación
+   */
+  async getExports(page: number = 1, limit: number = 20, audienceId?: number): Promise<{
+    exports: AudienceExport[];
+    total: number;
+  }> {
+    let whereClause = 'restaurant_id = ?';
+    const params: number[] = [this.restaurant.id];
+
+    if (audienceId) {
+      whereClause += ' AND audience_id = ?';
+      params.push(audienceId);
+    }
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM marketing_audience_exports WHERE ${whereClause}`
+    ).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const exports = await this.db.prepare(`
+      SELECT * FROM marketing_audience_exports WHERE ${whereClause}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<AudienceExportRow>();
+
+    return {
+      exports: exports.results.map(row => ({ ...row, filters: JSON.parse(row.filters) })),
+      total: countResult?.total || 0
+    };
+  }
+
+  /**
+   * Consulta de los clientes que cumplen los filtros (sin ORDER BY ni LIMIT).
+   * Alias: `c` para el cliente y `s` para sus totales en el restaurante.
+   */
+  private membersQuery(filters: AudienceFilters, now: Date): { sql: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [this.restaurant.id];
+
+    // Pedidos válidos del cliente en el restaurante (para los EXISTS)
+    const clientOrders = `FROM orders fo WHERE fo.client_id = c.id AND fo.restaurant_id = ? AND fo.${VALID_ORDER}`;
+
+    if (filters.last_order_after) {
+      conditions.push('s.last_order_at >= ?');
+      params.push(toSqlTimestamp(startOfLocalDay(this.timezone, filters.last_order_after)));
+    }
+    if (filters.last_order_before) {
+      conditions.push('s.last_order_at < ?');
+      params.push(toSqlTimestamp(startOfLocalDay(this.timezone, addDays(filters.last_order_before, 1))));
+    }
+    if (filters.last_order_within_days !== undefined) {
+      conditions.push('s.last_order_at >= ?');
+      params.push(toSqlTimestamp(new Date(now.getTime() - filters.last_order_within_days * DAY_MS)));
+    }
+    if (filters.inactive_days !== undefined) {
+      conditions.push('s.last_order_at < ?');
+      params.push(toSqlTimestamp(new Date(now.getTime() - filters.inactive_days * DAY_MS)));
+    }
+    if (filters.min_orders !== undefined) {
+      conditions.push('s.order_count >= ?');
+      params.push(filters.min_orders);
+    }
+    if (filters.max_orders !== undefined) {
+      conditions.push('s.order_count <= ?');
+      params.push(filters.max_orders);
+    }
+    if (filters.min_spent !== undefined) {
+      conditions.push('s.total_spent >= ?');
+      params.push(filters.min_spent);
+    }
+    if (filters.max_spent !== undefined) {
+      conditions.push('s.total_spent <= ?');
+      params.push(filters.max_spent);
+    }
+    if (filters.favorite_product) {
+      // Producto con más unidades; en empate, el del pedido más reciente
+      conditions.push(`(
+        SELECT oi.name FROM order_items oi INNER JOIN orders fo ON oi.order_id = fo.id
+        WHERE fo.client_id = c.id AND fo.restaurant_id = ? AND fo.${VALID_ORDER} AND oi.type = 'item'
+        GROUP BY oi.name
+        ORDER BY SUM(oi.quantity) DESC, MAX(fo.id) DESC
+        LIMIT 1
+      ) = ? COLLATE NOCASE`);
+      params.push(this.restaurant.id, filters.favorite_product.trim());
+    }
+    if (filters.delivery_zone) {
+      conditions.push(`EXISTS (SELECT 1 ${clientOrders} AND fo.delivery_zone = ? COLLATE NOCASE)`);
+      params.push(this.restaurant.id, filters.delivery_zone.trim());
+    }
+    if (filters.order_type) {
+      conditions.push(`EXISTS (SELECT 1 ${clientOrders} AND fo.type = ?)`);
+      params.push(this.restaurant.id, filters.order_type);
+    }
+    if (filters.used_coupon !== undefined || filters.coupon_code) {
+      let couponCondition = `EXISTS (
+        SELECT 1 FROM order_coupons oc INNER JOIN orders fo ON oc.order_id = fo.id
+        WHERE fo.client_id = c.id AND fo.restaurant_id = ? AND fo.${VALID_ORDER}`;
+      params.push(this.restaurant.id);
+
+      if (filters.coupon_code) {
+        couponCondition += ' AND oc.coupon_code = ? COLLATE NOCASE';
+        params.push(filters.coupon_code.trim());
+      }
+      couponCondition += ')';
+
+      conditions.push(filters.used_coupon === false ? `NOT ${couponCondition}` : couponCondition);
+    }
+
+    const sql = `
+      SELECT
+        c.id as client_id, c.email, c.first_name, c.last_name, c.phone,
+        s.order_count, s.total_spent, s.last_order_at
+      FROM clients c
+      INNER JOIN (
+        SELECT
+          client_id,
+          COUNT(*) as order_count,
+          ROUND(COALESCE(SUM(total_price), 0), 2) as total_spent,
+          MAX(datetime(COALESCE(accepted_at, created_at))) as last_order_at
+        FROM orders
+        WHERE restaurant_id = ? AND client_id IS NOT NULL AND ${VALID_ORDER}
+        GROUP BY client_id
+      ) s ON s.client_id = c.id
+      WHERE c.marketing_consent = 1
+        AND c.email IS NOT NULL
+        AND c.anonymized_at IS NULL
+        AND c.merged_into_id IS NULL
+        ${conditions.map(condition => `AND ${condition}`).join('\n        ')}
+    `;
+
+    return { sql, params };
+  }
+
+  private toAudience(row: AudienceRow): MarketingAudience {
+    return { ...row, filters: JSON.parse(row.filters) };
+  }
+}
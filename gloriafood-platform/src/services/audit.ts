@@ -0,0 +1,162 @@
+import type { Env, AuditChanges, AuditEntry, AuditTarget } from '../types';
+import { toSqlTimestamp } from './timezone';
+
+// Campos cuyo valor nunca se guarda en el log
+const SECRET_FIELDS = ['secret_key', 'secret', 'key', 'key_hash'];
+
+// Campos que cambian en cada escritura y no aportan nada al diff
+const IGNORED_FIELDS = ['updated_at'];
+
+const REDACTED = '[redacted]';
+
+type AuditEntryRow = Omit<AuditEntry, 'changes'> & { changes: string | null };
+
+export interface AuditFilters {
+  restaurantId?: number;
+  entityType?: string;
+  entityId?: number;
+  action?: string;
+  apiKeyId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Diferencias campo a campo entre dos versiones de una entidad.
+ * Sin `before` es una creación y sin `after` un borrado.
+ */
+export function auditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges | null {
+  if (!before && !after) return null;
+
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes[field] = SECRET_FIELDS.includes(field)
+      ? { before: oldValue === null ? null : REDACTED, after: newValue === null ? null : REDACTED }
+      : { before: oldValue, after: newValue };
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Log de auditoría: quién ha modificado qué a través de la API.
+ * Solo se insertan filas; el borrado de un cliente oculta los valores de sus cambios.
+ */
+export class AuditService {
+  private db: D1Database;
+
+  constructor(env: Env) {
+    this.db = env.DB;
+  }
+
+  /**
+   * Registra una modificación
+   */
+  async record(
+    target: AuditTarget,
+    request: {
+      requestId: string;
+      apiKeyId: number | null;
+      actor: string;
+      method: string;
+      route: string;
+      path: string;
+      ipAddress: string | null;
+    }
+  ): Promise<void> {
+    const changes = auditChanges(target.before, target.after);
+
+    await this.db.prepare(`
+      INSERT INTO audit_log (
+        request_id, restaurant_id, api_key_id, actor, method, route, path,
+        entity_type, entity_id, action, changes, ip_address
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      request.requestId,
+      target.restaurant_id ?? null,
+      request.apiKeyId,
+      request.actor,
+      request.method,
+      request.route,
+      request.path,
+      target.entity_type,
+      target.entity_id,
+      target.action,
+      changes ? JSON.stringify(changes) : null,
+      request.ipAddress
+    ).run();
+  }
+
+  /**
+   * Entradas del log, de la más reciente a la más antigua
+   */
+  async getEntries(
+    page: number = 1,
+    limit: number = 50,
+    filters: AuditFilters = {}
+  ): Promise<{ entries: AuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filters.restaurantId !== undefined) {
+      conditions.push('restaurant_id = ?');
+      params.push(filters.restaurantId);
+    }
+    if (filters.entityType) {
+      conditions.push('entity_type = ?');
+      params.push(filters.entityType);
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push('entity_id = ?');
+      params.push(filters.entityId);
+    }
+    if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+    if (filters.apiKeyId !== undefined) {
+      conditions.push('api_key_id = ?');
+      params.push(filters.apiKeyId);
+    }
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(toSqlTimestamp(filters.from));
+    }
+    if (filters.to) {
+      conditions.push('created_at < ?');
+      params.push(toSqlTimestamp(filters.to));
+    }
+
+    const whereClause = conditions.length > 0 ? conditions.join(' AND ') : '1=1';
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM audit_log WHERE ${whereClause}`
+    ).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const entries = await this.db.prepare(`
+      SELECT * FROM audit_log WHERE ${whereClause}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<AuditEntryRow>();
+
+    return {
+      entries: entries.results.map(entry => ({
+        ...entry,
+        changes: entry.changes ? JSON.parse(entry.changes) : null
+      })),
+      total: countResult?.total || 0
+    };
+  }
+}
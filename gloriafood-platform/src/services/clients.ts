@@ -1,37 +1,117 @@
-import type { Env, Client } from '../types';
+import type {
+  Env, Client, ClientConsentChange, ClientFilters, ClientSegment, ClientMerge, ClientMergeResult,
+  ConsentSource, DuplicateClientGroup
+} from '../types';
+
+// Un cliente pertenece a un restaurante si ha pedido en él
+const RESTAURANT_SCOPE = 'EXISTS (SELECT 1 FROM orders ro WHERE ro.client_id = clients.id AND ro.restaurant_id = ?)';
+
+/**
+ * Email normalizado para comparar clientes (minúsculas, sin espacios)
+ */
+export function normalizeEmail(email?: string | null): string | null {
+  const value = email?.trim().toLowerCase();
+  return value && value.includes('@') ? value : null;
+}
+
+/**
+ * Teléfono normalizado para comparar clientes: solo dígitos, con el prefijo
+ * internacional 00 tratado como +
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '').replace(/^00/, '');
+  return digits.length >= 6 ? digits : null;
+}
+
+/**
+ * Sentencia que registra el nuevo consentimiento de marketing de un cliente si
+ * cambia. Debe ejecutarse antes del UPDATE, en el mismo batch, porque compara con
+ * el valor guardado.
+ */
+export function consentChangeStatement(db: D1Database, change: {
+  clientId: number;
+  restaurantId: number | null;
+  consent: boolean;
+  source: ConsentSource;
+  orderGloriaFoodId?: number | null;
+}): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO client_consent_history (
+      client_id, restaurant_id, marketing_consent, previous_consent, source, order_gloriafood_id
+    )
+    SELECT id, ?, ?, marketing_consent, ?, ? FROM clients
+    WHERE id = ? AND (marketing_consent IS NULL OR marketing_consent != ?)
+  `).bind(
+    change.restaurantId,
+    change.consent ? 1 : 0,
+    change.source,
+    change.orderGloriaFoodId ?? null,
+    change.clientId,
+    change.consent ? 1 : 0
+  );
+}
+
+type ClientMergeRow = Omit<ClientMerge, 'merged_snapshot'> & { merged_snapshot: string };
+
+function parseMerge(row: ClientMergeRow): ClientMerge {
+  return { ...row, merged_snapshot: JSON.parse(row.merged_snapshot) };
+}
 
 /**
- * Servicio para gestión de clientes
+ * Condición SQL (sobre la tabla clients) del listado de clientes de un restaurante
+ */
+export function clientFilterClause(restaurantId: number, filters?: ClientFilters): {
+  whereClause: string;
+  params: (string | number)[];
+} {
+  let whereClause = RESTAURANT_SCOPE;
+  const params: (string | number)[] = [restaurantId];
+  const search = filters?.search;
+
+  if (search) {
+    whereClause += ` AND (
+      first_name LIKE ? OR
+      last_name LIKE ? OR
+      email LIKE ? OR
+      phone LIKE ?
+    )`;
+    const searchPattern = `%${search}%`;
+    params.push(searchPattern, searchPattern, searchPattern, searchPattern);
+  }
+  if (filters?.segment) {
+    whereClause += ' AND EXISTS (SELECT 1 FROM client_segments fs WHERE fs.client_id = clients.id AND fs.restaurant_id = ? AND fs.segment = ?)';
+    params.push(restaurantId, filters.segment);
+  }
+  if (filters?.churnRisk !== undefined) {
+    whereClause += ' AND EXISTS (SELECT 1 FROM client_segments fs WHERE fs.client_id = clients.id AND fs.restaurant_id = ? AND fs.churn_risk = ?)';
+    params.push(restaurantId, filters.churnRisk ? 1 : 0);
+  }
+
+  return { whereClause, params };
+}
+
+/**
+ * Servicio para gestión de clientes de un restaurante
  */
 export class ClientsService {
   private db: D1Database;
   private cache: KVNamespace;
+  private restaurantId: number;
 
-  constructor(env: Env) {
+  constructor(env: Env, restaurantId: number) {
     this.db = env.DB;
     this.cache = env.CACHE;
+    this.restaurantId = restaurantId;
   }
 
   /**
    * Obtiene todos los clientes con paginación
    */
-  async getClients(page: number = 1, limit: number = 20, search?: string): Promise<{
-    clients: Client[];
+  async getClients(page: number = 1, limit: number = 20, filters?: ClientFilters): Promise<{
+    clients: (Client & { segment: ClientSegment | null; churn_risk: boolean | null })[];
     total: number;
   }> {
-    let whereClause = '1=1';
-    const params: string[] = [];
-
-    if (search) {
-      whereClause = `(
-        first_name LIKE ? OR
-        last_name LIKE ? OR
-        email LIKE ? OR
-        phone LIKE ?
-      )`;
-      const searchPattern = `%${search}%`;
-      params.push(searchPattern, searchPattern, searchPattern, searchPattern);
-    }
+    const { whereClause, params } = clientFilterClause(this.restaurantId, filters);
 
     // Contar total
     const countResult = await this.db.prepare(
@@ -42,19 +122,30 @@ export class ClientsService {
 
     // Obtener clientes
     const offset = (page - 1) * limit;
-    const clients = await this.db.prepare(
-      `SELECT * FROM clients WHERE ${whereClause} ORDER BY order_count DESC, created_at DESC LIMIT ? OFFSET ?`
-    ).bind(...params, limit, offset).all<Client>();
+    const clients = await this.db.prepare(`
+      SELECT clients.*, cs.segment, cs.churn_risk
+      FROM clients
+      LEFT JOIN client_segments cs ON cs.client_id = clients.id AND cs.restaurant_id = ?
+      WHERE ${whereClause}
+      ORDER BY order_count DESC, created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(this.restaurantId, ...params, limit, offset).all<Client & { segment: ClientSegment | null; churn_risk: number | null }>();
 
-    return { clients: clients.results, total };
+    return {
+      clients: clients.results.map(client => ({
+        ...client,
+        churn_risk: client.churn_risk === null ? null : !!client.churn_risk
+      })),
+      total
+    };
   }
 
   /**
    * Obtiene un cliente por ID
    */
   async getClientById(id: number): Promise<Client | null> {
-    return this.db.prepare('SELECT * FROM clients WHERE id = ?')
-      .bind(id).first<Client>();
+    return this.db.prepare(`SELECT * FROM clients WHERE id = ? AND ${RESTAURANT_SCOPE}`)
+      .bind(id, this.restaurantId).first<Client>();
   }
 
   /**
@@ -76,8 +167,8 @@ export class ClientsService {
 
     // Obtener pedidos recientes
     const orders = await this.db.prepare(`
-      SELECT * FROM orders WHERE client_id = ? ORDER BY created_at DESC LIMIT 10
-    `).bind(id).all();
+      SELECT * FROM orders WHERE client_id = ? AND restaurant_id = ? ORDER BY created_at DESC LIMIT 10
+    `).bind(id, this.restaurantId).all();
 
     // Calcular estadísticas
     const stats = await this.db.prepare(`
@@ -88,8 +179,8 @@ export class ClientsService {
         MAX(created_at) as last_order_date,
         SUM(CASE WHEN type = 'delivery' THEN 1 ELSE 0 END) as delivery_orders,
         SUM(CASE WHEN type = 'pickup' THEN 1 ELSE 0 END) as pickup_orders
-      FROM orders WHERE client_id = ?
-    `).bind(id).first();
+      FROM orders WHERE client_id = ? AND restaurant_id = ?
+    `).bind(id, this.restaurantId).first();
 
     return {
       client,
@@ -111,11 +202,11 @@ export class ClientsService {
         AVG(o.total_price) as avg_order_value,
         MAX(o.created_at) as last_order
       FROM clients c
-      LEFT JOIN orders o ON c.id = o.client_id
+      INNER JOIN orders o ON c.id = o.client_id AND o.restaurant_id = ?
       GROUP BY c.id
       ORDER BY total_orders DESC, total_spent DESC
       LIMIT ?
-    `).bind(limit).all();
+    `).bind(this.restaurantId, limit).all();
 
     return clients.results;
   }
@@ -125,34 +216,225 @@ export class ClientsService {
    */
   async getMarketingClients(): Promise<Client[]> {
     const clients = await this.db.prepare(`
-      SELECT * FROM clients WHERE marketing_consent = 1 AND email IS NOT NULL
+      SELECT * FROM clients WHERE marketing_consent = 1 AND email IS NOT NULL AND ${RESTAURANT_SCOPE}
       ORDER BY order_count DESC
-    `).all<Client>();
+    `).bind(this.restaurantId).all<Client>();
 
     return clients.results;
   }
 
   /**
-   * Busca clientes por email o teléfono
+   * Busca clientes por email o teléfono normalizados (en todos los restaurantes).
+   * Los clientes fusionados no se devuelven; si hay varios, gana el más antiguo.
    */
   async findClient(email?: string, phone?: string): Promise<Client | null> {
-    if (email) {
+    const normalizedEmail = normalizeEmail(email);
+    if (normalizedEmail) {
       const byEmail = await this.db.prepare(
-        'SELECT * FROM clients WHERE email = ?'
-      ).bind(email).first<Client>();
+        'SELECT * FROM clients WHERE email_normalized = ? AND merged_into_id IS NULL ORDER BY id LIMIT 1'
+      ).bind(normalizedEmail).first<Client>();
       if (byEmail) return byEmail;
     }
 
-    if (phone) {
+    const normalizedPhone = normalizePhone(phone);
+    if (normalizedPhone) {
       const byPhone = await this.db.prepare(
-        'SELECT * FROM clients WHERE phone = ?'
-      ).bind(phone).first<Client>();
+        'SELECT * FROM clients WHERE phone_normalized = ? AND merged_into_id IS NULL ORDER BY id LIMIT 1'
+      ).bind(normalizedPhone).first<Client>();
       if (byPhone) return byPhone;
     }
 
     return null;
   }
 
+  /**
+   * Grupos de clientes del restaurante que comparten email o teléfono normalizado
+   */
+  async getDuplicates(page: number = 1, limit: number = 20): Promise<{
+    groups: DuplicateClientGroup[];
+    total: number;
+  }> {
+    const groupsSql = `
+      SELECT 'email' as match, email_normalized as value, json_group_array(id) as ids
+      FROM clients
+      WHERE ${RESTAURANT_SCOPE} AND merged_into_id IS NULL AND email_normalized IS NOT NULL
+      GROUP BY email_normalized HAVING COUNT(*) > 1
+      UNION ALL
+      SELECT 'phone' as match, phone_normalized as value, json_group_array(id) as ids
+      FROM clients
+      WHERE ${RESTAURANT_SCOPE} AND merged_into_id IS NULL AND phone_normalized IS NOT NULL
+      GROUP BY phone_normalized HAVING COUNT(*) > 1
+    `;
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM (${groupsSql})`
+    ).bind(this.restaurantId, this.restaurantId).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const groups = await this.db.prepare(
+      `${groupsSql} ORDER BY match, value LIMIT ? OFFSET ?`
+    ).bind(this.restaurantId, this.restaurantId, limit, offset).all<{
+      match: 'email' | 'phone';
+      value: string;
+      ids: string;
+    }>();
+
+    const ids = [...new Set(groups.results.flatMap(group => JSON.parse(group.ids) as number[]))];
+    const clients = new Map<number, Client>();
+
+    if (ids.length > 0) {
+      const rows = await this.db.prepare(
+        `SELECT * FROM clients WHERE id IN (${ids.map(() => '?').join(', ')})`
+      ).bind(...ids).all<Client>();
+      for (const client of rows.results) clients.set(client.id, client);
+    }
+
+    return {
+      groups: groups.results.map(group => ({
+        match: group.match,
+        value: group.value,
+        clients: (JSON.parse(group.ids) as number[])
+          .sort((a, b) => a - b)
+          .map(id => clients.get(id))
+          .filter((client): client is Client => !!client)
+      })),
+      total: countResult?.total || 0
+    };
+  }
+
+  /**
+   * Fusiona clientes duplicados en uno que se conserva.
+   *
+   * Los clientes son comunes a todos los restaurantes: los pedidos, direcciones,
+   * segmentos e historial de consentimiento del duplicado pasan al cliente
+   * conservado en todos ellos (la ruta solo lo permite a keys sin restaurante).
+   * El conservado completa sus datos vacíos con los del duplicado. El duplicado no
+   * se borra: queda con `merged_into_id` para que los pedidos que lleguen con su ID
+   * de GloriaFood se asignen al cliente conservado, y se guarda una copia en `client_merges`.
+   */
+  async mergeClients(survivorId: number, duplicateIds: number[]): Promise<ClientMergeResult> {
+    const ids = [...new Set(duplicateIds)];
+
+    if (ids.length === 0) {
+      return { result: 'invalid', error: 'client_ids must contain at least one client to merge' };
+    }
+    if (ids.includes(survivorId)) {
+      return { result: 'invalid', error: 'A client cannot be merged into itself' };
+    }
+
+    const allIds = [survivorId, ...ids];
+    const rows = await this.db.prepare(`
+      SELECT * FROM clients
+      WHERE id IN (${allIds.map(() => '?').join(', ')}) AND merged_into_id IS NULL AND ${RESTAURANT_SCOPE}
+    `).bind(...allIds, this.restaurantId).all<Client>();
+
+    const found = new Map(rows.results.map(client => [client.id, client]));
+    const missing = allIds.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      return { result: 'not_found', ids: missing };
+    }
+
+    const statements: D1PreparedStatement[] = [];
+
+    for (const id of ids) {
+      const duplicate = found.get(id) as Client;
+
+      const counts = await this.db.prepare(`
+        SELECT
+          (SELECT COUNT(*) FROM orders WHERE client_id = ?) as orders,
+          (SELECT COUNT(*) FROM client_addresses a WHERE a.client_id = ? AND NOT EXISTS (
+            SELECT 1 FROM client_addresses s WHERE s.client_id = ? AND s.full_address = a.full_address
+          )) as addresses
+      `).bind(id, id, survivorId).first<{ orders: number; addresses: number }>();
+
+      statements.push(
+        this.db.prepare(`
+          INSERT INTO client_merges (restaurant_id, survivor_id, merged_id, merged_snapshot, orders_moved, addresses_moved)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).bind(this.restaurantId, survivorId, id, JSON.stringify(duplicate), counts?.orders || 0, counts?.addresses || 0),
+        this.db.prepare('UPDATE orders SET client_id = ? WHERE client_id = ?').bind(survivorId, id),
+        // Las direcciones que el cliente conservado ya tiene no se duplican
+        this.db.prepare(`
+          DELETE FROM client_addresses
+          WHERE client_id = ? AND full_address IN (SELECT full_address FROM client_addresses WHERE client_id = ?)
+        `).bind(id, survivorId),
+        this.db.prepare('UPDATE client_addresses SET client_id = ? WHERE client_id = ?').bind(survivorId, id),
+        this.db.prepare('UPDATE client_consent_history SET client_id = ? WHERE client_id = ?').bind(survivorId, id),
+        // En los restaurantes donde los dos tienen segmento se suman sus pedidos;
+        // el segmento y las puntuaciones se recalculan en el cron diario
+        this.db.prepare(`
+          UPDATE client_segments SET
+            frequency = client_segments.frequency + d.frequency,
+            monetary = ROUND(client_segments.monetary + d.monetary, 2),
+            recency_days = MIN(client_segments.recency_days, d.recency_days),
+            first_order_at = MIN(client_segments.first_order_at, d.first_order_at),
+            last_order_at = MAX(client_segments.last_order_at, d.last_order_at),
+            avg_interval_days = ROUND(
+              (julianday(MAX(client_segments.last_order_at, d.last_order_at)) - julianday(MIN(client_segments.first_order_at, d.first_order_at)))
+              / (client_segments.frequency + d.frequency - 1), 1
+            )
+          FROM (SELECT * FROM client_segments WHERE client_id = ?) d
+          WHERE client_segments.client_id = ? AND client_segments.restaurant_id = d.restaurant_id
+        `).bind(id, survivorId),
+        // En el resto, el segmento del duplicado pasa al conservado
+        this.db.prepare('UPDATE OR IGNORE client_segments SET client_id = ? WHERE client_id = ?').bind(survivorId, id),
+        this.db.prepare('DELETE FROM client_segments WHERE client_id = ?').bind(id),
+        // Los que ya estaban fusionados en el duplicado apuntan ahora al conservado
+        this.db.prepare(
+          'UPDATE clients SET merged_into_id = ?, updated_at = CURRENT_TIMESTAMP WHERE merged_into_id = ? OR id = ?'
+        ).bind(survivorId, id, id),
+        this.db.prepare(`
+          UPDATE clients SET
+            first_name = COALESCE(first_name, ?),
+            last_name = COALESCE(last_name, ?),
+            email = COALESCE(email, ?),
+            phone = COALESCE(phone, ?),
+            email_normalized = COALESCE(email_normalized, ?),
+            phone_normalized = COALESCE(phone_normalized, ?),
+            order_count = order_count + ?,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).bind(
+          duplicate.first_name,
+          duplicate.last_name,
+          duplicate.email,
+          duplicate.phone,
+          duplicate.email_normalized,
+          duplicate.phone_normalized,
+          duplicate.order_count || 0,
+          survivorId
+        )
+      );
+    }
+
+    await this.db.batch(statements);
+
+    const client = await this.db.prepare('SELECT * FROM clients WHERE id = ?').bind(survivorId).first<Client>();
+    const merges = await this.db.prepare(`
+      SELECT * FROM client_merges
+      WHERE survivor_id = ? AND merged_id IN (${ids.map(() => '?').join(', ')})
+      ORDER BY id DESC
+      LIMIT ?
+    `).bind(survivorId, ...ids, ids.length).all<ClientMergeRow>();
+
+    return {
+      result: 'merged',
+      client: client as Client,
+      merges: merges.results.map(parseMerge)
+    };
+  }
+
+  /**
+   * Historial de fusiones de un cliente (como conservado o como fusionado)
+   */
+  async getMerges(clientId: number): Promise<ClientMerge[]> {
+    const merges = await this.db.prepare(`
+      SELECT * FROM client_merges WHERE survivor_id = ? OR merged_id = ? ORDER BY id DESC
+    `).bind(clientId, clientId).all<ClientMergeRow>();
+
+    return merges.results.map(parseMerge);
+  }
+
   /**
    * Actualiza información del cliente
    */
@@ -169,12 +451,12 @@ export class ClientsService {
       values.push(data.last_name);
     }
     if (data.email !== undefined) {
-      fields.push('email = ?');
-      values.push(data.email);
+      fields.push('email = ?', 'email_normalized = ?');
+      values.push(data.email, normalizeEmail(data.email));
     }
     if (data.phone !== undefined) {
-      fields.push('phone = ?');
-      values.push(data.phone);
+      fields.push('phone = ?', 'phone_normalized = ?');
+      values.push(data.phone, normalizePhone(data.phone));
     }
     if (data.marketing_consent !== undefined) {
       fields.push('marketing_consent = ?');
@@ -184,13 +466,43 @@ export class ClientsService {
     if (fields.length === 0) return false;
 
     fields.push('updated_at = CURRENT_TIMESTAMP');
-    values.push(id);
+    values.push(id, this.restaurantId);
 
-    const result = await this.db.prepare(
-      `UPDATE clients SET ${fields.join(', ')} WHERE id = ?`
-    ).bind(...values).run();
+    // Un cliente anonimizado no vuelve a guardar datos personales
+    const client = await this.getClientById(id);
+    if (!client || client.anonymized_at) return false;
+
+    const statements: D1PreparedStatement[] = [];
+    if (data.marketing_consent !== undefined) {
+      statements.push(consentChangeStatement(this.db, {
+        clientId: id,
+        restaurantId: this.restaurantId,
+        consent: !!data.marketing_consent,
+        source: 'api'
+      }));
+    }
+    statements.push(this.db.prepare(
+      `UPDATE clients SET ${fields.join(', ')} WHERE id = ? AND ${RESTAURANT_SCOPE}`
+    ).bind(...values));
+
+    const results = await this.db.batch(statements);
+
+    return results[results.length - 1].meta.changes > 0;
+  }
+
+  /**
+   * Historial del consentimiento de marketing de un cliente
+   */
+  async getConsentHistory(clientId: number): Promise<ClientConsentChange[]> {
+    const history = await this.db.prepare(
+      'SELECT * FROM client_consent_history WHERE client_id = ? ORDER BY id DESC'
+    ).bind(clientId).all<ClientConsentChange>();
 
-    return result.meta.changes > 0;
+    return history.results.map(change => ({
+      ...change,
+      marketing_consent: !!change.marketing_consent,
+      previous_consent: change.previous_consent === null ? null : !!change.previous_consent
+    }));
   }
 
   /**
@@ -209,7 +521,8 @@ export class ClientsService {
         SUM(CASE WHEN created_at >= date('now', '-30 days') THEN 1 ELSE 0 END) as new_this_month,
         AVG(order_count) as avg_orders
       FROM clients
-    `).first<{
+      WHERE ${RESTAURANT_SCOPE}
+    `).bind(this.restaurantId).first<{
       total: number;
       with_marketing: number;
       new_this_month: number;
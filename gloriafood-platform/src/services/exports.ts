@@ -0,0 +1,256 @@
+import type { Env, ClientFilters, ExportFormat, OrderFilters, Restaurant } from '../types';
+import { clientFilterClause } from './clients';
+import { orderFilterClause } from './orders';
+import { csvLine } from './reports';
+import { localDate, resolveTimezone } from './timezone';
+import { XlsxWriter } from './xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'xlsx'];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Registros principales (pedidos, clientes o items) que se leen de D1 en cada consulta
+const BATCH_SIZE = 200;
+
+const ORDER_COLUMNS = [
+  'order_id', 'gloriafood_id', 'status', 'type', 'source', 'payment_method', 'payment_status', 'currency',
+  'created_at', 'accepted_at', 'fulfill_at',
+  'sub_total_price', 'tax_type', 'tax_value', 'delivery_fee', 'tip_amount', 'total_price',
+  'client_id', 'client_first_name', 'client_last_name', 'client_email', 'client_phone',
+  'delivery_address', 'delivery_zone',
+  'item_name', 'item_type', 'item_quantity', 'item_price', 'item_total_price',
+  'item_tax_rate', 'item_tax_value', 'item_discount', 'item_options', 'item_instructions'
+];
+
+const CLIENT_COLUMNS = [
+  'client_id', 'gloriafood_id', 'first_name', 'last_name', 'email', 'phone',
+  'marketing_consent', 'order_count', 'segment', 'churn_risk', 'created_at',
+  'address_full', 'address_street', 'address_city', 'address_zipcode', 'address_bloc', 'address_floor',
+  'address_apartment', 'address_intercom', 'address_latitude', 'address_longitude', 'address_delivery_zone'
+];
+
+const MENU_ITEM_COLUMNS = [
+  'item_id', 'gloriafood_id', 'category', 'name', 'description', 'price', 'active',
+  'kitchen_internal_name', 'sizes', 'tags', 'allergens', 'order_types', 'updated_at'
+];
+
+type ExportRow = Record<string, unknown> & { key: number };
+
+/**
+ * Emite las filas en el formato pedido
+ */
+interface RowEncoder {
+  start(columns: string[]): Uint8Array;
+  row(values: unknown[]): Uint8Array;
+  finish(): Uint8Array;
+}
+
+function createEncoder(format: ExportFormat, sheetName: string): RowEncoder {
+  const encoder = new TextEncoder();
+
+  switch (format) {
+    case 'csv':
+      return {
+        // BOM para que Excel abra el CSV como UTF-8
+        start: (columns) => encoder.encode('\uFEFF' + csvLine(columns)),
+        row: (values) => encoder.encode(csvLine(values)),
+        finish: () => new Uint8Array(0)
+      };
+    case 'ndjson': {
+      let columns: string[] = [];
+      return {
+        start: (header) => {
+          columns = header;
+          return new Uint8Array(0);
+        },
+        row: (values) => encoder.encode(JSON.stringify(
+          Object.fromEntries(columns.map((column, index) => [column, values[index] ?? null]))
+        ) + '\n'),
+        finish: () => new Uint8Array(0)
+      };
+    }
+    case 'xlsx':
+      return new XlsxWriter(sheetName);
+  }
+}
+
+/**
+ * Exportación de datos de un restaurante (CSV, NDJSON o XLSX).
+ *
+ * Los datos se leen de D1 por lotes a medida que el cliente consume la
+ * respuesta, así que el tamaño de la exportación no depende de la memoria del
+ * Worker. Cada lote avanza por ID (no por OFFSET) para que las consultas sigan
+ * siendo rápidas al final de rangos grandes.
+ */
+export class ExportService {
+  private db: D1Database;
+  private restaurant: Restaurant;
+
+  constructor(env: Env, restaurant: Restaurant) {
+    this.db = env.DB;
+    this.restaurant = restaurant;
+  }
+
+  /**
+   * Cabeceras de la respuesta (tipo de contenido y nombre del fichero)
+   */
+  headers(entity: string, format: ExportFormat): Record<string, string> {
+    const date = localDate(resolveTimezone(this.restaurant.timezone));
+    return {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${entity}-${this.restaurant.id}-${date}.${format}"`
+    };
+  }
+
+  /**
+   * Pedidos con una fila por línea del pedido (las opciones van en `item_options`).
+   * Los pedidos sin líneas salen en una sola fila con las columnas del item vacías.
+   */
+  exportOrders(format: ExportFormat, filters?: Omit<OrderFilters, 'restaurantId'>): ReadableStream<Uint8Array> {
+    const { whereClause, params } = orderFilterClause({ ...filters, restaurantId: this.restaurant.id });
+
+    return this.stream(format, 'Orders', ORDER_COLUMNS, async (afterId) => {
+      const rows = await this.db.prepare(`
+        SELECT
+          o.id as key,
+          o.id as order_id, o.gloriafood_id, o.status, o.type, o.source, o.payment_method, o.payment_status,
+          o.currency, o.created_at, o.accepted_at, o.fulfill_at,
+          o.sub_total_price, o.tax_type, o.tax_value, o.delivery_fee, o.tip_amount, o.total_price,
+          c.id as client_id, c.first_name as client_first_name, c.last_name as client_last_name,
+          c.email as client_email, c.phone as client_phone,
+          o.delivery_address, o.delivery_zone,
+          oi.name as item_name, oi.type as item_type, oi.quantity as item_quantity, oi.price as item_price,
+          oi.total_price as item_total_price, oi.tax_rate as item_tax_rate, oi.tax_value as item_tax_value,
+          oi.item_discount,
+          (SELECT group_concat(
+            COALESCE(op.group_name || ': ', '') || op.name
+              || CASE WHEN op.quantity > 1 THEN ' x' || op.quantity ELSE '' END
+              || CASE WHEN op.price != 0 THEN printf(' (%+.2f)', op.price) ELSE '' END,
+            '; ')
+           FROM order_item_options op WHERE op.order_item_id = oi.id) as item_options,
+          oi.instructions as item_instructions
+        FROM orders o
+        LEFT JOIN clients c ON o.client_id = c.id
+        LEFT JOIN order_items oi ON oi.order_id = o.id
+        WHERE o.id IN (
+          SELECT id FROM orders WHERE ${whereClause} AND id > ? ORDER BY id LIMIT ?
+        )
+        ORDER BY o.id, oi.id
+      `).bind(...params, afterId, BATCH_SIZE).all<ExportRow>();
+
+      return rows.results;
+    });
+  }
+
+  /**
+   * Clientes del restaurante con una fila por dirección
+   */
+  exportClients(format: ExportFormat, filters?: ClientFilters): ReadableStream<Uint8Array> {
+    const { whereClause, params } = clientFilterClause(this.restaurant.id, filters);
+
+    return this.stream(format, 'Clients', CLIENT_COLUMNS, async (afterId) => {
+      const rows = await this.db.prepare(`
+        SELECT
+          cl.id as key,
+          cl.id as client_id, cl.gloriafood_id, cl.first_name, cl.last_name, cl.email, cl.phone,
+          cl.marketing_consent, cl.order_count, cs.segment, cs.churn_risk, cl.created_at,
+          a.full_address as address_full, a.street as address_street, a.city as address_city,
+          a.zipcode as address_zipcode, a.bloc as address_bloc, a.floor as address_floor,
+          a.apartment as address_apartment, a.intercom as address_intercom,
+          a.latitude as address_latitude, a.longitude as address_longitude,
+          a.delivery_zone as address_delivery_zone
+        FROM clients cl
+        LEFT JOIN client_segments cs ON cs.client_id = cl.id AND cs.restaurant_id = ?
+        LEFT JOIN client_addresses a ON a.client_id = cl.id
+        WHERE cl.id IN (
+          SELECT id FROM clients WHERE ${whereClause} AND id > ? ORDER BY id LIMIT ?
+        )
+        ORDER BY cl.id, a.id
+      `).bind(this.restaurant.id, ...params, afterId, BATCH_SIZE).all<ExportRow>();
+
+      return rows.results;
+    });
+  }
+
+  /**
+   * Items vigentes del menú (los tamaños van en `sizes`)
+   */
+  exportMenuItems(format: ExportFormat, filters?: { categoryId?: number; search?: string }): ReadableStream<Uint8Array> {
+    let whereClause = 'm.restaurant_id = ? AND mi.deleted_at IS NULL AND mc.deleted_at IS NULL';
+    const params: (string | number)[] = [this.restaurant.id];
+
+    if (filters?.categoryId) {
+      whereClause += ' AND mi.category_id = ?';
+      params.push(filters.categoryId);
+    }
+    if (filters?.search) {
+      whereClause += ' AND (mi.name LIKE ? OR mi.description LIKE ?)';
+      params.push(`%${filters.search}%`, `%${filters.search}%`);
+    }
+
+    return this.stream(format, 'Menu items', MENU_ITEM_COLUMNS, async (afterId) => {
+      const rows = await this.db.prepare(`
+        SELECT
+          mi.id as key,
+          mi.id as item_id, mi.gloriafood_id, mc.name as category, mi.name, mi.description, mi.price, mi.active,
+          mi.kitchen_internal_name,
+          (SELECT group_concat(s.name || printf(' (%.2f)', s.price), '; ')
+           FROM menu_item_sizes s WHERE s.item_id = mi.id AND s.deleted_at IS NULL) as sizes,
+          mi.tags, mi.allergens, mi.order_types, mi.updated_at
+        FROM menu_items mi
+        INNER JOIN menu_categories mc ON mi.category_id = mc.id
+        INNER JOIN menus m ON mc.menu_id = m.id
+        WHERE ${whereClause} AND mi.id > ?
+        ORDER BY mi.id
+        LIMIT ?
+      `).bind(...params, afterId, BATCH_SIZE).all<ExportRow>();
+
+      return rows.results;
+    });
+  }
+
+  /**
+   * Stream que pide un lote nuevo cada vez que el cliente ha consumido el anterior.
+   * `fetchBatch` recibe el último `key` emitido y devuelve las filas siguientes
+   * ordenadas por `key` (vacío cuando no quedan).
+   */
+  private stream(
+    format: ExportFormat,
+    sheetName: string,
+    columns: string[],
+    fetchBatch: (afterId: number) => Promise<ExportRow[]>
+  ): ReadableStream<Uint8Array> {
+    const encoder = createEncoder(format, sheetName);
+    let lastKey = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        const header = encoder.start(columns);
+        if (header.length > 0) controller.enqueue(header);
+      },
+      async pull(controller) {
+        const rows = await fetchBatch(lastKey);
+
+        if (rows.length === 0) {
+          const end = encoder.finish();
+          if (end.length > 0) controller.enqueue(end);
+          controller.close();
+          return;
+        }
+
+        for (const row of rows) {
+          controller.enqueue(encoder.row(columns.map(column => row[column])));
+        }
+        lastKey = rows[rows.length - 1].key;
+      }
+    }, { highWaterMark: 1 });
+  }
+}
@@ -2,15 +2,16 @@ import type { Env, GloriaFoodOrderResponse, GloriaFoodMenuResponse } from '../ty
 
 /**
  * Cliente para comunicación con la API de GloriaFood
+ * (una instancia por restaurante, con su secret key)
  */
 export class GloriaFoodClient {
   private baseUrl: string;
   private secretKey: string;
   private apiVersion: string;
 
-  constructor(env: Env) {
+  constructor(env: Env, secretKey: string) {
     this.baseUrl = env.GLORIAFOOD_API_URL || 'https://pos.globalfoodsoft.com';
-    this.secretKey = env.GLORIAFOOD_SECRET_KEY;
+    this.secretKey = secretKey;
     this.apiVersion = env.API_VERSION || '2';
   }
 
@@ -58,12 +59,44 @@ export class GloriaFoodClient {
   }
 
   /**
-   * Valida que una solicitud webhook viene de GloriaFood
+   * Valida que una solicitud webhook viene de GloriaFood.
+   * Acepta cualquiera de las master keys configuradas (la actual y la anterior durante una rotación).
    */
-  static validateWebhookRequest(authHeader: string | null, masterKey: string): boolean {
-    if (!authHeader || !masterKey) {
+  static async validateWebhookRequest(
+    authHeader: string | undefined,
+    masterKeys: (string | undefined)[]
+  ): Promise<boolean> {
+    if (!authHeader) {
       return false;
     }
-    return authHeader === masterKey;
+
+    // Se comparan todas las keys para no revelar con cuál coincide
+    let valid = false;
+    for (const masterKey of masterKeys) {
+      if (masterKey && await timingSafeEqual(authHeader, masterKey)) {
+        valid = true;
+      }
+    }
+    return valid;
+  }
+}
+
+/**
+ * Compara dos textos en tiempo constante.
+ * Se comparan sus hashes SHA-256, así que tampoco se revela la longitud.
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [hashA, hashB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b))
+  ]);
+
+  const bytesA = new Uint8Array(hashA);
+  const bytesB = new Uint8Array(hashB);
+  let diff = 0;
+  for (let i = 0; i < bytesA.length; i++) {
+    diff |= bytesA[i] ^ bytesB[i];
   }
+  return diff === 0;
 }
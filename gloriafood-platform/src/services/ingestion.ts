@@ -0,0 +1,380 @@
+import type {
+  Env,
+  DeadLetterOrder,
+  GloriaFoodOrder,
+  GloriaFoodOrderResponse,
+  WebhookPayload
+} from '../types';
+import { OrdersService } from './orders';
+import { OrderXmlParser } from './order-xml-parser';
+import type { FieldError } from './validation';
+import { gloriaFoodOrderResponse } from '../schemas';
+
+// Intentos de procesamiento antes de mandar un pedido a dead-letter
+export const MAX_INGESTION_ATTEMPTS = 5;
+
+// Errores de validación que se guardan en el mensaje de error de un payload
+const MAX_LOGGED_ERRORS = 10;
+
+export type PayloadCheck =
+  | { result: 'valid'; payload: GloriaFoodOrderResponse }
+  | { result: 'invalid'; errors: FieldError[] };
+
+/**
+ * Segundos de espera antes del siguiente intento (backoff exponencial, máx. 15 min)
+ */
+export function ingestionBackoff(attempts: number): number {
+  return Math.min(30 * 2 ** (attempts - 1), 900);
+}
+
+/**
+ * Servicio de ingesta de pedidos push: guarda el payload crudo,
+ * lo procesa desde la cola y gestiona los pedidos en dead-letter
+ */
+export class IngestionService {
+  private env: Env;
+  private db: D1Database;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.db = env.DB;
+  }
+
+  /**
+   * Guarda el payload recibido y lo encola para procesarlo en segundo plano
+   */
+  async enqueuePayload(rawPayload: string, contentType: string | null): Promise<number> {
+    const payloadId = await this.storePayload(rawPayload, contentType);
+    await this.env.ORDERS_QUEUE.send({ payloadId });
+
+    return payloadId;
+  }
+
+  /**
+   * Guarda en dead-letter un payload que no ha pasado la validación, sin encolarlo:
+   * se puede reintentar si el fallo era del parser o del esquema
+   */
+  async rejectPayload(rawPayload: string, contentType: string | null, errors: FieldError[]): Promise<number> {
+    const payloadId = await this.storePayload(rawPayload, contentType);
+    const errorMessage = this.describeErrors(errors);
+
+    await this.insertDeadLetter(payloadId, 'payload', null, rawPayload, errorMessage, 0);
+    await this.updatePayloadStatus(payloadId, 'failed', 0, errorMessage);
+    await this.logEvent({ payload_id: payloadId }, 'error', errorMessage);
+
+    return payloadId;
+  }
+
+  /**
+   * Parsea un payload según su content type (JSON o XML) y lo valida contra el esquema de pedidos
+   */
+  checkPayload(rawPayload: string, contentType: string | null): PayloadCheck {
+    let parsed: unknown;
+    try {
+      parsed = contentType?.includes('xml') ? OrderXmlParser.parse(rawPayload) : JSON.parse(rawPayload);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { result: 'invalid', errors: [{ field: '(root)', location: 'json', message }] };
+    }
+
+    const validation = gloriaFoodOrderResponse.parse(parsed);
+    if (!validation.success) {
+      return { result: 'invalid', errors: validation.errors };
+    }
+
+    // Se procesa el payload completo, no solo los campos del esquema
+    return { result: 'valid', payload: parsed as GloriaFoodOrderResponse };
+  }
+
+  /**
+   * Procesa los pedidos obtenidos por polling.
+   * GloriaFood ya los ha entregado, así que se guardan como payload: si alguno
+   * falla, se reintenta desde la cola igual que un webhook.
+   */
+  async processPolledOrders(response: GloriaFoodOrderResponse): Promise<{
+    processed: number;
+    failed: number;
+  }> {
+    // Una respuesta sin `orders` se guarda igualmente: no pasa la validación y queda en dead-letter
+    if (Array.isArray(response.orders) && response.orders.length === 0) {
+      return { processed: 0, failed: 0 };
+    }
+
+    const payloadId = await this.storePayload(JSON.stringify(response), 'application/json');
+    const result = await this.processPayload(payloadId, 1);
+
+    // El primer intento ya está hecho: la cola sigue contando desde el segundo
+    if (result.retry) {
+      await this.env.ORDERS_QUEUE.send({ payloadId, previousAttempts: 1 }, { delaySeconds: ingestionBackoff(1) });
+    }
+
+    return { processed: result.processed, failed: result.failed };
+  }
+
+  /**
+   * Procesa un payload encolado.
+   * Indica si hay que reintentar; en el último intento los pedidos fallidos van a dead-letter.
+   */
+  async processPayload(payloadId: number, attempt: number): Promise<{
+    processed: number;
+    failed: number;
+    retry: boolean;
+  }> {
+    const payload = await this.db.prepare(
+      'SELECT * FROM webhook_payloads WHERE id = ?'
+    ).bind(payloadId).first<WebhookPayload>();
+
+    if (!payload || payload.status === 'processed') {
+      return { processed: 0, failed: 0, retry: false };
+    }
+
+    const isFinalAttempt = attempt >= MAX_INGESTION_ATTEMPTS;
+
+    // Un payload que no se puede parsear no mejora reintentando
+    let parsed: GloriaFoodOrderResponse;
+    try {
+      parsed = this.parsePayload(payload.raw_payload, payload.content_type);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.insertDeadLetter(payloadId, 'payload', null, payload.raw_payload, errorMessage, attempt);
+      await this.updatePayloadStatus(payloadId, 'failed', attempt, errorMessage);
+      await this.logEvent({ payload_id: payloadId }, 'error', errorMessage);
+      return { processed: 0, failed: 1, retry: false };
+    }
+
+    const ordersService = new OrdersService(this.env);
+    const results = [];
+    const failures: { order: GloriaFoodOrder; error: string }[] = [];
+
+    // Cada pedido se procesa por separado: un fallo no bloquea a los siguientes
+    for (const order of parsed.orders) {
+      try {
+        const result = await ordersService.processOrder(order);
+        results.push({
+          gloriafood_id: order.id,
+          internal_id: result.orderId,
+          is_new: result.isNew
+        });
+      } catch (error) {
+        failures.push({ order, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (failures.length === 0) {
+      await this.updatePayloadStatus(payloadId, 'processed', attempt, null);
+      await this.logEvent({ payload_id: payloadId, count: parsed.count, orders: results }, 'success');
+      return { processed: results.length, failed: 0, retry: false };
+    }
+
+    const lastError = failures[failures.length - 1].error;
+
+    if (isFinalAttempt) {
+      for (const failure of failures) {
+        await this.insertDeadLetter(
+          payloadId,
+          'order',
+          failure.order,
+          JSON.stringify(failure.order),
+          failure.error,
+          attempt
+        );
+      }
+      await this.updatePayloadStatus(payloadId, 'failed', attempt, lastError);
+    } else {
+      await this.updatePayloadStatus(payloadId, 'retrying', attempt, lastError);
+    }
+
+    await this.logEvent(
+      { payload_id: payloadId, attempt, orders: results, failed: failures.map(f => f.order.id) },
+      'error',
+      lastError
+    );
+
+    return { processed: results.length, failed: failures.length, retry: !isFinalAttempt };
+  }
+
+  /**
+   * Manda a dead-letter un payload cuyo último intento ha fallado con una excepción
+   * (por ejemplo, un error de D1), para que no se pierda al agotar los reintentos de la cola
+   */
+  async failPayload(payloadId: number, attempt: number, errorMessage: string): Promise<void> {
+    const payload = await this.db.prepare(
+      'SELECT * FROM webhook_payloads WHERE id = ?'
+    ).bind(payloadId).first<WebhookPayload>();
+
+    // processPayload ya lo ha resuelto (o mandado a dead-letter) antes de fallar
+    if (!payload || payload.status === 'processed' || payload.status === 'failed') {
+      return;
+    }
+
+    await this.insertDeadLetter(payloadId, 'payload', null, payload.raw_payload, errorMessage, attempt);
+    await this.updatePayloadStatus(payloadId, 'failed', attempt, errorMessage);
+    await this.logEvent({ payload_id: payloadId, attempt }, 'error', errorMessage);
+  }
+
+  /**
+   * Obtiene los pedidos en dead-letter con paginación
+   */
+  async getDeadLetters(page: number = 1, limit: number = 20, filters?: {
+    status?: string;
+    restaurantId?: number;
+  }): Promise<{ deadLetters: DeadLetterOrder[]; total: number }> {
+    let whereClause = '1=1';
+    const params: (string | number)[] = [];
+
+    if (filters?.status) {
+      whereClause += ' AND status = ?';
+      params.push(filters.status);
+    }
+    if (filters?.restaurantId) {
+      whereClause += ' AND restaurant_id = ?';
+      params.push(filters.restaurantId);
+    }
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM dead_letter_orders WHERE ${whereClause}`
+    ).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const deadLetters = await this.db.prepare(
+      `SELECT * FROM dead_letter_orders WHERE ${whereClause} ORDER BY created_at DESC LIMIT ? OFFSET ?`
+    ).bind(...params, limit, offset).all<DeadLetterOrder>();
+
+    return { deadLetters: deadLetters.results, total: countResult?.total || 0 };
+  }
+
+  /**
+   * Obtiene un pedido en dead-letter
+   */
+  async getDeadLetter(id: number): Promise<DeadLetterOrder | null> {
+    return this.db.prepare('SELECT * FROM dead_letter_orders WHERE id = ?')
+      .bind(id).first<DeadLetterOrder>();
+  }
+
+  /**
+   * Reintenta un pedido en dead-letter.
+   * Los pedidos se procesan en el momento; los payloads no parseables se vuelven a encolar.
+   */
+  async replayDeadLetter(deadLetter: DeadLetterOrder): Promise<{
+    replayed: boolean;
+    error?: string;
+    result?: { orderId: number; isNew: boolean } | { payloadId: number };
+  }> {
+    try {
+      let result: { orderId: number; isNew: boolean } | { payloadId: number };
+
+      if (deadLetter.kind === 'payload') {
+        const payload = await this.db.prepare(
+          'SELECT content_type FROM webhook_payloads WHERE id = ?'
+        ).bind(deadLetter.payload_id).first<{ content_type: string | null }>();
+
+        // Valida que ahora se pueda parsear antes de volver a encolar
+        this.parsePayload(deadLetter.payload, payload?.content_type || null);
+        result = { payloadId: await this.enqueuePayload(deadLetter.payload, payload?.content_type || null) };
+      } else {
+        const ordersService = new OrdersService(this.env);
+        result = await ordersService.processOrder(JSON.parse(deadLetter.payload) as GloriaFoodOrder);
+      }
+
+      await this.db.prepare(`
+        UPDATE dead_letter_orders SET status = 'replayed', replayed_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).bind(deadLetter.id).run();
+
+      return { replayed: true, result };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      await this.db.prepare(`
+        UPDATE dead_letter_orders SET attempts = attempts + 1, error_message = ? WHERE id = ?
+      `).bind(errorMessage, deadLetter.id).run();
+
+      return { replayed: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Guarda un payload crudo pendiente de procesar
+   */
+  private async storePayload(rawPayload: string, contentType: string | null): Promise<number> {
+    const result = await this.db.prepare(
+      'INSERT INTO webhook_payloads (content_type, raw_payload) VALUES (?, ?)'
+    ).bind(contentType, rawPayload).run();
+
+    return result.meta.last_row_id as number;
+  }
+
+  /**
+   * Parsea y valida un payload; lanza un error con los campos no válidos
+   */
+  private parsePayload(rawPayload: string, contentType: string | null): GloriaFoodOrderResponse {
+    const check = this.checkPayload(rawPayload, contentType);
+
+    if (check.result === 'invalid') {
+      throw new Error(this.describeErrors(check.errors));
+    }
+
+    return check.payload;
+  }
+
+  private describeErrors(errors: FieldError[]): string {
+    const listed = errors.slice(0, MAX_LOGGED_ERRORS).map(error => `${error.field} ${error.message}`);
+    if (errors.length > MAX_LOGGED_ERRORS) listed.push(`${errors.length - MAX_LOGGED_ERRORS} more`);
+
+    return `Invalid payload: ${listed.join('; ')}`;
+  }
+
+  /**
+   * Guarda un pedido (o payload) en dead-letter
+   */
+  private async insertDeadLetter(
+    payloadId: number,
+    kind: DeadLetterOrder['kind'],
+    order: GloriaFoodOrder | null,
+    payload: string,
+    errorMessage: string,
+    attempts: number
+  ): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO dead_letter_orders (
+        payload_id, restaurant_id, gloriafood_id, kind, payload, error_message, attempts
+      ) VALUES (?, (SELECT id FROM restaurants WHERE restaurant_key = ?), ?, ?, ?, ?, ?)
+    `).bind(
+      payloadId,
+      order?.restaurant_key || null,
+      order?.id || null,
+      kind,
+      payload,
+      errorMessage,
+      attempts
+    ).run();
+  }
+
+  /**
+   * Actualiza el estado de procesamiento de un payload
+   */
+  private async updatePayloadStatus(
+    payloadId: number,
+    status: WebhookPayload['status'],
+    attempts: number,
+    lastError: string | null
+  ): Promise<void> {
+    await this.db.prepare(`
+      UPDATE webhook_payloads SET
+        status = ?,
+        attempts = ?,
+        last_error = ?,
+        processed_at = CASE WHEN ? = 'processed' THEN CURRENT_TIMESTAMP ELSE processed_at END
+      WHERE id = ?
+    `).bind(status, attempts, lastError, status, payloadId).run();
+  }
+
+  /**
+   * Registra el resultado de la ingesta en el log
+   */
+  private async logEvent(payload: any, status: string, errorMessage?: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO webhook_logs (event_type, payload, status, error_message)
+      VALUES (?, ?, ?, ?)
+    `).bind('order_received', JSON.stringify(payload), status, errorMessage || null).run();
+  }
+}
@@ -2,62 +2,138 @@ import type {
   Env,
   GloriaFoodMenuResponse,
   MenuCategory,
+  MenuChange,
+  MenuChangeCounts,
+  MenuChangeEntity,
+  MenuChangeType,
   MenuItem,
   MenuItemSize,
-  MenuOptionGroup
+  MenuOptionGroup,
+  MenuSyncStats
 } from '../types';
 import { GloriaFoodClient } from './gloriafood-client';
+import { RestaurantsService } from './restaurants';
+import { WebhooksService } from './webhooks';
 
 /**
- * Servicio para gestión y sincronización del menú
+ * Fila ya guardada de una categoría, item, tamaño u opción
+ */
+interface SyncedRow {
+  id: number;
+  gloriafood_id: number;
+  name: string;
+  label: string;
+  price: number | null;
+  deleted_at: string | null;
+}
+
+/**
+ * Nivel al que GloriaFood asigna un grupo de opciones (exactamente uno por relación)
+ */
+interface GroupAttachment {
+  categoryId?: number;
+  itemId?: number;
+  sizeId?: number;
+}
+
+/**
+ * Estado de una sincronización en curso
+ */
+interface SyncState {
+  menuId: number;
+  stats: MenuSyncStats;
+  // Filas existentes indexadas por gloriafood_id
+  categories: Map<number, SyncedRow>;
+  items: Map<number, SyncedRow>;
+  sizes: Map<number, SyncedRow>;
+  optionGroups: Map<number, SyncedRow>;
+  // Filas vistas en esta sincronización ('item:12', 'size:4'...)
+  seen: Set<string>;
+  // Grupos de opciones ya sincronizados (gloriafood_id -> id interno)
+  groups: Map<number, number>;
+  // Relaciones de los grupos con categorías, items y tamaños (se guardan al final)
+  links: D1PreparedStatement[];
+  changes: D1PreparedStatement[];
+}
+
+function emptyChangeCounts(): MenuChangeCounts {
+  const counts = () => ({ added: 0, removed: 0, renamed: 0, repriced: 0 });
+  return { item: counts(), size: counts(), option: counts() };
+}
+
+function indexByGloriaFoodId(rows: SyncedRow[]): Map<number, SyncedRow> {
+  const index = new Map<number, SyncedRow>();
+  for (const row of rows) {
+    if (row.gloriafood_id !== null) index.set(row.gloriafood_id, row);
+  }
+  return index;
+}
+
+/**
+ * Servicio para gestión y sincronización del menú de un restaurante
  */
 export class MenuService {
+  private env: Env;
   private db: D1Database;
   private cache: KVNamespace;
-  private gloriaFood: GloriaFoodClient;
+  private restaurantId: number;
 
-  constructor(env: Env) {
+  constructor(env: Env, restaurantId: number) {
+    this.env = env;
     this.db = env.DB;
     this.cache = env.CACHE;
-    this.gloriaFood = new GloriaFoodClient(env);
+    this.restaurantId = restaurantId;
   }
 
   /**
-   * Sincroniza el menú completo desde GloriaFood
+   * Sincroniza el menú completo desde GloriaFood.
+   *
+   * Las filas se actualizan por gloriafood_id, así que los IDs internos se
+   * mantienen entre sincronizaciones; lo que desaparece de GloriaFood se marca
+   * con deleted_at. Los cambios de items, tamaños y opciones quedan en menu_changes.
    */
-  async syncMenu(): Promise<{ success: boolean; message: string; stats: any }> {
+  async syncMenu(): Promise<{ success: boolean; message: string; stats: MenuSyncStats }> {
     try {
-      const menuData = await this.gloriaFood.fetchMenu();
+      const secretKey = await new RestaurantsService(this.env).getSecretKey(this.restaurantId);
+      if (!secretKey) {
+        throw new Error('Restaurant has no GloriaFood secret key configured');
+      }
+
+      const gloriaFood = new GloriaFoodClient(this.env, secretKey);
+      const menuData = await gloriaFood.fetchMenu();
 
       // Obtener o crear el menú
       const menuId = await this.getOrCreateMenu(menuData);
-
-      let stats = {
-        categories: 0,
-        items: 0,
-        sizes: 0,
-        optionGroups: 0,
-        options: 0
-      };
-
-      // Limpiar datos existentes del menú
-      await this.clearMenuData(menuId);
+      const state = await this.loadSyncState(menuId);
 
       // Procesar categorías
+      let sortOrder = 0;
       for (const category of menuData.categories) {
-        await this.processCategory(menuId, category, stats);
+        await this.processCategory(state, category, sortOrder++);
       }
 
+      // Las relaciones con grupos de opciones se reconstruyen en cada sincronización
+      await this.saveOptionGroupLinks(state);
+
+      // Marcar como borrado lo que ya no viene de GloriaFood y guardar el historial
+      await this.removeMissing(state);
+      await this.saveChanges(state);
+
       // Actualizar timestamp de sincronización
       await this.db.prepare(
         'UPDATE menus SET synced_at = CURRENT_TIMESTAMP WHERE id = ?'
       ).bind(menuId).run();
 
-      // Guardar menú en caché (1 hora)
-      await this.cache.put('menu:full', JSON.stringify(menuData), { expirationTtl: 3600 });
+      // Invalidar la caché: getFullMenu la reconstruye desde D1 con los IDs internos
+      await this.cache.delete(this.cacheKey());
 
-      // Registrar evento
+      // Registrar evento y avisar a los webhooks salientes
+      const stats = state.stats;
       await this.logEvent('menu_sync', { stats }, 'success');
+      await new WebhooksService(this.env).dispatch(this.restaurantId, 'menu.synced', {
+        menu_id: menuId,
+        stats
+      });
 
       return {
         success: true,
@@ -81,8 +157,8 @@ export class MenuService {
 
     if (existing) {
       await this.db.prepare(
-        'UPDATE menus SET currency = ?, active = ? WHERE id = ?'
-      ).bind(menuData.currency, menuData.active ? 1 : 0, existing.id).run();
+        'UPDATE menus SET restaurant_id = ?, currency = ?, active = ? WHERE id = ?'
+      ).bind(this.restaurantId, menuData.currency, menuData.active ? 1 : 0, existing.id).run();
       return existing.id;
     }
 
@@ -91,7 +167,7 @@ export class MenuService {
       VALUES (?, ?, ?, ?)
     `).bind(
       menuData.id,
-      menuData.restaurant_id,
+      this.restaurantId,
       menuData.currency,
       menuData.active ? 1 : 0
     ).run();
@@ -100,78 +176,122 @@ export class MenuService {
   }
 
   /**
-   * Limpia los datos existentes del menú
+   * Carga las categorías, items, tamaños y grupos ya guardados del menú (incluidos los borrados)
    */
-  private async clearMenuData(menuId: number): Promise<void> {
-    // Obtener IDs de categorías
-    const categories = await this.db.prepare(
-      'SELECT id FROM menu_categories WHERE menu_id = ?'
-    ).bind(menuId).all<{ id: number }>();
-
-    for (const cat of categories.results) {
-      // Obtener IDs de items
-      const items = await this.db.prepare(
-        'SELECT id FROM menu_items WHERE category_id = ?'
-      ).bind(cat.id).all<{ id: number }>();
-
-      for (const item of items.results) {
-        // Eliminar tamaños y sus relaciones
-        await this.db.prepare(
-          'DELETE FROM menu_item_sizes WHERE item_id = ?'
-        ).bind(item.id).run();
-
-        // Eliminar relaciones item-optiongroup
-        await this.db.prepare(
-          'DELETE FROM menu_item_option_groups WHERE item_id = ?'
-        ).bind(item.id).run();
-      }
-
-      // Eliminar items
-      await this.db.prepare(
-        'DELETE FROM menu_items WHERE category_id = ?'
-      ).bind(cat.id).run();
-    }
+  private async loadSyncState(menuId: number): Promise<SyncState> {
+    const [categories, items, sizes, optionGroups] = await Promise.all([
+      this.db.prepare(`
+        SELECT id, gloriafood_id, name, name as label, NULL as price, deleted_at
+        FROM menu_categories WHERE menu_id = ?
+      `).bind(menuId).all<SyncedRow>(),
+      this.db.prepare(`
+        SELECT mi.id, mi.gloriafood_id, mi.name, mi.name as label, mi.price, mi.deleted_at
+        FROM menu_items mi
+        INNER JOIN menu_categories mc ON mi.category_id = mc.id
+        WHERE mc.menu_id = ?
+      `).bind(menuId).all<SyncedRow>(),
+      this.db.prepare(`
+        SELECT s.id, s.gloriafood_id, s.name, mi.name || ' - ' || s.name as label, s.price, s.deleted_at
+        FROM menu_item_sizes s
+        INNER JOIN menu_items mi ON s.item_id = mi.id
+        INNER JOIN menu_categories mc ON mi.category_id = mc.id
+        WHERE mc.menu_id = ?
+      `).bind(menuId).all<SyncedRow>(),
+      this.db.prepare(`
+        SELECT id, gloriafood_id, name, name as label, NULL as price, deleted_at
+        FROM menu_option_groups WHERE menu_id = ?
+      `).bind(menuId).all<SyncedRow>()
+    ]);
+
+    return {
+      menuId,
+      stats: {
+        syncId: crypto.randomUUID(),
+        categories: 0,
+        items: 0,
+        sizes: 0,
+        optionGroups: 0,
+        options: 0,
+        changes: emptyChangeCounts()
+      },
+      categories: indexByGloriaFoodId(categories.results),
+      items: indexByGloriaFoodId(items.results),
+      sizes: indexByGloriaFoodId(sizes.results),
+      optionGroups: indexByGloriaFoodId(optionGroups.results),
+      seen: new Set(),
+      groups: new Map(),
+      links: [],
+      changes: []
+    };
+  }
 
-    // Eliminar categorías
-    await this.db.prepare(
-      'DELETE FROM menu_categories WHERE menu_id = ?'
-    ).bind(menuId).run();
+  /**
+   * Sustituye las relaciones de los grupos de opciones del menú con categorías, items
+   * y tamaños por las de esta sincronización, en un solo batch: si falla, el menú
+   * se queda con las relaciones anteriores
+   */
+  private async saveOptionGroupLinks(state: SyncState): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`
+        DELETE FROM menu_item_option_groups
+        WHERE option_group_id IN (SELECT id FROM menu_option_groups WHERE menu_id = ?)
+      `).bind(state.menuId),
+      ...state.links
+    ]);
   }
 
   /**
    * Procesa una categoría del menú
    */
   private async processCategory(
-    menuId: number,
+    state: SyncState,
     category: MenuCategory,
-    stats: any,
     sortOrder: number = 0
   ): Promise<void> {
-    const result = await this.db.prepare(`
-      INSERT INTO menu_categories (menu_id, gloriafood_id, name, description, active, sort_order)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(
-      menuId,
-      category.id,
-      category.name,
-      category.description || null,
-      category.active ? 1 : 0,
-      sortOrder
-    ).run();
+    const existing = state.categories.get(category.id);
+    let categoryId: number;
+
+    if (existing) {
+      categoryId = existing.id;
+      await this.db.prepare(`
+        UPDATE menu_categories SET
+          name = ?, description = ?, active = ?, sort_order = ?, deleted_at = NULL
+        WHERE id = ?
+      `).bind(
+        category.name,
+        category.description || null,
+        category.active ? 1 : 0,
+        sortOrder,
+        categoryId
+      ).run();
+    } else {
+      const result = await this.db.prepare(`
+        INSERT INTO menu_categories (menu_id, gloriafood_id, name, description, active, sort_order)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(
+        state.menuId,
+        category.id,
+        category.name,
+        category.description || null,
+        category.active ? 1 : 0,
+        sortOrder
+      ).run();
+      categoryId = result.meta.last_row_id as number;
+    }
 
-    const categoryId = result.meta.last_row_id as number;
-    stats.categories++;
+    state.seen.add(`category:${categoryId}`);
+    state.stats.categories++;
 
     // Procesar items de la categoría
     let itemSortOrder = 0;
     for (const item of category.items) {
-      await this.processItem(categoryId, item, stats, itemSortOrder++);
+      await this.processItem(state, categoryId, item, itemSortOrder++);
     }
 
     // Procesar grupos de opciones a nivel de categoría
     if (category.groups) {
       for (const group of category.groups) {
-        await this.processOptionGroup(group, stats, null, null);
+        await this.processOptionGroup(state, group, { categoryId });
       }
     }
   }
@@ -180,21 +300,14 @@ export class MenuService {
    * Procesa un item del menú
    */
   private async processItem(
+    state: SyncState,
     categoryId: number,
     item: MenuItem,
-    stats: any,
     sortOrder: number = 0
   ): Promise<void> {
     const extras = item.extras || {};
-
-    const result = await this.db.prepare(`
-      INSERT INTO menu_items (
-        category_id, gloriafood_id, name, description, price, active,
-        sort_order, kitchen_internal_name, order_types, tags, allergens, nutritional_values
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
+    const values = [
       categoryId,
-      item.id,
       item.name,
       item.description || null,
       item.price,
@@ -205,23 +318,46 @@ export class MenuService {
       item.tags ? JSON.stringify(item.tags) : null,
       extras.menu_item_allergens_values ? JSON.stringify(extras.menu_item_allergens_values) : null,
       extras.menu_item_nutritional_values ? JSON.stringify(extras.menu_item_nutritional_values) : null
-    ).run();
+    ];
+
+    const existing = state.items.get(item.id);
+    let itemId: number;
+
+    if (existing) {
+      itemId = existing.id;
+      await this.db.prepare(`
+        UPDATE menu_items SET
+          category_id = ?, name = ?, description = ?, price = ?, active = ?,
+          sort_order = ?, kitchen_internal_name = ?, order_types = ?, tags = ?, allergens = ?,
+          nutritional_values = ?, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).bind(...values, itemId).run();
+    } else {
+      const result = await this.db.prepare(`
+        INSERT INTO menu_items (
+          category_id, name, description, price, active, sort_order,
+          kitchen_internal_name, order_types, tags, allergens, nutritional_values, gloriafood_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(...values, item.id).run();
+      itemId = result.meta.last_row_id as number;
+    }
 
-    const itemId = result.meta.last_row_id as number;
-    stats.items++;
+    state.seen.add(`item:${itemId}`);
+    state.stats.items++;
+    this.recordDiff(state, 'item', itemId, item.id, item.name, existing, item.name, item.price);
 
     // Procesar tamaños
     if (item.sizes) {
       let sizeSortOrder = 0;
       for (const size of item.sizes) {
-        await this.processSize(itemId, size, stats, sizeSortOrder++);
+        await this.processSize(state, itemId, item.name, size, sizeSortOrder++);
       }
     }
 
     // Procesar grupos de opciones del item
     if (item.groups) {
       for (const group of item.groups) {
-        await this.processOptionGroup(group, stats, itemId, null);
+        await this.processOptionGroup(state, group, { itemId });
       }
     }
   }
@@ -230,93 +366,138 @@ export class MenuService {
    * Procesa un tamaño de item
    */
   private async processSize(
+    state: SyncState,
     itemId: number,
+    itemName: string,
     size: MenuItemSize,
-    stats: any,
     sortOrder: number = 0
   ): Promise<void> {
-    const result = await this.db.prepare(`
-      INSERT INTO menu_item_sizes (item_id, gloriafood_id, name, price, is_default, sort_order)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(
-      itemId,
-      size.id,
-      size.name,
-      size.price,
-      size.default ? 1 : 0,
-      sortOrder
-    ).run();
+    const existing = state.sizes.get(size.id);
+    let sizeId: number;
 
-    const sizeId = result.meta.last_row_id as number;
-    stats.sizes++;
+    if (existing) {
+      sizeId = existing.id;
+      await this.db.prepare(`
+        UPDATE menu_item_sizes SET
+          item_id = ?, name = ?, price = ?, is_default = ?, sort_order = ?, deleted_at = NULL
+        WHERE id = ?
+      `).bind(itemId, size.name, size.price, size.default ? 1 : 0, sortOrder, sizeId).run();
+    } else {
+      const result = await this.db.prepare(`
+        INSERT INTO menu_item_sizes (item_id, gloriafood_id, name, price, is_default, sort_order)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(
+        itemId,
+        size.id,
+        size.name,
+        size.price,
+        size.default ? 1 : 0,
+        sortOrder
+      ).run();
+      sizeId = result.meta.last_row_id as number;
+    }
+
+    state.seen.add(`size:${sizeId}`);
+    state.stats.sizes++;
+    this.recordDiff(state, 'size', sizeId, size.id, `${itemName} - ${size.name}`, existing, size.name, size.price);
 
     // Procesar grupos de opciones del tamaño
     if (size.groups) {
       for (const group of size.groups) {
-        await this.processOptionGroup(group, stats, null, sizeId);
+        await this.processOptionGroup(state, group, { sizeId });
       }
     }
   }
 
   /**
-   * Procesa un grupo de opciones
+   * Procesa un grupo de opciones y lo asigna a su categoría, item o tamaño
    */
   private async processOptionGroup(
+    state: SyncState,
     group: MenuOptionGroup,
-    stats: any,
-    itemId: number | null,
-    sizeId: number | null
+    attachment: GroupAttachment
   ): Promise<void> {
-    // Verificar si el grupo ya existe
-    let groupId: number;
-    const existing = await this.db.prepare(
-      'SELECT id FROM menu_option_groups WHERE gloriafood_id = ?'
-    ).bind(group.id).first<{ id: number }>();
+    // Un mismo grupo puede aparecer en varios items: se sincroniza una vez por menú
+    let groupId = state.groups.get(group.id);
 
-    if (existing) {
-      groupId = existing.id;
-      // Actualizar grupo existente
-      await this.db.prepare(`
-        UPDATE menu_option_groups SET
-          name = ?, required = ?, allow_quantity = ?, force_min = ?, force_max = ?
-        WHERE id = ?
-      `).bind(
-        group.name,
-        group.required ? 1 : 0,
-        group.allow_quantity ? 1 : 0,
-        group.force_min,
-        group.force_max,
-        groupId
-      ).run();
-    } else {
-      const result = await this.db.prepare(`
-        INSERT INTO menu_option_groups (gloriafood_id, name, required, allow_quantity, force_min, force_max)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).bind(
-        group.id,
-        group.name,
-        group.required ? 1 : 0,
-        group.allow_quantity ? 1 : 0,
-        group.force_min,
-        group.force_max
-      ).run();
-      groupId = result.meta.last_row_id as number;
-      stats.optionGroups++;
-    }
+    if (groupId === undefined) {
+      const existing = state.optionGroups.get(group.id);
 
-    // Crear relación con item o size
-    if (itemId || sizeId) {
-      await this.db.prepare(`
-        INSERT OR IGNORE INTO menu_item_option_groups (item_id, size_id, option_group_id)
-        VALUES (?, ?, ?)
-      `).bind(itemId, sizeId, groupId).run();
+      if (existing) {
+        groupId = existing.id;
+        await this.db.prepare(`
+          UPDATE menu_option_groups SET
+            name = ?, required = ?, allow_quantity = ?, force_min = ?, force_max = ?, deleted_at = NULL
+          WHERE id = ?
+        `).bind(
+          group.name,
+          group.required ? 1 : 0,
+          group.allow_quantity ? 1 : 0,
+          group.force_min,
+          group.force_max,
+          groupId
+        ).run();
+      } else {
+        const result = await this.db.prepare(`
+          INSERT INTO menu_option_groups (menu_id, gloriafood_id, name, required, allow_quantity, force_min, force_max)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          state.menuId,
+          group.id,
+          group.name,
+          group.required ? 1 : 0,
+          group.allow_quantity ? 1 : 0,
+          group.force_min,
+          group.force_max
+        ).run();
+        groupId = result.meta.last_row_id as number;
+      }
+
+      state.groups.set(group.id, groupId);
+      state.seen.add(`group:${groupId}`);
+      state.stats.optionGroups++;
+      await this.processOptions(state, groupId, group);
     }
 
-    // Procesar opciones del grupo (solo si es nuevo)
-    if (!existing) {
-      let optionSortOrder = 0;
-      for (const option of group.options) {
+    // Relación con la categoría, el item o el tamaño (ver saveOptionGroupLinks)
+    state.links.push(this.db.prepare(`
+      INSERT INTO menu_item_option_groups (category_id, item_id, size_id, option_group_id)
+      VALUES (?, ?, ?, ?)
+    `).bind(
+      attachment.categoryId ?? null,
+      attachment.itemId ?? null,
+      attachment.sizeId ?? null,
+      groupId
+    ));
+  }
+
+  /**
+   * Sincroniza las opciones de un grupo y marca como borradas las que ya no existen
+   */
+  private async processOptions(state: SyncState, groupId: number, group: MenuOptionGroup): Promise<void> {
+    const stored = await this.db.prepare(`
+      SELECT id, gloriafood_id, name, ? || ' - ' || name as label, price, deleted_at
+      FROM menu_options WHERE option_group_id = ?
+    `).bind(group.name, groupId).all<SyncedRow>();
+
+    const existingOptions = indexByGloriaFoodId(stored.results);
+    const seen = new Set<number>();
+    let optionSortOrder = 0;
+
+    for (const option of group.options) {
+      const existing = existingOptions.get(option.id);
+      const kitchenName = option.extras?.menu_option_kitchen_internal_name || null;
+      let optionId: number;
+
+      if (existing) {
+        optionId = existing.id;
         await this.db.prepare(`
+          UPDATE menu_options SET
+            name = ?, price = ?, is_default = ?, kitchen_internal_name = ?, sort_order = ?, deleted_at = NULL
+          WHERE id = ?
+        `).bind(option.name, option.price, option.default ? 1 : 0, kitchenName, optionSortOrder++, optionId).run();
+      } else {
+        const result = await this.db.prepare(`
           INSERT INTO menu_options (
             option_group_id, gloriafood_id, name, price, is_default, kitchen_internal_name, sort_order
           ) VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -326,39 +507,178 @@ export class MenuService {
           option.name,
           option.price,
           option.default ? 1 : 0,
-          option.extras?.menu_option_kitchen_internal_name || null,
+          kitchenName,
           optionSortOrder++
         ).run();
-        stats.options++;
+        optionId = result.meta.last_row_id as number;
+      }
+
+      seen.add(optionId);
+      state.stats.options++;
+      this.recordDiff(state, 'option', optionId, option.id, `${group.name} - ${option.name}`, existing, option.name, option.price);
+    }
+
+    const removed = stored.results.filter(row => !seen.has(row.id) && !row.deleted_at);
+    if (removed.length > 0) {
+      await this.db.batch(removed.map(row => this.db.prepare(
+        'UPDATE menu_options SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?'
+      ).bind(row.id)));
+
+      for (const row of removed) {
+        this.recordChange(state, 'option', row, row.label, 'removed', String(row.price), null);
       }
     }
   }
 
+  /**
+   * Marca como borradas las categorías, items, tamaños y grupos de opciones que no
+   * vinieron en la sincronización. Las opciones de un grupo huérfano también se borran.
+   */
+  private async removeMissing(state: SyncState): Promise<void> {
+    const statements: D1PreparedStatement[] = [];
+    const tables: [Map<number, SyncedRow>, string, string, MenuChangeEntity | null][] = [
+      [state.categories, 'menu_categories', 'category', null],
+      [state.items, 'menu_items', 'item', 'item'],
+      [state.sizes, 'menu_item_sizes', 'size', 'size'],
+      [state.optionGroups, 'menu_option_groups', 'group', null]
+    ];
+    const orphanedGroups: number[] = [];
+
+    for (const [rows, table, prefix, entity] of tables) {
+      for (const row of rows.values()) {
+        if (row.deleted_at || state.seen.has(`${prefix}:${row.id}`)) continue;
+
+        statements.push(this.db.prepare(
+          `UPDATE ${table} SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?`
+        ).bind(row.id));
+
+        if (entity) {
+          this.recordChange(state, entity, row, row.label, 'removed', String(row.price), null);
+        }
+        if (prefix === 'group') {
+          orphanedGroups.push(row.id);
+        }
+      }
+    }
+
+    if (orphanedGroups.length > 0) {
+      const options = await this.db.prepare(`
+        SELECT o.id, o.gloriafood_id, o.name, og.name || ' - ' || o.name as label, o.price, o.deleted_at
+        FROM menu_options o
+        INNER JOIN menu_option_groups og ON o.option_group_id = og.id
+        WHERE o.option_group_id IN (${orphanedGroups.map(() => '?').join(', ')}) AND o.deleted_at IS NULL
+      `).bind(...orphanedGroups).all<SyncedRow>();
+
+      for (const row of options.results) {
+        statements.push(this.db.prepare(
+          'UPDATE menu_options SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?'
+        ).bind(row.id));
+        this.recordChange(state, 'option', row, row.label, 'removed', String(row.price), null);
+      }
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+  }
+
+  /**
+   * Compara una fila guardada con los datos nuevos y registra los cambios
+   */
+  private recordDiff(
+    state: SyncState,
+    entity: MenuChangeEntity,
+    id: number,
+    gloriafoodId: number,
+    label: string,
+    existing: SyncedRow | undefined,
+    name: string,
+    price: number
+  ): void {
+    const row = { id, gloriafood_id: gloriafoodId };
+
+    // Nuevo, o reaparece tras haber sido borrado
+    if (!existing || existing.deleted_at) {
+      this.recordChange(state, entity, row, label, 'added', null, String(price));
+      return;
+    }
+
+    if (existing.name !== name) {
+      this.recordChange(state, entity, row, label, 'renamed', existing.name, name);
+    }
+    if (Number(existing.price) !== Number(price)) {
+      this.recordChange(state, entity, row, label, 'repriced', String(existing.price), String(price));
+    }
+  }
+
+  /**
+   * Añade un cambio al historial pendiente de guardar
+   */
+  private recordChange(
+    state: SyncState,
+    entity: MenuChangeEntity,
+    row: Pick<SyncedRow, 'id' | 'gloriafood_id'>,
+    label: string,
+    changeType: MenuChangeType,
+    oldValue: string | null,
+    newValue: string | null
+  ): void {
+    state.changes.push(this.db.prepare(`
+      INSERT INTO menu_changes (
+        restaurant_id, menu_id, sync_id, entity_type, entity_id, gloriafood_id,
+        name, change_type, old_value, new_value
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      this.restaurantId,
+      state.menuId,
+      state.stats.syncId,
+      entity,
+      row.id,
+      row.gloriafood_id,
+      label,
+      changeType,
+      oldValue,
+      newValue
+    ));
+    state.stats.changes[entity][changeType]++;
+  }
+
+  /**
+   * Guarda el historial de cambios de la sincronización
+   */
+  private async saveChanges(state: SyncState): Promise<void> {
+    if (state.changes.length > 0) {
+      await this.db.batch(state.changes);
+    }
+  }
+
   /**
    * Obtiene el menú completo
    */
   async getFullMenu(): Promise<any> {
     // Intentar obtener de caché
-    const cached = await this.cache.get('menu:full');
+    const cached = await this.cache.get(this.cacheKey());
     if (cached) {
       return JSON.parse(cached);
     }
 
     // Construir menú desde la base de datos
-    const menu = await this.db.prepare('SELECT * FROM menus LIMIT 1').first();
+    const menu = await this.db.prepare(
+      'SELECT * FROM menus WHERE restaurant_id = ? LIMIT 1'
+    ).bind(this.restaurantId).first();
     if (!menu) {
       return null;
     }
 
     const categories = await this.db.prepare(`
-      SELECT * FROM menu_categories WHERE menu_id = ? ORDER BY sort_order
+      SELECT * FROM menu_categories WHERE menu_id = ? AND deleted_at IS NULL ORDER BY sort_order
     `).bind(menu.id).all();
 
     const fullMenu = {
       ...menu,
       categories: await Promise.all(categories.results.map(async (cat) => {
         const items = await this.db.prepare(`
-          SELECT * FROM menu_items WHERE category_id = ? ORDER BY sort_order
+          SELECT * FROM menu_items WHERE category_id = ? AND deleted_at IS NULL ORDER BY sort_order
         `).bind(cat.id).all();
 
         return {
@@ -366,7 +686,7 @@ export class MenuService {
           items: await Promise.all(items.results.map(async (item) => {
             // Obtener tamaños
             const sizes = await this.db.prepare(`
-              SELECT * FROM menu_item_sizes WHERE item_id = ? ORDER BY sort_order
+              SELECT * FROM menu_item_sizes WHERE item_id = ? AND deleted_at IS NULL ORDER BY sort_order
             `).bind(item.id).all();
 
             // Obtener grupos de opciones del item
@@ -387,24 +707,38 @@ export class MenuService {
     };
 
     // Guardar en caché
-    await this.cache.put('menu:full', JSON.stringify(fullMenu), { expirationTtl: 3600 });
+    await this.cache.put(this.cacheKey(), JSON.stringify(fullMenu), { expirationTtl: 3600 });
 
     return fullMenu;
   }
 
   /**
-   * Obtiene grupos de opciones para un item
+   * Obtiene los grupos de opciones que aplican a un item: los de su categoría,
+   * los del propio item y los de cada uno de sus tamaños (attached_to y size_id
+   * indican el nivel)
    */
   private async getOptionGroupsForItem(itemId: number): Promise<any[]> {
     const relations = await this.db.prepare(`
-      SELECT og.* FROM menu_option_groups og
-      INNER JOIN menu_item_option_groups miog ON og.id = miog.option_group_id
-      WHERE miog.item_id = ?
+      SELECT og.*, miog.size_id,
+        CASE
+          WHEN miog.category_id IS NOT NULL THEN 'category'
+          WHEN miog.item_id IS NOT NULL THEN 'item'
+          ELSE 'size'
+        END as attached_to
+      FROM menu_items mi
+      INNER JOIN menu_item_option_groups miog ON miog.category_id = mi.category_id
+        OR miog.item_id = mi.id
+        OR miog.size_id IN (
+          SELECT id FROM menu_item_sizes WHERE item_id = mi.id AND deleted_at IS NULL
+        )
+      INNER JOIN menu_option_groups og ON og.id = miog.option_group_id
+      WHERE mi.id = ? AND og.deleted_at IS NULL
+      ORDER BY miog.category_id IS NULL, miog.size_id IS NOT NULL, miog.id
     `).bind(itemId).all();
 
     return Promise.all(relations.results.map(async (group) => {
       const options = await this.db.prepare(`
-        SELECT * FROM menu_options WHERE option_group_id = ? ORDER BY sort_order
+        SELECT * FROM menu_options WHERE option_group_id = ? AND deleted_at IS NULL ORDER BY sort_order
       `).bind(group.id).all();
 
       return {
@@ -421,10 +755,12 @@ export class MenuService {
     const categories = await this.db.prepare(`
       SELECT mc.*, COUNT(mi.id) as item_count
       FROM menu_categories mc
-      LEFT JOIN menu_items mi ON mc.id = mi.category_id
+      INNER JOIN menus m ON mc.menu_id = m.id
+      LEFT JOIN menu_items mi ON mc.id = mi.category_id AND mi.deleted_at IS NULL
+      WHERE m.restaurant_id = ? AND mc.deleted_at IS NULL
       GROUP BY mc.id
       ORDER BY mc.sort_order
-    `).all();
+    `).bind(this.restaurantId).all();
 
     return categories.results;
   }
@@ -434,8 +770,12 @@ export class MenuService {
    */
   async getItemsByCategory(categoryId: number): Promise<any[]> {
     const items = await this.db.prepare(`
-      SELECT * FROM menu_items WHERE category_id = ? AND active = 1 ORDER BY sort_order
-    `).bind(categoryId).all();
+      SELECT mi.* FROM menu_items mi
+      INNER JOIN menu_categories mc ON mi.category_id = mc.id
+      INNER JOIN menus m ON mc.menu_id = m.id
+      WHERE mi.category_id = ? AND mi.active = 1 AND mi.deleted_at IS NULL AND m.restaurant_id = ?
+      ORDER BY mi.sort_order
+    `).bind(categoryId, this.restaurantId).all();
 
     return items.results;
   }
@@ -448,14 +788,54 @@ export class MenuService {
       SELECT mi.*, mc.name as category_name
       FROM menu_items mi
       INNER JOIN menu_categories mc ON mi.category_id = mc.id
-      WHERE mi.name LIKE ? OR mi.description LIKE ?
+      INNER JOIN menus m ON mc.menu_id = m.id
+      WHERE m.restaurant_id = ? AND mi.deleted_at IS NULL AND (mi.name LIKE ? OR mi.description LIKE ?)
       ORDER BY mi.name
       LIMIT 50
-    `).bind(`%${query}%`, `%${query}%`).all();
+    `).bind(this.restaurantId, `%${query}%`, `%${query}%`).all();
 
     return items.results;
   }
 
+  /**
+   * Obtiene el historial de cambios del menú
+   */
+  async getChanges(page: number = 1, limit: number = 50, filters?: {
+    syncId?: string;
+    entityType?: string;
+    changeType?: string;
+  }): Promise<{ changes: MenuChange[]; total: number }> {
+    let whereClause = 'restaurant_id = ?';
+    const params: (string | number)[] = [this.restaurantId];
+
+    if (filters?.syncId) {
+      whereClause += ' AND sync_id = ?';
+      params.push(filters.syncId);
+    }
+    if (filters?.entityType) {
+      whereClause += ' AND entity_type = ?';
+      params.push(filters.entityType);
+    }
+    if (filters?.changeType) {
+      whereClause += ' AND change_type = ?';
+      params.push(filters.changeType);
+    }
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM menu_changes WHERE ${whereClause}`
+    ).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const changes = await this.db.prepare(`
+      SELECT * FROM menu_changes
+      WHERE ${whereClause}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<MenuChange>();
+
+    return { changes: changes.results, total: countResult?.total || 0 };
+  }
+
   /**
    * Registra un evento en el log
    */
@@ -466,8 +846,12 @@ export class MenuService {
     errorMessage?: string
   ): Promise<void> {
     await this.db.prepare(`
-      INSERT INTO webhook_logs (event_type, payload, status, error_message)
-      VALUES (?, ?, ?, ?)
-    `).bind(eventType, JSON.stringify(payload), status, errorMessage || null).run();
+      INSERT INTO webhook_logs (restaurant_id, event_type, payload, status, error_message)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(this.restaurantId, eventType, JSON.stringify(payload), status, errorMessage || null).run();
+  }
+
+  private cacheKey(): string {
+    return `menu:full:${this.restaurantId}`;
   }
 }
@@ -0,0 +1,138 @@
+import type { RouterRoute } from 'hono/types';
+import { ObjectSchema, ROUTE_SCHEMA } from './validation';
+import type { JsonSchema, RouteSchema, Schema } from './validation';
+
+// Permisos que exige una ruta (los marca requireScope)
+export const ROUTE_SCOPES = Symbol('routeScopes');
+
+interface Operation {
+  method: string;
+  path: string;
+  schemas: RouteSchema[];
+  scopes: string[];
+}
+
+const VALIDATION_ERROR: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          location: { type: 'string', enum: ['query', 'param', 'json'] },
+          message: { type: 'string' }
+        },
+        required: ['field', 'location', 'message']
+      }
+    }
+  },
+  required: ['success', 'error']
+};
+
+const ERROR: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean', enum: [false] }, error: { type: 'string' } },
+  required: ['success', 'error']
+};
+
+/**
+ * Documento OpenAPI 3.0 generado a partir de las rutas registradas y de los
+ * esquemas con los que se validan (query, parámetros y cuerpo)
+ */
+export function buildOpenApiDocument(routes: RouterRoute[], info: { title: string; version: string }): JsonSchema {
+  const operations = new Map<string, Operation>();
+
+  // Cada middleware de una ruta es una entrada más con el mismo método y path
+  for (const route of routes) {
+    if (route.method === 'ALL') continue;
+
+    const key = `${route.method} ${route.path}`;
+    const operation = operations.get(key) ?? { method: route.method, path: route.path, schemas: [], scopes: [] };
+    const handler = route.handler as unknown as Record<symbol, unknown>;
+
+    if (handler[ROUTE_SCHEMA]) operation.schemas.push(handler[ROUTE_SCHEMA] as RouteSchema);
+    if (handler[ROUTE_SCOPES]) operation.scopes.push(...handler[ROUTE_SCOPES] as string[]);
+
+    operations.set(key, operation);
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of operations.values()) {
+    const path = operation.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] ??= {};
+    paths[path][operation.method.toLowerCase()] = toOperation(operation);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'API key o API_AUTH_TOKEN' },
+        masterKey: { type: 'apiKey', in: 'header', name: 'Authorization', description: 'Master key de GloriaFood' }
+      },
+      schemas: { Error: ERROR, ValidationError: VALIDATION_ERROR }
+    }
+  };
+}
+
+function toOperation(operation: Operation): JsonSchema {
+  const segments = operation.path.split('/').filter(Boolean);
+  const isApi = segments[0] === 'api';
+  const tag = isApi ? (segments[1] === 'admin' ? segments[2] : segments[1]) : segments[0] || 'public';
+
+  const parameters: JsonSchema[] = [];
+  let requestBody: JsonSchema | undefined;
+
+  for (const { target, schema } of operation.schemas) {
+    if (target === 'json') {
+      requestBody = { required: true, content: { 'application/json': { schema: schema.jsonSchema() } } };
+    } else if (schema instanceof ObjectSchema) {
+      for (const [name, field] of Object.entries(schema.shape as Record<string, Schema<unknown>>)) {
+        parameters.push({
+          name,
+          in: target === 'param' ? 'path' : 'query',
+          required: target === 'param' || !field.isOptional(),
+          schema: field.jsonSchema()
+        });
+      }
+    }
+  }
+
+  // Parámetros de ruta sin esquema propio
+  for (const [, name] of operation.path.matchAll(/:(\w+)/g)) {
+    if (!parameters.some(parameter => parameter.in === 'path' && parameter.name === name)) {
+      parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  const errorResponse = (description: string, schema = 'Error') => ({
+    description,
+    content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } }
+  });
+
+  return {
+    tags: [tag],
+    ...(operation.scopes.length > 0 && { 'x-required-scopes': [...new Set(operation.scopes)] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    ...(isApi && { security: [{ apiKey: [] }] }),
+    ...(operation.path === '/webhook/orders' && { security: [{ masterKey: [] }] }),
+    responses: {
+      200: { description: 'OK' },
+      ...(operation.schemas.length > 0 && { 400: errorResponse('Petición no válida', 'ValidationError') }),
+      ...((isApi || operation.path === '/webhook/orders') && { 401: errorResponse('Sin autenticar') }),
+      ...(operation.scopes.length > 0 && { 403: errorResponse('Falta un permiso de la API key') }),
+      ...(operation.path === '/webhook/orders' && {
+        403: errorResponse('IP no permitida'),
+        429: errorResponse('Demasiados intentos fallidos desde la IP')
+      })
+    }
+  };
+}
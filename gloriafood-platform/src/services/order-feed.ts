@@ -0,0 +1,40 @@
+import type { Env, OrderFeedEvent } from '../types';
+
+/**
+ * Servicio del feed en tiempo real de pedidos: publica eventos y conecta
+ * clientes al Durable Object del restaurante
+ */
+export class OrderFeedService {
+  private namespace: DurableObjectNamespace;
+
+  constructor(env: Env) {
+    this.namespace = env.ORDER_FEED;
+  }
+
+  /**
+   * Publica un evento en el feed del restaurante.
+   * Un fallo del feed nunca debe hacer fallar el procesamiento del pedido.
+   */
+  async publish(event: OrderFeedEvent): Promise<void> {
+    try {
+      await this.stub(event.restaurant_id).fetch('https://order-feed/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event)
+      });
+    } catch (error) {
+      console.error(`Order feed publish failed for restaurant ${event.restaurant_id}:`, error);
+    }
+  }
+
+  /**
+   * Conecta un cliente (WebSocket o SSE) al feed del restaurante
+   */
+  async connect(restaurantId: number, request: Request): Promise<Response> {
+    return this.stub(restaurantId).fetch(new Request('https://order-feed/connect', request));
+  }
+
+  private stub(restaurantId: number): DurableObjectStub {
+    return this.namespace.get(this.namespace.idFromName(String(restaurantId)));
+  }
+}
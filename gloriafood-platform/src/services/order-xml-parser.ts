@@ -0,0 +1,196 @@
+import type { GloriaFoodOrderResponse } from '../types';
+
+/**
+ * Nodo de un documento XML ya parseado
+ */
+interface XmlNode {
+  name: string;
+  children: XmlNode[];
+  text: string;
+}
+
+// Elementos que en XML se repiten y en JSON son arrays (nombre XML -> clave JSON)
+const ARRAY_ELEMENTS: Record<string, string> = {
+  order: 'orders',
+  item: 'items',
+  option: 'options',
+  tax_list: 'tax_list',
+  coupons: 'coupons',
+};
+
+// Elementos que en JSON son objetos (vacíos en XML, null en JSON)
+const OBJECT_ELEMENTS = new Set(['client_address_parts', 'delivery_by_distance']);
+
+// Campos numéricos del formato de pedidos
+const NUMERIC_FIELDS = new Set([
+  'count', 'id', 'api_version', 'restaurant_id', 'company_account_id', 'pos_system_id',
+  'client_id', 'user_id', 'client_order_count', 'persons',
+  'total_price', 'sub_total_price', 'tax_value', 'total_item_price', 'price', 'quantity',
+  'type_id', 'tax_rate', 'parent_id', 'item_discount', 'cart_discount', 'cart_discount_rate',
+  'value', 'rate', 'distance', 'delivery_fee',
+]);
+
+// Campos booleanos del formato de pedidos
+const BOOLEAN_FIELDS = new Set([
+  'for_later', 'pin_skipped', 'client_marketing_consent', 'outside_delivery_area',
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parser de pedidos en formato XML (push y polling de GloriaFood).
+ *
+ * Los Workers no incluyen DOMParser, así que se usa un parser mínimo que
+ * convierte el XML a la misma estructura que el formato JSON.
+ */
+export class OrderXmlParser {
+  /**
+   * Convierte un payload XML de pedidos a GloriaFoodOrderResponse
+   */
+  static parse(xml: string): GloriaFoodOrderResponse {
+    const root = OrderXmlParser.parseDocument(xml);
+    const data = OrderXmlParser.toValue(root) as Record<string, any> | null;
+
+    const orders = (data?.orders || []).map((order: Record<string, any>) => ({
+      ...order,
+      items: (order.items || []).map((item: Record<string, any>) => ({
+        ...item,
+        options: item.options || []
+      })),
+      coupons: order.coupons || []
+    }));
+
+    return {
+      count: data?.count ?? orders.length,
+      orders
+    };
+  }
+
+  /**
+   * Convierte un nodo en un valor con la forma del JSON equivalente
+   */
+  private static toValue(node: XmlNode): unknown {
+    if (node.children.length === 0) {
+      return OrderXmlParser.coerce(node.name, node.text);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const child of node.children) {
+      const value = OrderXmlParser.toValue(child);
+      const arrayKey = ARRAY_ELEMENTS[child.name];
+
+      if (arrayKey) {
+        const list = (result[arrayKey] as unknown[] | undefined) || [];
+        if (value !== null) list.push(value);
+        result[arrayKey] = list;
+      } else {
+        result[child.name] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Aplica el tipo correcto a un valor de texto.
+   *
+   * Un elemento vacío (`<instructions/>`) es un texto vacío, como en JSON; solo
+   * son null el texto `null` y los números, booleanos, objetos y arrays vacíos.
+   */
+  private static coerce(name: string, text: string): unknown {
+    if (text === 'null') {
+      return null;
+    }
+    if (text === '') {
+      const isText = !NUMERIC_FIELDS.has(name) && !BOOLEAN_FIELDS.has(name)
+        && !OBJECT_ELEMENTS.has(name) && !ARRAY_ELEMENTS[name];
+      return isText ? '' : null;
+    }
+    if (NUMERIC_FIELDS.has(name)) {
+      const num = Number(text);
+      return Number.isNaN(num) ? null : num;
+    }
+    if (BOOLEAN_FIELDS.has(name)) {
+      return text === 'true' || text === '1';
+    }
+    return text;
+  }
+
+  /**
+   * Parsea el documento y devuelve el elemento raíz
+   */
+  private static parseDocument(xml: string): XmlNode {
+    const stack: XmlNode[] = [{ name: '#document', children: [], text: '' }];
+    let pos = 0;
+
+    while (pos < xml.length) {
+      const lt = xml.indexOf('<', pos);
+      if (lt === -1) break;
+
+      // Texto entre etiquetas
+      if (lt > pos) {
+        stack[stack.length - 1].text += OrderXmlParser.decode(xml.slice(pos, lt));
+      }
+
+      if (xml.startsWith('<![CDATA[', lt)) {
+        const end = OrderXmlParser.indexOrThrow(xml, ']]>', lt);
+        stack[stack.length - 1].text += xml.slice(lt + 9, end);
+        pos = end + 3;
+      } else if (xml.startsWith('<!--', lt)) {
+        pos = OrderXmlParser.indexOrThrow(xml, '-->', lt) + 3;
+      } else if (xml.startsWith('<?', lt) || xml.startsWith('<!', lt)) {
+        pos = OrderXmlParser.indexOrThrow(xml, '>', lt) + 1;
+      } else if (xml.startsWith('</', lt)) {
+        const end = OrderXmlParser.indexOrThrow(xml, '>', lt);
+        const name = xml.slice(lt + 2, end).trim();
+        const node = stack.pop();
+        if (!node || node.name !== name || stack.length === 0) {
+          throw new Error(`Invalid XML: unexpected closing tag </${name}>`);
+        }
+        node.text = node.text.trim();
+        stack[stack.length - 1].children.push(node);
+        pos = end + 1;
+      } else {
+        const end = OrderXmlParser.indexOrThrow(xml, '>', lt);
+        const selfClosing = xml[end - 1] === '/';
+        const tag = xml.slice(lt + 1, selfClosing ? end - 1 : end).trim();
+        const name = tag.split(/\s+/)[0];
+        const node: XmlNode = { name, children: [], text: '' };
+
+        if (selfClosing) {
+          stack[stack.length - 1].children.push(node);
+        } else {
+          stack.push(node);
+        }
+        pos = end + 1;
+      }
+    }
+
+    if (stack.length !== 1 || stack[0].children.length !== 1) {
+      throw new Error('Invalid XML: expected a single root element');
+    }
+
+    return stack[0].children[0];
+  }
+
+  private static indexOrThrow(xml: string, search: string, from: number): number {
+    const index = xml.indexOf(search, from);
+    if (index === -1) {
+      throw new Error(`Invalid XML: unterminated markup at position ${from}`);
+    }
+    return index;
+  }
+
+  private static decode(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+      if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      return ENTITIES[entity] ?? match;
+    });
+  }
+}
@@ -1,36 +1,292 @@
-import type { Env, GloriaFoodOrder, Order, OrderItem } from '../types';
+import type {
+  Env,
+  GloriaFoodOrder,
+  Order,
+  OrderFeedEvent,
+  OrderFilters,
+  OrderItem,
+  OrderItemDetail,
+  OrderStatus,
+  OrderStatusHistory,
+  OrderStatusUpdateResult,
+  OrderTaxDetail,
+  PriceDiscrepancy,
+  PriceValidationResult
+} from '../types';
+import { ClientsService, consentChangeStatement, normalizeEmail, normalizePhone } from './clients';
+import { OrderFeedService } from './order-feed';
+import { PriceValidationService } from './price-validation';
+import { RestaurantsService } from './restaurants';
+import { STATS_BASES, dashboardCacheKey } from './stats';
+import { WebhooksService } from './webhooks';
+
+/**
+ * Ciclo de vida de un pedido: estados a los que se puede pasar desde cada estado
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  accepted: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['out_for_delivery', 'completed', 'cancelled'],
+  out_for_delivery: ['completed', 'cancelled'],
+  completed: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: []
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && value in ORDER_STATUS_TRANSITIONS;
+}
+
+/**
+ * Condición SQL (sobre la tabla orders) de los filtros del listado de pedidos
+ */
+export function orderFilterClause(filters?: OrderFilters): { whereClause: string; params: (string | number)[] } {
+  let whereClause = '1=1';
+  const params: (string | number)[] = [];
+
+  if (filters?.status) {
+    whereClause += ' AND status = ?';
+    params.push(filters.status);
+  }
+  if (filters?.type) {
+    whereClause += ' AND type = ?';
+    params.push(filters.type);
+  }
+  if (filters?.dateFrom) {
+    whereClause += ' AND created_at >= ?';
+    params.push(filters.dateFrom);
+  }
+  if (filters?.dateTo) {
+    whereClause += ' AND created_at <= ?';
+    params.push(filters.dateTo);
+  }
+  if (filters?.restaurantId) {
+    whereClause += ' AND restaurant_id = ?';
+    params.push(filters.restaurantId);
+  }
+
+  return { whereClause, params };
+}
+
+/**
+ * Expresión SQL que resuelve el ID de un pedido o cliente dentro de un batch
+ */
+interface BatchRef {
+  sql: string;
+  params: number[];
+}
+
+/**
+ * Cliente de un pedido: uno ya guardado o uno nuevo, que se crea en el batch del pedido
+ */
+type OrderClient =
+  | { result: 'existing'; id: number; sameAccount: boolean }
+  | { result: 'new'; gloriafoodId: number | null };
 
 /**
  * Servicio para gestión de pedidos
  */
 export class OrdersService {
+  private env: Env;
   private db: D1Database;
   private cache: KVNamespace;
+  private restaurants: RestaurantsService;
+  private feed: OrderFeedService;
+  private webhooks: WebhooksService;
 
   constructor(env: Env) {
+    this.env = env;
     this.db = env.DB;
     this.cache = env.CACHE;
+    this.restaurants = new RestaurantsService(env);
+    this.feed = new OrderFeedService(env);
+    this.webhooks = new WebhooksService(env);
   }
 
   /**
-   * Procesa y guarda un pedido recibido de GloriaFood
+   * Procesa y guarda un pedido recibido de GloriaFood.
+   * Todo el pedido (cliente, items, opciones, cupones, impuestos y facturación) se
+   * escribe en un único batch de D1, que se ejecuta como una transacción: si falla,
+   * el reintento de la cola no encuentra nada a medias.
    */
   async processOrder(order: GloriaFoodOrder): Promise<{ orderId: number; isNew: boolean }> {
+    const posSystemId = order.pos_system_id || 0;
+
     // Verificar si el pedido ya existe (deduplicación)
-    const existing = await this.db.prepare(
-      'SELECT id FROM orders WHERE gloriafood_id = ? AND pos_system_id = ?'
-    ).bind(order.id, order.pos_system_id || 0).first<{ id: number }>();
+    const existing = await this.db.prepare(`
+      SELECT o.id,
+        (SELECT COUNT(*) FROM order_items oi WHERE oi.order_id = o.id) as item_count,
+        (SELECT COUNT(*) FROM order_item_options oio
+          JOIN order_items oi ON oio.order_item_id = oi.id
+          WHERE oi.order_id = o.id) as option_count,
+        (SELECT COUNT(*) FROM order_coupons oc WHERE oc.order_id = o.id) as coupon_count,
+        (SELECT COUNT(*) FROM order_taxes ot WHERE ot.order_id = o.id) as tax_count,
+        (SELECT COUNT(*) FROM billing_details bd WHERE bd.order_id = o.id) as billing_count
+      FROM orders o
+      WHERE o.gloriafood_id = ? AND o.pos_system_id = ?
+    `).bind(order.id, posSystemId).first<{
+      id: number;
+      item_count: number;
+      option_count: number;
+      coupon_count: number;
+      tax_count: number;
+      billing_count: number;
+    }>();
+
+    if (existing && this.isOrderComplete(existing, order)) {
+      return { orderId: existing.id, isNew: false };
+    }
+
+    // Obtener o crear restaurante
+    const restaurantId = await this.restaurants.getOrCreateRestaurant(order);
+
+    // Buscar el cliente (si es nuevo se crea en el batch)
+    const client = await this.findOrderClient(order, restaurantId);
+
+    // Comparar precios con el menú sincronizado (solo se marca, nunca se rechaza)
+    const priceCheck = await new PriceValidationService(this.env, restaurantId).validate(order);
+
+    // Referencia al pedido dentro del batch (aún no conocemos su ID)
+    const orderRef: BatchRef = {
+      sql: '(SELECT id FROM orders WHERE gloriafood_id = ? AND pos_system_id = ?)',
+      params: [order.id, posSystemId]
+    };
+
+    const statements: D1PreparedStatement[] = [];
+
+    let clientIndex = -1;
+    let clientRef: BatchRef = { sql: 'NULL', params: [] };
+
+    if (client?.result === 'existing') {
+      clientRef = { sql: '?', params: [client.id] };
+    } else if (client?.result === 'new') {
+      // Un cliente nuevo se inserta justo antes del pedido, que lo enlaza con last_insert_rowid()
+      clientIndex = statements.length;
+      statements.push(this.buildClientInsertStatement(order, client));
+      clientRef = { sql: 'last_insert_rowid()', params: [] };
+    }
+
+    let orderIndex = -1;
 
     if (existing) {
-      return { orderId: existing.id, isNew: false };
+      if (client?.result === 'new') {
+        statements.push(this.db.prepare(
+          `UPDATE orders SET client_id = ${clientRef.sql} WHERE id = ?`
+        ).bind(...clientRef.params, existing.id));
+      }
+      // Pedido guardado a medias: se rehacen sus detalles sobre la misma fila
+      statements.push(...this.buildDeleteDetailsStatements(existing.id));
+    } else {
+      orderIndex = statements.length;
+      statements.push(this.buildOrderStatement(order, restaurantId, clientRef));
     }
 
-    // Obtener o crear cliente
-    const clientId = await this.getOrCreateClient(order);
+    // Datos, consentimiento y dirección del cliente (enlazado ya desde el pedido)
+    if (client) {
+      statements.push(...this.buildClientStatements(order, restaurantId, client, orderRef, !existing));
+    }
 
-    // Obtener o crear restaurante
-    const restaurantId = await this.getOrCreateRestaurant(order);
+    // Registrar el estado inicial en el historial (si aún no está)
+    statements.push(this.db.prepare(`
+      INSERT INTO order_status_history (order_id, from_status, to_status, actor)
+      SELECT ${orderRef.sql}, NULL, ?, 'gloriafood'
+      WHERE NOT EXISTS (
+        SELECT 1 FROM order_status_history WHERE order_id = ${orderRef.sql}
+      )
+    `).bind(...orderRef.params, order.status, ...orderRef.params));
+
+    // Items del pedido y sus opciones
+    statements.push(...this.buildOrderItemStatements(orderRef, order.items));
+
+    // Cupones si hay
+    for (const coupon of order.coupons || []) {
+      statements.push(this.db.prepare(
+        `INSERT INTO order_coupons (order_id, coupon_code) VALUES (${orderRef.sql}, ?)`
+      ).bind(...orderRef.params, coupon));
+    }
+
+    // Impuestos
+    for (const tax of order.tax_list || []) {
+      statements.push(this.db.prepare(
+        `INSERT INTO order_taxes (order_id, type, rate, value) VALUES (${orderRef.sql}, ?, ?, ?)`
+      ).bind(...orderRef.params, tax.type, tax.rate, tax.value));
+    }
+
+    // Datos de facturación
+    if (order.billing_details) {
+      statements.push(this.buildBillingDetailsStatement(orderRef, order.billing_details));
+    }
+
+    // Resultado de la validación de precios
+    statements.push(...this.buildPriceCheckStatements(orderRef, priceCheck));
+
+    const results = await this.db.batch(statements);
+    const orderId = existing ? existing.id : results[orderIndex].meta.last_row_id as number;
+
+    // Invalidar caché de estadísticas del restaurante
+    await Promise.all(STATS_BASES.map(basis => this.cache.delete(dashboardCacheKey(restaurantId, basis))));
+
+    // El cliente solo existe si el batch se ha confirmado
+    if (clientIndex >= 0) {
+      await this.webhooks.dispatch(restaurantId, 'client.created', {
+        client_id: results[clientIndex].meta.last_row_id as number,
+        gloriafood_id: order.client_id || order.user_id || null,
+        first_name: order.client_first_name || null,
+        last_name: order.client_last_name || null,
+        email: order.client_email || null,
+        phone: order.client_phone || null,
+        marketing_consent: !!order.client_marketing_consent
+      });
+    }
+
+    // Avisar al feed en tiempo real y a los webhooks salientes
+    if (!existing) {
+      const clientName = [order.client_first_name, order.client_last_name].filter(Boolean).join(' ');
+      const event: OrderFeedEvent = {
+        type: 'order.created',
+        restaurant_id: restaurantId,
+        order_id: orderId,
+        gloriafood_id: order.id,
+        status: order.status,
+        order_type: order.type,
+        total_price: order.total_price,
+        currency: order.currency,
+        fulfill_at: order.fulfill_at || null,
+        client_name: clientName || null,
+        at: new Date().toISOString()
+      };
+
+      await this.feed.publish(event);
+      await this.webhooks.dispatch(restaurantId, event.type, event);
+    }
+
+    return { orderId, isNew: !existing };
+  }
 
+  /**
+   * Comprueba si un pedido guardado tiene todos los detalles del payload
+   */
+  private isOrderComplete(
+    saved: { item_count: number; option_count: number; coupon_count: number; tax_count: number; billing_count: number },
+    order: GloriaFoodOrder
+  ): boolean {
+    const optionCount = order.items.reduce((sum, item) => sum + (item.options?.length || 0), 0);
+
+    return saved.item_count === order.items.length
+      && saved.option_count === optionCount
+      && saved.coupon_count === (order.coupons?.length || 0)
+      && saved.tax_count === (order.tax_list?.length || 0)
+      && saved.billing_count === (order.billing_details ? 1 : 0);
+  }
+
+  /**
+   * Construye el INSERT del pedido
+   */
+  private buildOrderStatement(
+    order: GloriaFoodOrder,
+    restaurantId: number,
+    clientRef: BatchRef
+  ): D1PreparedStatement {
     // Determinar método de pago
     const paymentMethod = order.type === 'delivery'
       ? order.delivery_payment
@@ -44,8 +300,7 @@ export class OrdersService {
     const deliveryItem = order.items.find(i => i.type === 'delivery_fee');
     const deliveryFee = deliveryItem?.total_item_price || 0;
 
-    // Insertar pedido
-    const result = await this.db.prepare(`
+    return this.db.prepare(`
       INSERT INTO orders (
         gloriafood_id, pos_system_id, restaurant_id, client_id,
         status, type, source, currency, total_price, sub_total_price,
@@ -53,12 +308,12 @@ export class OrdersService {
         instructions, fulfill_at, accepted_at, for_later, pin_skipped,
         delivery_fee, delivery_address, delivery_latitude, delivery_longitude,
         delivery_zone, outside_delivery_area, tip_amount, raw_payload
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ${clientRef.sql}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       order.id,
       order.pos_system_id || 0,
       restaurantId,
-      clientId,
+      ...clientRef.params,
       order.status,
       order.type,
       order.source || null,
@@ -83,132 +338,201 @@ export class OrdersService {
       order.outside_delivery_area ? 1 : 0,
       tipAmount,
       JSON.stringify(order)
-    ).run();
-
-    const orderId = result.meta.last_row_id as number;
+    );
+  }
 
-    // Insertar items del pedido
-    await this.insertOrderItems(orderId, order.items);
+  /**
+   * Construye los DELETE de los detalles de un pedido guardado a medias
+   */
+  private buildDeleteDetailsStatements(orderId: number): D1PreparedStatement[] {
+    return [
+      this.db.prepare(
+        'DELETE FROM order_item_options WHERE order_item_id IN (SELECT id FROM order_items WHERE order_id = ?)'
+      ).bind(orderId),
+      this.db.prepare('DELETE FROM order_items WHERE order_id = ?').bind(orderId),
+      this.db.prepare('DELETE FROM order_coupons WHERE order_id = ?').bind(orderId),
+      this.db.prepare('DELETE FROM order_taxes WHERE order_id = ?').bind(orderId),
+      this.db.prepare('DELETE FROM billing_details WHERE order_id = ?').bind(orderId),
+      this.db.prepare('DELETE FROM order_price_discrepancies WHERE order_id = ?').bind(orderId)
+    ];
+  }
 
-    // Insertar cupones si hay
-    if (order.coupons && order.coupons.length > 0) {
-      for (const coupon of order.coupons) {
-        await this.db.prepare(
-          'INSERT INTO order_coupons (order_id, coupon_code) VALUES (?, ?)'
-        ).bind(orderId, coupon).run();
-      }
+  /**
+   * Construye las sentencias que guardan la validación de precios del pedido
+   */
+  private buildPriceCheckStatements(orderRef: BatchRef, check: PriceValidationResult): D1PreparedStatement[] {
+    const statements = [this.db.prepare(`
+      UPDATE orders SET
+        price_check = ?, expected_sub_total_price = ?, expected_tax_value = ?, expected_total_price = ?
+      WHERE id = ${orderRef.sql}
+    `).bind(
+      check.status,
+      check.expected_sub_total_price,
+      check.expected_tax_value,
+      check.expected_total_price,
+      ...orderRef.params
+    )];
+
+    for (const discrepancy of check.discrepancies) {
+      statements.push(this.db.prepare(`
+        INSERT INTO order_price_discrepancies (
+          order_id, item_gloriafood_id, type_id, entity_type, name, kind, expected, actual
+        ) VALUES (${orderRef.sql}, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        ...orderRef.params,
+        discrepancy.item_gloriafood_id,
+        discrepancy.type_id,
+        discrepancy.entity_type,
+        discrepancy.name,
+        discrepancy.kind,
+        discrepancy.expected,
+        discrepancy.actual
+      ));
     }
 
-    // Insertar impuestos
-    if (order.tax_list) {
-      for (const tax of order.tax_list) {
-        await this.db.prepare(
-          'INSERT INTO order_taxes (order_id, type, rate, value) VALUES (?, ?, ?, ?)'
-        ).bind(orderId, tax.type, tax.rate, tax.value).run();
-      }
-    }
+    return statements;
+  }
 
-    // Insertar datos de facturación
-    if (order.billing_details) {
-      await this.insertBillingDetails(orderId, order.billing_details);
+  /**
+   * Busca el cliente del pedido: por ID de GloriaFood (siguiendo las fusiones) o,
+   * en pedidos de invitado, por email o teléfono normalizados.
+   * Devuelve null si el pedido no trae datos con los que identificar al cliente.
+   */
+  private async findOrderClient(order: GloriaFoodOrder, restaurantId: number): Promise<OrderClient | null> {
+    const clientGloriaFoodId = order.client_id || order.user_id || null;
+
+    if (clientGloriaFoodId) {
+      const byId = await this.db.prepare(
+        'SELECT id, merged_into_id FROM clients WHERE gloriafood_id = ?'
+      ).bind(clientGloriaFoodId).first<{ id: number; merged_into_id: number | null }>();
+
+      if (byId) {
+        return { result: 'existing', id: byId.merged_into_id ?? byId.id, sameAccount: byId.merged_into_id === null };
+      }
+      return { result: 'new', gloriafoodId: clientGloriaFoodId };
     }
 
-    // Invalidar caché de estadísticas
-    await this.cache.delete('dashboard:stats');
+    if (!normalizeEmail(order.client_email) && !normalizePhone(order.client_phone)) return null;
 
-    return { orderId, isNew: true };
+    const match = await new ClientsService(this.env, restaurantId).findClient(order.client_email, order.client_phone);
+    return match ? { result: 'existing', id: match.id, sameAccount: false } : { result: 'new', gloriafoodId: null };
   }
 
   /**
-   * Obtiene o crea un cliente
+   * Construye el INSERT de un cliente nuevo
    */
-  private async getOrCreateClient(order: GloriaFoodOrder): Promise<number | null> {
-    const clientGloriaFoodId = order.client_id || order.user_id;
-    if (!clientGloriaFoodId) return null;
-
-    // Buscar cliente existente
-    const existing = await this.db.prepare(
-      'SELECT id FROM clients WHERE gloriafood_id = ?'
-    ).bind(clientGloriaFoodId).first<{ id: number }>();
+  private buildClientInsertStatement(
+    order: GloriaFoodOrder,
+    client: Extract<OrderClient, { result: 'new' }>
+  ): D1PreparedStatement {
+    return this.db.prepare(`
+      INSERT INTO clients (
+        gloriafood_id, first_name, last_name, email, phone,
+        email_normalized, phone_normalized, order_count, marketing_consent
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      client.gloriafoodId,
+      order.client_first_name || null,
+      order.client_last_name || null,
+      order.client_email || null,
+      order.client_phone || null,
+      normalizeEmail(order.client_email),
+      normalizePhone(order.client_phone),
+      client.gloriafoodId ? order.client_order_count || 1 : 1,
+      order.client_marketing_consent ? 1 : 0
+    );
+  }
 
-    if (existing) {
-      // Actualizar información del cliente
-      await this.db.prepare(`
+  /**
+   * Construye las sentencias que actualizan al cliente del pedido (datos de contacto,
+   * contador, consentimiento y dirección). Un cliente nuevo se resuelve desde el pedido.
+   */
+  private buildClientStatements(
+    order: GloriaFoodOrder,
+    restaurantId: number,
+    client: OrderClient,
+    orderRef: BatchRef,
+    isNewOrder: boolean
+  ): D1PreparedStatement[] {
+    const statements: D1PreparedStatement[] = [];
+    const consent = !!order.client_marketing_consent;
+    let clientRef: BatchRef;
+
+    if (client.result === 'existing') {
+      clientRef = { sql: '?', params: [client.id] };
+
+      // El contador de GloriaFood solo vale si el cliente es esa misma cuenta;
+      // si no, se suma el pedido al contador propio
+      const orderCount = client.sameAccount ? '?' : 'order_count + ?';
+
+      // Actualizar información del cliente (y registrar si cambia el consentimiento)
+      statements.push(consentChangeStatement(this.db, {
+        clientId: client.id,
+        restaurantId,
+        consent,
+        source: 'gloriafood',
+        orderGloriaFoodId: order.id
+      }), this.db.prepare(`
         UPDATE clients SET
           first_name = COALESCE(?, first_name),
           last_name = COALESCE(?, last_name),
           email = COALESCE(?, email),
           phone = COALESCE(?, phone),
-          order_count = ?,
+          email_normalized = COALESCE(?, email_normalized),
+          phone_normalized = COALESCE(?, phone_normalized),
+          order_count = ${orderCount},
           marketing_consent = ?,
           updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
       `).bind(
-        order.client_first_name,
-        order.client_last_name,
-        order.client_email,
-        order.client_phone,
-        order.client_order_count || 0,
-        order.client_marketing_consent ? 1 : 0,
-        existing.id
-      ).run();
-
-      // Guardar dirección si es delivery
-      if (order.type === 'delivery' && order.client_address_parts) {
-        await this.saveClientAddress(existing.id, order);
-      }
-
-      return existing.id;
+        order.client_first_name || null,
+        order.client_last_name || null,
+        order.client_email || null,
+        order.client_phone || null,
+        normalizeEmail(order.client_email),
+        normalizePhone(order.client_phone),
+        client.sameAccount ? order.client_order_count || 0 : (isNewOrder ? 1 : 0),
+        consent ? 1 : 0,
+        client.id
+      ));
+    } else {
+      clientRef = { sql: `(SELECT client_id FROM orders WHERE id = ${orderRef.sql})`, params: orderRef.params };
+
+      // Consentimiento inicial del cliente
+      statements.push(this.db.prepare(`
+        INSERT INTO client_consent_history (
+          client_id, restaurant_id, marketing_consent, previous_consent, source, order_gloriafood_id
+        ) VALUES (${clientRef.sql}, ?, ?, NULL, 'gloriafood', ?)
+      `).bind(...clientRef.params, restaurantId, consent ? 1 : 0, order.id));
     }
 
-    // Crear nuevo cliente
-    const result = await this.db.prepare(`
-      INSERT INTO clients (
-        gloriafood_id, first_name, last_name, email, phone,
-        order_count, marketing_consent
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      clientGloriaFoodId,
-      order.client_first_name || null,
-      order.client_last_name || null,
-      order.client_email || null,
-      order.client_phone || null,
-      order.client_order_count || 1,
-      order.client_marketing_consent ? 1 : 0
-    ).run();
-
-    const clientId = result.meta.last_row_id as number;
-
     // Guardar dirección si es delivery
     if (order.type === 'delivery' && order.client_address_parts) {
-      await this.saveClientAddress(clientId, order);
+      statements.push(this.buildClientAddressStatement(clientRef, order));
     }
 
-    return clientId;
+    return statements;
   }
 
   /**
-   * Guarda la dirección del cliente
+   * Construye el INSERT de la dirección del cliente (si no la tiene ya)
    */
-  private async saveClientAddress(clientId: number, order: GloriaFoodOrder): Promise<void> {
-    const parts = order.client_address_parts;
-    if (!parts) return;
-
-    // Verificar si ya existe esta dirección
-    const existing = await this.db.prepare(
-      'SELECT id FROM client_addresses WHERE client_id = ? AND full_address = ?'
-    ).bind(clientId, parts.full_address || order.client_address).first();
-
-    if (existing) return;
+  private buildClientAddressStatement(clientRef: BatchRef, order: GloriaFoodOrder): D1PreparedStatement {
+    const parts = order.client_address_parts!;
+    const fullAddress = parts.full_address || order.client_address;
 
-    await this.db.prepare(`
+    return this.db.prepare(`
       INSERT INTO client_addresses (
         client_id, full_address, street, city, zipcode,
         bloc, floor, apartment, intercom, latitude, longitude, delivery_zone
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      )
+      SELECT ${clientRef.sql}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM client_addresses WHERE client_id = ${clientRef.sql} AND full_address = ?
+      )
     `).bind(
-      clientId,
-      parts.full_address || order.client_address,
+      ...clientRef.params,
+      fullAddress,
       parts.street || null,
       parts.city || null,
       parts.zipcode || null,
@@ -218,51 +542,28 @@ export class OrdersService {
       parts.intercom || null,
       order.latitude || null,
       order.longitude || null,
-      order.delivery_zone_name || null
-    ).run();
+      order.delivery_zone_name || null,
+      ...clientRef.params,
+      fullAddress
+    );
   }
 
   /**
-   * Obtiene o crea un restaurante
+   * Construye los INSERT de los items de un pedido y sus opciones
    */
-  private async getOrCreateRestaurant(order: GloriaFoodOrder): Promise<number> {
-    const existing = await this.db.prepare(
-      'SELECT id FROM restaurants WHERE restaurant_key = ?'
-    ).bind(order.restaurant_key).first<{ id: number }>();
+  private buildOrderItemStatements(orderRef: BatchRef, items: OrderItem[]): D1PreparedStatement[] {
+    const statements: D1PreparedStatement[] = [];
 
-    if (existing) {
-      return existing.id;
-    }
-
-    const result = await this.db.prepare(`
-      INSERT INTO restaurants (
-        gloriafood_id, restaurant_key, name, timezone, currency
-      ) VALUES (?, ?, ?, ?, ?)
-    `).bind(
-      order.restaurant_id,
-      order.restaurant_key,
-      order.restaurant_name,
-      order.restaurant_timezone || 'UTC',
-      order.currency
-    ).run();
-
-    return result.meta.last_row_id as number;
-  }
-
-  /**
-   * Inserta los items de un pedido
-   */
-  private async insertOrderItems(orderId: number, items: OrderItem[]): Promise<void> {
     for (const item of items) {
-      const result = await this.db.prepare(`
+      statements.push(this.db.prepare(`
         INSERT INTO order_items (
           order_id, gloriafood_id, name, type, type_id, quantity,
           price, total_price, tax_rate, tax_value, tax_type,
           item_discount, cart_discount, cart_discount_rate,
           instructions, kitchen_internal_name, coupon
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (${orderRef.sql}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
-        orderId,
+        ...orderRef.params,
         item.id,
         item.name,
         item.type,
@@ -279,48 +580,65 @@ export class OrdersService {
         item.instructions || null,
         item.kitchen_internal_name || null,
         item.coupon || null
-      ).run();
-
-      const itemId = result.meta.last_row_id as number;
-
-      // Insertar opciones del item
-      if (item.options && item.options.length > 0) {
-        for (const option of item.options) {
-          await this.db.prepare(`
-            INSERT INTO order_item_options (
-              order_item_id, gloriafood_id, name, group_name,
-              type, type_id, quantity, price, kitchen_internal_name
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `).bind(
-            itemId,
-            option.id,
-            option.name,
-            option.group_name || null,
-            option.type,
-            option.type_id || null,
-            option.quantity,
-            option.price,
-            option.kitchen_internal_name || null
-          ).run();
-        }
+      ));
+
+      // Opciones del item: apuntan al último item insertado con ese ID de GloriaFood
+      for (const option of item.options || []) {
+        statements.push(this.db.prepare(`
+          INSERT INTO order_item_options (
+            order_item_id, gloriafood_id, name, group_name,
+            type, type_id, quantity, price, kitchen_internal_name
+          ) VALUES (
+            (SELECT id FROM order_items WHERE order_id = ${orderRef.sql} AND gloriafood_id = ? ORDER BY id DESC LIMIT 1),
+            ?, ?, ?, ?, ?, ?, ?, ?
+          )
+        `).bind(
+          ...orderRef.params,
+          item.id,
+          option.id,
+          option.name,
+          option.group_name || null,
+          option.type,
+          option.type_id || null,
+          option.quantity,
+          option.price,
+          option.kitchen_internal_name || null
+        ));
       }
     }
+
+    // Items anidados (promociones): el padre puede llegar después que sus hijos
+    for (const item of items) {
+      if (!item.parent_id) continue;
+
+      statements.push(this.db.prepare(`
+        UPDATE order_items SET parent_id = (
+          SELECT p.id FROM order_items p
+          WHERE p.order_id = order_items.order_id AND p.gloriafood_id = ?
+          ORDER BY p.id DESC LIMIT 1
+        )
+        WHERE order_id = ${orderRef.sql} AND gloriafood_id = ?
+      `).bind(item.parent_id, ...orderRef.params, item.id));
+    }
+
+    return statements;
   }
 
   /**
-   * Inserta datos de facturación
+   * Construye el INSERT de los datos de facturación
    */
-  private async insertBillingDetails(orderId: number, billing: GloriaFoodOrder['billing_details']): Promise<void> {
-    if (!billing) return;
-
-    await this.db.prepare(`
+  private buildBillingDetailsStatement(
+    orderRef: BatchRef,
+    billing: NonNullable<GloriaFoodOrder['billing_details']>
+  ): D1PreparedStatement {
+    return this.db.prepare(`
       INSERT INTO billing_details (
         order_id, type, company_name, cui, reg_com,
         person_name, person_type, document_type, document_number,
         address, city, region, sector, country_code
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (${orderRef.sql}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
-      orderId,
+      ...orderRef.params,
       billing.type || null,
       billing.company_name || null,
       billing.cui || null,
@@ -334,42 +652,14 @@ export class OrdersService {
       billing.region || null,
       billing.sector || null,
       billing.country_code || null
-    ).run();
+    );
   }
 
   /**
    * Obtiene todos los pedidos con paginación
    */
-  async getOrders(page: number = 1, limit: number = 20, filters?: {
-    status?: string;
-    type?: 'pickup' | 'delivery';
-    dateFrom?: string;
-    dateTo?: string;
-    restaurantId?: number;
-  }): Promise<{ orders: Order[]; total: number }> {
-    let whereClause = '1=1';
-    const params: (string | number)[] = [];
-
-    if (filters?.status) {
-      whereClause += ' AND status = ?';
-      params.push(filters.status);
-    }
-    if (filters?.type) {
-      whereClause += ' AND type = ?';
-      params.push(filters.type);
-    }
-    if (filters?.dateFrom) {
-      whereClause += ' AND created_at >= ?';
-      params.push(filters.dateFrom);
-    }
-    if (filters?.dateTo) {
-      whereClause += ' AND created_at <= ?';
-      params.push(filters.dateTo);
-    }
-    if (filters?.restaurantId) {
-      whereClause += ' AND restaurant_id = ?';
-      params.push(filters.restaurantId);
-    }
+  async getOrders(page: number = 1, limit: number = 20, filters?: OrderFilters): Promise<{ orders: Order[]; total: number }> {
+    const { whereClause, params } = orderFilterClause(filters);
 
     // Contar total
     const countResult = await this.db.prepare(
@@ -388,23 +678,27 @@ export class OrdersService {
   }
 
   /**
-   * Obtiene un pedido por ID
+   * Obtiene un pedido por ID dentro de un restaurante
    */
-  async getOrderById(id: number): Promise<Order | null> {
-    return this.db.prepare('SELECT * FROM orders WHERE id = ?')
-      .bind(id).first<Order>();
+  async getOrderById(id: number, restaurantId: number): Promise<Order | null> {
+    return this.db.prepare('SELECT * FROM orders WHERE id = ? AND restaurant_id = ?')
+      .bind(id, restaurantId).first<Order>();
   }
 
   /**
-   * Obtiene un pedido completo con items y opciones
+   * Obtiene un pedido completo con items, opciones e historial de estados
    */
-  async getOrderWithDetails(id: number): Promise<{
+  async getOrderWithDetails(id: number, restaurantId: number): Promise<{
     order: Order;
-    items: any[];
+    items: OrderItemDetail[];
     client: any;
     billing: any;
+    taxes: OrderTaxDetail[];
+    coupons: string[];
+    history: OrderStatusHistory[];
+    price_discrepancies: PriceDiscrepancy[];
   } | null> {
-    const order = await this.getOrderById(id);
+    const order = await this.getOrderById(id, restaurantId);
     if (!order) return null;
 
     // Obtener items
@@ -416,10 +710,12 @@ export class OrdersService {
           'group_name', oio.group_name,
           'type', oio.type,
           'quantity', oio.quantity,
-          'price', oio.price
+          'price', oio.price,
+          'kitchen_internal_name', oio.kitchen_internal_name
         )) FROM order_item_options oio WHERE oio.order_item_id = oi.id) as options
       FROM order_items oi WHERE oi.order_id = ?
-    `).bind(id).all();
+      ORDER BY oi.id
+    `).bind(id).all<Omit<OrderItemDetail, 'options'> & { options: string | null }>();
 
     // Obtener cliente
     const client = order.client_id
@@ -431,25 +727,105 @@ export class OrdersService {
       'SELECT * FROM billing_details WHERE order_id = ?'
     ).bind(id).first();
 
+    // Obtener impuestos y cupones
+    const taxes = await this.db.prepare(
+      'SELECT type, rate, value FROM order_taxes WHERE order_id = ? ORDER BY id'
+    ).bind(id).all<OrderTaxDetail>();
+
+    const coupons = await this.db.prepare(
+      'SELECT coupon_code FROM order_coupons WHERE order_id = ? ORDER BY id'
+    ).bind(id).all<{ coupon_code: string }>();
+
+    // Obtener historial de estados
+    const history = await this.getStatusHistory(id);
+
+    // Diferencias de precio con el menú
+    const discrepancies = await this.db.prepare(`
+      SELECT item_gloriafood_id, type_id, entity_type, name, kind, expected, actual
+      FROM order_price_discrepancies WHERE order_id = ? ORDER BY id
+    `).bind(id).all<PriceDiscrepancy>();
+
     return {
       order,
       items: items.results.map(i => ({
         ...i,
-        options: i.options ? JSON.parse(i.options as string) : []
+        options: i.options ? JSON.parse(i.options) : []
       })),
       client,
-      billing
+      billing,
+      taxes: taxes.results,
+      coupons: coupons.results.map(c => c.coupon_code),
+      history,
+      price_discrepancies: discrepancies.results
     };
   }
 
   /**
-   * Actualiza el estado de un pedido
+   * Cambia el estado de un pedido siguiendo el ciclo de vida
+   */
+  async updateOrderStatus(
+    id: number,
+    status: OrderStatus,
+    restaurantId: number,
+    actor: string,
+    note: string | null = null
+  ): Promise<OrderStatusUpdateResult> {
+    const order = await this.getOrderById(id, restaurantId);
+    if (!order) return { result: 'not_found' };
+
+    const from = order.status;
+    const allowed = ORDER_STATUS_TRANSITIONS[from] || [];
+
+    // out_for_delivery solo aplica a pedidos a domicilio
+    const isAllowed = allowed.includes(status)
+      && !(status === 'out_for_delivery' && order.type !== 'delivery');
+
+    if (!isAllowed) {
+      return { result: 'invalid_transition', from, to: status, allowed };
+    }
+
+    // Solo actualiza si nadie ha cambiado el estado mientras tanto; el historial
+    // se registra en la misma transacción y solo si el UPDATE ha cambiado la fila
+    const [update] = await this.db.batch([
+      this.db.prepare(
+        'UPDATE orders SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND restaurant_id = ? AND status = ?'
+      ).bind(status, id, restaurantId, from),
+      this.db.prepare(`
+        INSERT INTO order_status_history (order_id, from_status, to_status, actor, note)
+        SELECT ?, ?, ?, ?, ? WHERE changes() > 0
+      `).bind(id, from, status, actor, note)
+    ]);
+
+    if (update.meta.changes === 0) {
+      return { result: 'invalid_transition', from, to: status, allowed };
+    }
+
+    const event: OrderFeedEvent = {
+      type: 'order.status_changed',
+      restaurant_id: restaurantId,
+      order_id: id,
+      gloriafood_id: order.gloriafood_id,
+      from,
+      to: status,
+      actor,
+      note,
+      at: new Date().toISOString()
+    };
+
+    await this.feed.publish(event);
+    await this.webhooks.dispatch(restaurantId, event.type, event);
+
+    return { result: 'updated', from, to: status };
+  }
+
+  /**
+   * Obtiene el historial de estados de un pedido
    */
-  async updateOrderStatus(id: number, status: string): Promise<boolean> {
-    const result = await this.db.prepare(
-      'UPDATE orders SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
-    ).bind(status, id).run();
+  async getStatusHistory(orderId: number): Promise<OrderStatusHistory[]> {
+    const history = await this.db.prepare(
+      'SELECT * FROM order_status_history WHERE order_id = ? ORDER BY created_at ASC, id ASC'
+    ).bind(orderId).all<OrderStatusHistory>();
 
-    return result.meta.changes > 0;
+    return history.results;
   }
 }
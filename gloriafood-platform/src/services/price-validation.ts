@@ -0,0 +1,282 @@
+import type {
+  Env,
+  GloriaFoodOrder,
+  Order,
+  OrderItem,
+  PriceDiscrepancy,
+  PriceDiscrepancyKind,
+  PriceValidationResult
+} from '../types';
+
+// Diferencia mínima (en moneda) que se considera una discrepancia
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Precio de un item, tamaño u opción en el menú sincronizado
+ */
+interface MenuPrice {
+  gloriafood_id: number;
+  price: number;
+  deleted_at: string | null;
+}
+
+type MenuPrices = Record<PriceDiscrepancy['entity_type'], Map<number, MenuPrice>>;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > PRICE_TOLERANCE;
+}
+
+/**
+ * Validación de los precios de los pedidos contra el menú sincronizado.
+ *
+ * Los pedidos ya están aceptados en GloriaFood, así que nunca se rechazan:
+ * las diferencias solo se marcan en el pedido y se guardan para el informe.
+ */
+export class PriceValidationService {
+  private db: D1Database;
+  private restaurantId: number;
+
+  constructor(env: Env, restaurantId: number) {
+    this.db = env.DB;
+    this.restaurantId = restaurantId;
+  }
+
+  /**
+   * Compara cada item y opción del pedido con el menú (por type_id) y recalcula
+   * los totales esperados según el tax_type (NET suma el impuesto, GROSS lo incluye)
+   */
+  async validate(order: GloriaFoodOrder): Promise<PriceValidationResult> {
+    const menu = await this.db.prepare(
+      'SELECT id FROM menus WHERE restaurant_id = ? LIMIT 1'
+    ).bind(this.restaurantId).first<{ id: number }>();
+
+    if (!menu) {
+      return {
+        status: 'unchecked',
+        expected_sub_total_price: null,
+        expected_tax_value: null,
+        expected_total_price: null,
+        discrepancies: []
+      };
+    }
+
+    const lines = order.items.filter(item => item.type === 'item');
+    const prices = await this.loadMenuPrices(lines);
+    const discrepancies: PriceDiscrepancy[] = [];
+    let subTotalDelta = 0;
+    let taxDelta = 0;
+
+    for (const line of lines) {
+      const flag = (
+        entityType: PriceDiscrepancy['entity_type'],
+        typeId: number | null,
+        name: string,
+        kind: PriceDiscrepancyKind,
+        expected: number | null,
+        actual: number | null
+      ) => {
+        discrepancies.push({
+          item_gloriafood_id: line.id,
+          type_id: typeId,
+          entity_type: entityType,
+          name,
+          kind,
+          expected,
+          actual
+        });
+      };
+
+      // Precio esperado de una unidad según el menú (el del pedido si no se encuentra)
+      const expectedPrice = (
+        entityType: PriceDiscrepancy['entity_type'],
+        typeId: number | undefined,
+        name: string,
+        actual: number
+      ): number => {
+        if (!typeId) return actual;
+
+        const menuPrice = prices[entityType].get(typeId);
+        if (!menuPrice) {
+          flag(entityType, typeId, name, 'not_in_menu', null, actual);
+          return actual;
+        }
+        if (menuPrice.deleted_at) {
+          flag(entityType, typeId, name, 'removed_from_menu', menuPrice.price, actual);
+        }
+        if (differs(menuPrice.price, actual)) {
+          flag(entityType, typeId, name, 'price', menuPrice.price, actual);
+        }
+        return menuPrice.price;
+      };
+
+      let unitPrice = line.price;
+      let expectedUnitPrice = expectedPrice('item', line.type_id, line.name, line.price);
+
+      for (const option of line.options || []) {
+        const entityType = option.type === 'size' ? 'size' : 'option';
+        unitPrice += option.price * option.quantity;
+        expectedUnitPrice += expectedPrice(entityType, option.type_id, option.name, option.price) * option.quantity;
+      }
+
+      // El total de la línea debe cuadrar con sus propios precios
+      const lineTotal = unitPrice * line.quantity;
+      if (Math.abs(lineTotal - line.total_item_price) > 0.01) {
+        flag('item', line.type_id ?? null, line.name, 'line_total', round2(lineTotal), line.total_item_price);
+      }
+
+      const delta = (expectedUnitPrice - unitPrice) * line.quantity;
+      subTotalDelta += delta;
+      taxDelta += this.taxOn(line, order, delta);
+    }
+
+    // En NET el impuesto de los items va aparte del subtotal; en GROSS ya está incluido
+    const totalDelta = order.tax_type === 'NET' ? subTotalDelta + taxDelta : subTotalDelta;
+
+    return {
+      status: discrepancies.length > 0 ? 'mismatch' : 'ok',
+      expected_sub_total_price: round2(order.sub_total_price + subTotalDelta),
+      expected_tax_value: round2(order.tax_value + taxDelta),
+      expected_total_price: round2(order.total_price + totalDelta),
+      discrepancies
+    };
+  }
+
+  /**
+   * Impuesto correspondiente a un importe de una línea según su tipo de impuesto
+   */
+  private taxOn(line: OrderItem, order: GloriaFoodOrder, amount: number): number {
+    const rate = line.tax_rate || 0;
+    const taxType = line.tax_type || order.tax_type;
+
+    return taxType === 'GROSS' ? amount * rate / (1 + rate) : amount * rate;
+  }
+
+  /**
+   * Carga del menú del restaurante los precios de los items, tamaños y opciones del pedido
+   * (incluidos los borrados, para poder avisar de ellos)
+   */
+  private async loadMenuPrices(lines: OrderItem[]): Promise<MenuPrices> {
+    const ids: Record<PriceDiscrepancy['entity_type'], number[]> = { item: [], size: [], option: [] };
+
+    for (const line of lines) {
+      if (line.type_id) ids.item.push(line.type_id);
+      for (const option of line.options || []) {
+        if (option.type_id) ids[option.type === 'size' ? 'size' : 'option'].push(option.type_id);
+      }
+    }
+
+    // Las filas vigentes van al final para que prevalezcan sobre las borradas
+    const queries: Record<PriceDiscrepancy['entity_type'], (placeholders: string) => string> = {
+      item: (placeholders) => `
+        SELECT mi.gloriafood_id, mi.price, mi.deleted_at FROM menu_items mi
+        INNER JOIN menu_categories mc ON mi.category_id = mc.id
+        INNER JOIN menus m ON mc.menu_id = m.id
+        WHERE m.restaurant_id = ? AND mi.gloriafood_id IN (${placeholders})
+        ORDER BY mi.deleted_at IS NULL`,
+      size: (placeholders) => `
+        SELECT s.gloriafood_id, s.price, s.deleted_at FROM menu_item_sizes s
+        INNER JOIN menu_items mi ON s.item_id = mi.id
+        INNER JOIN menu_categories mc ON mi.category_id = mc.id
+        INNER JOIN menus m ON mc.menu_id = m.id
+        WHERE m.restaurant_id = ? AND s.gloriafood_id IN (${placeholders})
+        ORDER BY s.deleted_at IS NULL`,
+      option: (placeholders) => `
+        SELECT o.gloriafood_id, o.price, o.deleted_at FROM menu_options o
+        INNER JOIN menu_option_groups og ON o.option_group_id = og.id
+        INNER JOIN menus m ON og.menu_id = m.id
+        WHERE m.restaurant_id = ? AND o.gloriafood_id IN (${placeholders})
+        ORDER BY o.deleted_at IS NULL`
+    };
+
+    const prices: MenuPrices = { item: new Map(), size: new Map(), option: new Map() };
+
+    await Promise.all((Object.keys(queries) as PriceDiscrepancy['entity_type'][]).map(async (entityType) => {
+      const typeIds = [...new Set(ids[entityType])];
+      if (typeIds.length === 0) return;
+
+      const rows = await this.db.prepare(queries[entityType](typeIds.map(() => '?').join(', ')))
+        .bind(this.restaurantId, ...typeIds).all<MenuPrice>();
+
+      for (const row of rows.results) {
+        prices[entityType].set(row.gloriafood_id, row);
+      }
+    }));
+
+    return prices;
+  }
+
+  /**
+   * Informe de pedidos con discrepancias de precio
+   */
+  async getDiscrepancies(page: number = 1, limit: number = 20, filters?: {
+    kind?: string;
+    dateFrom?: string;
+    dateTo?: string;
+  }): Promise<{
+    orders: (Pick<Order, 'id' | 'gloriafood_id' | 'total_price' | 'expected_total_price' | 'currency' | 'created_at'>
+      & { discrepancies: PriceDiscrepancy[] })[];
+    total: number;
+    summary: { kind: PriceDiscrepancyKind; orders: number; lines: number }[];
+  }> {
+    let whereClause = "o.restaurant_id = ? AND o.price_check = 'mismatch'";
+    const params: (string | number)[] = [this.restaurantId];
+
+    if (filters?.dateFrom) {
+      whereClause += ' AND o.created_at >= ?';
+      params.push(filters.dateFrom);
+    }
+    if (filters?.dateTo) {
+      whereClause += ' AND o.created_at <= ?';
+      params.push(filters.dateTo);
+    }
+    if (filters?.kind) {
+      whereClause += ' AND EXISTS (SELECT 1 FROM order_price_discrepancies d WHERE d.order_id = o.id AND d.kind = ?)';
+      params.push(filters.kind);
+    }
+
+    const countResult = await this.db.prepare(
+      `SELECT COUNT(*) as total FROM orders o WHERE ${whereClause}`
+    ).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const orders = await this.db.prepare(`
+      SELECT o.id, o.gloriafood_id, o.total_price, o.expected_total_price, o.currency, o.created_at,
+        (SELECT json_group_array(json_object(
+          'item_gloriafood_id', d.item_gloriafood_id,
+          'type_id', d.type_id,
+          'entity_type', d.entity_type,
+          'name', d.name,
+          'kind', d.kind,
+          'expected', d.expected,
+          'actual', d.actual
+        )) FROM order_price_discrepancies d WHERE d.order_id = o.id) as discrepancies
+      FROM orders o
+      WHERE ${whereClause}
+      ORDER BY o.created_at DESC, o.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<Order & { discrepancies: string }>();
+
+    // Resumen por tipo de discrepancia de todos los pedidos del filtro
+    const summary = await this.db.prepare(`
+      SELECT d.kind, COUNT(DISTINCT d.order_id) as orders, COUNT(*) as lines
+      FROM order_price_discrepancies d
+      INNER JOIN orders o ON d.order_id = o.id
+      WHERE ${whereClause}
+      GROUP BY d.kind
+      ORDER BY lines DESC
+    `).bind(...params).all<{ kind: PriceDiscrepancyKind; orders: number; lines: number }>();
+
+    return {
+      orders: orders.results.map(order => ({
+        ...order,
+        discrepancies: JSON.parse(order.discrepancies)
+      })),
+      total: countResult?.total || 0,
+      summary: summary.results
+    };
+  }
+}
@@ -0,0 +1,368 @@
+import type {
+  Env, Client, ClientConsentChange, ClientErasure, ClientErasureResult, ClientMerge, ClientSegmentRecord
+} from '../types';
+import { ClientsService, consentChangeStatement } from './clients';
+import { OrdersService } from './orders';
+
+// Pedidos por batch al borrar sus datos (D1 admite hasta 100 parámetros por sentencia)
+const WRITE_BATCH_SIZE = 50;
+
+// Datos tachados por sentencia en los payloads (dos parámetros por dato)
+const REDACT_BATCH_SIZE = 20;
+
+// Longitud mínima de un dato para buscarlo y tacharlo en los payloads guardados
+// (valores más cortos tacharían texto que no es del cliente)
+const MIN_REDACTED_LENGTH = 5;
+
+const REDACTED = '[redacted]';
+
+// Campos personales del JSON original de un pedido
+const PAYLOAD_CLIENT_FIELDS = [
+  'client_first_name', 'client_last_name', 'client_email', 'client_phone', 'client_address',
+  'client_address_parts', 'client_ip_address', 'latitude', 'longitude', 'instructions'
+];
+
+const PAYLOAD_BILLING_FIELDS = ['person_name', 'document_type', 'document_number'];
+
+// Dirección de facturación: se conserva en facturas a empresa (no es un dato personal)
+const PAYLOAD_BILLING_ADDRESS_FIELDS = ['address', 'city', 'region', 'sector'];
+
+// Tablas con payloads completos (webhooks recibidos, fallidos, enviados y logs)
+const PAYLOAD_COLUMNS = [
+  { table: 'webhook_payloads', column: 'raw_payload' },
+  { table: 'dead_letter_orders', column: 'payload' },
+  { table: 'webhook_deliveries', column: 'payload' },
+  { table: 'webhook_logs', column: 'payload' }
+];
+
+/**
+ * JSON original del pedido sin los datos personales del cliente
+ */
+function scrubOrderPayload(rawPayload: string | null): string | null {
+  if (!rawPayload) return null;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawPayload);
+  } catch {
+    return null;
+  }
+
+  for (const field of PAYLOAD_CLIENT_FIELDS) delete payload[field];
+
+  for (const item of payload.items || []) delete item.instructions;
+
+  const billing = payload.billing_details;
+  if (billing) {
+    for (const field of PAYLOAD_BILLING_FIELDS) delete billing[field];
+    if (billing.type !== 'company') {
+      for (const field of PAYLOAD_BILLING_ADDRESS_FIELDS) delete billing[field];
+    }
+  }
+
+  return JSON.stringify(payload);
+}
+
+/**
+ * Cliente fusionado guardado en el historial de fusiones, sin datos personales
+ */
+function scrubMergeSnapshot(snapshot: string): string {
+  try {
+    const client = JSON.parse(snapshot);
+    for (const field of ['gloriafood_id', 'first_name', 'last_name', 'email', 'phone', 'email_normalized', 'phone_normalized']) {
+      client[field] = null;
+    }
+    return JSON.stringify(client);
+  } catch {
+    return '{}';
+  }
+}
+
+/**
+ * Derechos de acceso y de supresión de los clientes (RGPD).
+ *
+ * El cliente es común a todos los restaurantes: la exportación incluye los
+ * pedidos del restaurante que la pide, pero el borrado anonimiza al cliente y
+ * todos sus pedidos. Se incluyen los clientes que se fusionaron en él.
+ */
+export class PrivacyService {
+  private env: Env;
+  private db: D1Database;
+  private restaurantId: number;
+
+  constructor(env: Env, restaurantId: number) {
+    this.env = env;
+    this.db = env.DB;
+    this.restaurantId = restaurantId;
+  }
+
+  /**
+   * Todos los datos que se guardan de un cliente, con el JSON original de cada pedido
+   */
+  async exportClientData(clientId: number): Promise<{
+    exported_at: string;
+    client: Client;
+    merged_clients: Client[];
+    addresses: any[];
+    consent_history: ClientConsentChange[];
+    segments: ClientSegmentRecord[];
+    merges: ClientMerge[];
+    orders: any[];
+  } | null> {
+    const clientsService = new ClientsService(this.env, this.restaurantId);
+    const client = await clientsService.getClientById(clientId);
+    if (!client) return null;
+
+    const mergedClients = await this.db.prepare(
+      'SELECT * FROM clients WHERE merged_into_id = ? ORDER BY id'
+    ).bind(clientId).all<Client>();
+
+    const ids = [clientId, ...mergedClients.results.map(merged => merged.id)];
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const addresses = await this.db.prepare(
+      `SELECT * FROM client_addresses WHERE client_id IN (${placeholders}) ORDER BY id`
+    ).bind(...ids).all();
+
+    const consentHistory = (await Promise.all(ids.map(id => clientsService.getConsentHistory(id)))).flat();
+
+    const segments = await this.db.prepare(
+      'SELECT * FROM client_segments WHERE client_id = ? AND restaurant_id = ?'
+    ).bind(clientId, this.restaurantId).all<Omit<ClientSegmentRecord, 'churn_risk'> & { churn_risk: number }>();
+
+    const orders = await this.db.prepare(
+      'SELECT id FROM orders WHERE client_id = ? AND restaurant_id = ? ORDER BY id'
+    ).bind(clientId, this.restaurantId).all<{ id: number }>();
+
+    const ordersService = new OrdersService(this.env);
+    const orderDetails = [];
+    for (const order of orders.results) {
+      const details = await ordersService.getOrderWithDetails(order.id, this.restaurantId);
+      if (!details) continue;
+
+      const { client: _client, ...rest } = details;
+      let rawPayload: unknown = details.order.raw_payload ?? null;
+      try {
+        rawPayload = rawPayload ? JSON.parse(rawPayload as string) : null;
+      } catch {
+        // Payload antiguo que no es JSON: se devuelve tal cual
+      }
+      orderDetails.push({ ...rest, order: { ...details.order, raw_payload: rawPayload } });
+    }
+
+    return {
+      exported_at: new Date().toISOString(),
+      client,
+      merged_clients: mergedClients.results,
+      addresses: addresses.results,
+      consent_history: consentHistory,
+      segments: segments.results.map(segment => ({ ...segment, churn_risk: !!segment.churn_risk })),
+      merges: await clientsService.getMerges(clientId),
+      orders: orderDetails
+    };
+  }
+
+  /**
+   * Anonimiza al cliente (y a los clientes fusionados en él). Los pedidos, sus
+   * importes e impuestos se conservan para la contabilidad, sin datos personales.
+   */
+  async eraseClient(clientId: number): Promise<ClientErasureResult> {
+    const client = await new ClientsService(this.env, this.restaurantId).getClientById(clientId);
+    if (!client) return { result: 'not_found' };
+    if (client.anonymized_at) return { result: 'already_anonymized', anonymized_at: client.anonymized_at };
+
+    const clients = await this.db.prepare(
+      'SELECT * FROM clients WHERE id = ? OR merged_into_id = ?'
+    ).bind(clientId, clientId).all<Client>();
+
+    const ids = clients.results.map(row => row.id);
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const orders = await this.db.prepare(
+      `SELECT id, delivery_address, raw_payload FROM orders WHERE client_id IN (${placeholders})`
+    ).bind(...ids).all<{ id: number; delivery_address: string | null; raw_payload: string | null }>();
+
+    const orderIds = orders.results.map(order => order.id);
+
+    // Datos que pueden aparecer en los payloads guardados, antes de borrarlos
+    const identifiers = await this.collectIdentifiers(clients.results, orders.results);
+
+    const erasure: ClientErasure = {
+      client_id: clientId,
+      clients_anonymized: 0,
+      orders_scrubbed: 0,
+      addresses_deleted: 0,
+      billing_details_scrubbed: 0,
+      payloads_scrubbed: 0
+    };
+
+    // Pedidos: dirección, coordenadas, instrucciones y JSON original
+    const orderStatements = orders.results.map(order => this.db.prepare(`
+      UPDATE orders SET
+        delivery_address = NULL,
+        delivery_latitude = NULL,
+        delivery_longitude = NULL,
+        instructions = NULL,
+        raw_payload = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(scrubOrderPayload(order.raw_payload), order.id));
+
+    for (let i = 0; i < orderIds.length; i += WRITE_BATCH_SIZE) {
+      const chunk = orderIds.slice(i, i + WRITE_BATCH_SIZE);
+      const chunkPlaceholders = chunk.map(() => '?').join(', ');
+
+      const results = await this.db.batch([
+        ...orderStatements.slice(i, i + WRITE_BATCH_SIZE),
+        this.db.prepare(
+          `UPDATE order_items SET instructions = NULL WHERE order_id IN (${chunkPlaceholders})`
+        ).bind(...chunk),
+        this.db.prepare(`
+          UPDATE billing_details SET
+            person_name = NULL,
+            document_type = NULL,
+            document_number = NULL,
+            address = CASE WHEN type = 'company' THEN address ELSE NULL END,
+            city = CASE WHEN type = 'company' THEN city ELSE NULL END,
+            region = CASE WHEN type = 'company' THEN region ELSE NULL END,
+            sector = CASE WHEN type = 'company' THEN sector ELSE NULL END
+          WHERE order_id IN (${chunkPlaceholders})
+        `).bind(...chunk)
+      ]);
+
+      erasure.orders_scrubbed += chunk.length;
+      erasure.billing_details_scrubbed += results[results.length - 1].meta.changes;
+    }
+
+    // Clientes, direcciones e historial de fusiones
+    const clientResults = await this.db.batch([
+      ...ids.map(id => consentChangeStatement(this.db, {
+        clientId: id,
+        restaurantId: this.restaurantId,
+        consent: false,
+        source: 'erasure'
+      })),
+      this.db.prepare(`DELETE FROM client_addresses WHERE client_id IN (${placeholders})`).bind(...ids),
+      this.db.prepare(`
+        UPDATE clients SET
+          gloriafood_id = NULL,
+          first_name = NULL,
+          last_name = NULL,
+          email = NULL,
+          phone = NULL,
+          email_normalized = NULL,
+          phone_normalized = NULL,
+          marketing_consent = 0,
+          anonymized_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (${placeholders})
+      `).bind(...ids),
+      // El log de auditoría conserva qué campos cambiaron, pero no sus valores
+      this.db.prepare(`
+        UPDATE audit_log SET changes = (
+          SELECT json_group_object(key, json_object('before', '${REDACTED}', 'after', '${REDACTED}'))
+          FROM json_each(audit_log.changes)
+        )
+        WHERE entity_type = 'client' AND entity_id IN (${placeholders}) AND changes IS NOT NULL
+      `).bind(...ids)
+    ]);
+
+    erasure.addresses_deleted = clientResults[ids.length].meta.changes;
+    erasure.clients_anonymized = clientResults[ids.length + 1].meta.changes;
+
+    const merges = await this.db.prepare(
+      `SELECT id, merged_snapshot FROM client_merges WHERE merged_id IN (${placeholders})`
+    ).bind(...ids).all<{ id: number; merged_snapshot: string }>();
+
+    if (merges.results.length > 0) {
+      await this.db.batch(merges.results.map(merge => this.db.prepare(
+        'UPDATE client_merges SET merged_snapshot = ? WHERE id = ?'
+      ).bind(scrubMergeSnapshot(merge.merged_snapshot), merge.id)));
+    }
+
+    erasure.payloads_scrubbed = await this.redactPayloads(identifiers);
+
+    return { result: 'erased', erasure };
+  }
+
+  /**
+   * Email, teléfono, nombre, direcciones, documentos e IP del cliente
+   */
+  private async collectIdentifiers(
+    clients: Client[],
+    orders: { id: number; delivery_address: string | null; raw_payload: string | null }[]
+  ): Promise<string[]> {
+    const values: (string | null | undefined)[] = [];
+
+    for (const client of clients) {
+      values.push(client.email, client.phone);
+      values.push([client.first_name, client.last_name].filter(Boolean).join(' '));
+    }
+
+    const ids = clients.map(client => client.id);
+    const addresses = await this.db.prepare(
+      `SELECT full_address, street FROM client_addresses WHERE client_id IN (${ids.map(() => '?').join(', ')})`
+    ).bind(...ids).all<{ full_address: string | null; street: string | null }>();
+
+    for (const address of addresses.results) values.push(address.full_address, address.street);
+
+    for (const order of orders) {
+      values.push(order.delivery_address);
+      try {
+        const payload = order.raw_payload ? JSON.parse(order.raw_payload) : null;
+        if (!payload) continue;
+        values.push(
+          payload.client_email,
+          payload.client_phone,
+          payload.client_address,
+          payload.client_ip_address,
+          payload.client_address_parts?.street,
+          payload.billing_details?.person_name,
+          payload.billing_details?.document_number
+        );
+      } catch {
+        // Sin JSON original no hay más datos que buscar
+      }
+    }
+
+    const identifiers = new Set<string>();
+    for (const value of values) {
+      if (typeof value !== 'string' || value.trim().length < MIN_REDACTED_LENGTH) continue;
+      identifiers.add(value.trim());
+      // Forma escapada dentro de un JSON (comillas, barras, caracteres no ASCII...)
+      const escaped = JSON.stringify(value.trim()).slice(1, -1);
+      if (escaped !== value.trim()) identifiers.add(escaped);
+    }
+
+    // Primero los más largos, para no dejar restos de un dato que contiene a otro
+    return [...identifiers].sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Tacha los datos del cliente en los payloads de webhooks y logs.
+   * Devuelve el número de filas modificadas.
+   */
+  private async redactPayloads(identifiers: string[]): Promise<number> {
+    if (identifiers.length === 0) return 0;
+
+    const scrubbed = new Set<string>();
+    for (const { table, column } of PAYLOAD_COLUMNS) {
+      for (let i = 0; i < identifiers.length; i += REDACT_BATCH_SIZE) {
+        const chunk = identifiers.slice(i, i + REDACT_BATCH_SIZE);
+        const replaced = chunk.reduce(
+          (expression) => `REPLACE(${expression}, ?, '${REDACTED}')`,
+          column
+        );
+        const matches = chunk.map(() => `instr(${column}, ?) > 0`).join(' OR ');
+
+        const rows = await this.db.prepare(
+          `UPDATE ${table} SET ${column} = ${replaced} WHERE ${matches} RETURNING id`
+        ).bind(...chunk, ...chunk).all<{ id: number }>();
+
+        for (const row of rows.results) scrubbed.add(`${table}:${row.id}`);
+      }
+    }
+
+    return scrubbed.size;
+  }
+}
@@ -0,0 +1,227 @@
+import type { Env, Restaurant, TaxReport, TaxReportLine, TaxReportTotals } from '../types';
+import { addDays, localTimeSql, resolveTimezone, startOfLocalDay, toSqlTimestamp } from './timezone';
+
+/**
+ * Impuesto de un pedido tal como se agrega en el informe
+ */
+interface TaxRow {
+  order_id: number;
+  date: string;
+  tax_model: 'NET' | 'GROSS';
+  type: string;
+  rate: number;
+  value: number;
+  amount: number; // Importe de las líneas con ese tipo y tipo impositivo (con descuentos)
+}
+
+// Columnas del CSV del informe de impuestos
+const TAX_CSV_COLUMNS: (keyof TaxReportLine)[] = [
+  'date', 'tax_model', 'type', 'rate', 'orders', 'taxable_base', 'tax', 'gross'
+];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Texto que una hoja de cálculo no interpretará como fórmula (inyección CSV):
+ * si empieza por =, +, -, @, tabulador o retorno de carro se antepone un apóstrofo
+ */
+export function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Línea CSV (RFC 4180, con CRLF final). Los textos se neutralizan como fórmulas;
+ * los números se escriben tal cual.
+ */
+export function csvLine(values: unknown[]): string {
+  const escape = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'string' ? neutralizeFormula(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return values.map(escape).join(',') + '\r\n';
+}
+
+/**
+ * Convierte filas a CSV (RFC 4180)
+ */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  return [
+    csvLine(columns),
+    ...rows.map(row => csvLine(columns.map(column => row[column])))
+  ].join('');
+}
+
+/**
+ * Acumula impuestos contando cada pedido una sola vez
+ */
+class TaxAccumulator {
+  private orders = new Set<number>();
+  private base = 0;
+  private tax = 0;
+
+  add(row: TaxRow): void {
+    this.orders.add(row.order_id);
+    this.tax += row.value;
+    // En NET el importe de las líneas es la base; en GROSS ya incluye el impuesto
+    this.base += row.tax_model === 'GROSS' ? row.amount / (1 + row.rate) : row.amount;
+  }
+
+  totals(): TaxReportTotals {
+    return {
+      orders: this.orders.size,
+      taxable_base: round2(this.base),
+      tax: round2(this.tax),
+      gross: round2(this.base + this.tax)
+    };
+  }
+}
+
+/**
+ * Servicio de informes fiscales de un restaurante
+ */
+export class ReportsService {
+  private db: D1Database;
+  private restaurant: Restaurant;
+
+  constructor(env: Env, restaurant: Restaurant) {
+    this.db = env.DB;
+    this.restaurant = restaurant;
+  }
+
+  /**
+   * Informe de impuestos entre dos días locales del restaurante (ambos incluidos).
+   *
+   * Cada pedido cuenta en el día local de su aceptación. El impuesto es el del
+   * tax_list del pedido y, si no lo trae, el de sus líneas; la base sale siempre
+   * del importe de las líneas, así que también se informan las bases al 0 %.
+   * Los pedidos cancelados o reembolsados no se incluyen.
+   */
+  async getTaxReport(from: string, to: string): Promise<TaxReport> {
+    const timezone = resolveTimezone(this.restaurant.timezone);
+    const start = startOfLocalDay(timezone, from);
+    const end = startOfLocalDay(timezone, addDays(to, 1));
+
+    const basis = 'COALESCE(o.accepted_at, o.created_at)';
+    const localTime = localTimeSql(basis, timezone, start, end);
+
+    const rows = await this.db.prepare(`
+      WITH report_orders AS (
+        SELECT o.id, DATE(${localTime.sql}) as date, o.tax_type
+        FROM orders o
+        WHERE o.restaurant_id = ?
+          AND o.status NOT IN ('cancelled', 'refunded')
+          AND datetime(${basis}) >= ? AND datetime(${basis}) < ?
+      ),
+      -- Importe e impuesto de las líneas por tipo y tipo impositivo (las promociones
+      -- ya van descontadas en item_discount y cart_discount de cada línea), con el
+      -- modelo de las líneas si lo traen (la propina llega como GROSS en pedidos NET)
+      lines AS (
+        SELECT oi.order_id,
+          CASE oi.type
+            WHEN 'service_fee_subtotal' THEN 'fees_discounts_subtotal'
+            WHEN 'cash_discount' THEN 'fees_discounts_subtotal'
+            ELSE oi.type
+          END as type,
+          oi.tax_rate as rate,
+          SUM(oi.total_price - oi.item_discount - oi.cart_discount) as amount,
+          SUM(oi.tax_value) as value,
+          MAX(oi.tax_type) as tax_type
+        FROM order_items oi
+        INNER JOIN report_orders ro ON oi.order_id = ro.id
+        WHERE oi.type IN ('item', 'delivery_fee', 'tip', 'service_fee_subtotal', 'cash_discount', 'service_fee_total')
+        GROUP BY 1, 2, 3
+      )
+      SELECT
+        t.order_id,
+        ro.date,
+        CASE WHEN COALESCE(t.tax_type, ro.tax_type) = 'GROSS' THEN 'GROSS' ELSE 'NET' END as tax_model,
+        t.type,
+        t.rate,
+        t.value,
+        t.amount
+      FROM (
+        -- Impuesto del tax_list con el importe de sus líneas
+        SELECT ot.order_id, ot.type, ot.rate, ot.value, COALESCE(l.amount, 0) as amount, l.tax_type
+        FROM order_taxes ot
+        LEFT JOIN lines l ON l.order_id = ot.order_id AND l.type = ot.type AND l.rate = ot.rate
+        UNION ALL
+        -- Líneas sin entrada en el tax_list (pedidos sin tax_list y tipos al 0 %)
+        SELECT l.order_id, l.type, l.rate, l.value, l.amount, l.tax_type
+        FROM lines l
+        WHERE NOT EXISTS (
+          SELECT 1 FROM order_taxes ot WHERE ot.order_id = l.order_id AND ot.type = l.type AND ot.rate = l.rate
+        )
+      ) t
+      INNER JOIN report_orders ro ON t.order_id = ro.id
+      ORDER BY ro.date, t.type, t.rate
+    `).bind(
+      ...localTime.params,
+      this.restaurant.id,
+      toSqlTimestamp(start),
+      toSqlTimestamp(end)
+    ).all<TaxRow>();
+
+    const total = new TaxAccumulator();
+    const groups = {
+      rate: new Map<number, TaxAccumulator>(),
+      type: new Map<string, TaxAccumulator>(),
+      model: new Map<'NET' | 'GROSS', TaxAccumulator>(),
+      day: new Map<string, TaxAccumulator>(),
+      line: new Map<string, { key: Pick<TaxReportLine, 'date' | 'tax_model' | 'type' | 'rate'>; acc: TaxAccumulator }>()
+    };
+
+    const accumulator = <K>(map: Map<K, TaxAccumulator>, key: K): TaxAccumulator => {
+      let acc = map.get(key);
+      if (!acc) {
+        acc = new TaxAccumulator();
+        map.set(key, acc);
+      }
+      return acc;
+    };
+
+    for (const row of rows.results) {
+      total.add(row);
+      accumulator(groups.rate, row.rate).add(row);
+      accumulator(groups.type, row.type).add(row);
+      accumulator(groups.model, row.tax_model).add(row);
+      accumulator(groups.day, row.date).add(row);
+
+      const lineKey = [row.date, row.tax_model, row.type, row.rate].join('|');
+      let line = groups.line.get(lineKey);
+      if (!line) {
+        line = {
+          key: { date: row.date, tax_model: row.tax_model, type: row.type, rate: row.rate },
+          acc: new TaxAccumulator()
+        };
+        groups.line.set(lineKey, line);
+      }
+      line.acc.add(row);
+    }
+
+    return {
+      restaurant_id: this.restaurant.id,
+      timezone,
+      currency: this.restaurant.currency,
+      from,
+      to,
+      totals: total.totals(),
+      by_rate: [...groups.rate].map(([rate, acc]) => ({ rate, ...acc.totals() })).sort((a, b) => a.rate - b.rate),
+      by_type: [...groups.type].map(([type, acc]) => ({ type, ...acc.totals() })),
+      by_model: [...groups.model].map(([taxModel, acc]) => ({ tax_model: taxModel, ...acc.totals() })),
+      by_day: [...groups.day].map(([date, acc]) => ({ date, ...acc.totals() })),
+      lines: [...groups.line.values()].map(line => ({ ...line.key, ...line.acc.totals() }))
+    };
+  }
+
+  /**
+   * Informe de impuestos en CSV (una fila por día, modelo, tipo y tipo impositivo)
+   */
+  async getTaxReportCsv(from: string, to: string): Promise<string> {
+    const report = await this.getTaxReport(from, to);
+    return toCsv(report.lines, TAX_CSV_COLUMNS);
+  }
+}
@@ -0,0 +1,185 @@
+import type { Env, GloriaFoodOrder, Restaurant, RestaurantInput } from '../types';
+
+// Columnas públicas (la secret_key nunca sale del servidor)
+const PUBLIC_COLUMNS = `
+  id, gloriafood_id, restaurant_key, name, timezone, currency, active,
+  CASE WHEN secret_key IS NOT NULL AND secret_key != '' THEN 1 ELSE 0 END as has_secret_key,
+  created_at, updated_at
+`;
+
+/**
+ * Servicio para gestión de restaurantes (multi-restaurante)
+ */
+export class RestaurantsService {
+  private db: D1Database;
+
+  constructor(env: Env) {
+    this.db = env.DB;
+  }
+
+  /**
+   * Obtiene todos los restaurantes
+   */
+  async getRestaurants(): Promise<Restaurant[]> {
+    const restaurants = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM restaurants ORDER BY name`
+    ).all<Restaurant>();
+
+    return restaurants.results;
+  }
+
+  /**
+   * Obtiene un restaurante por ID interno
+   */
+  async getRestaurantById(id: number): Promise<Restaurant | null> {
+    return this.db.prepare(`SELECT ${PUBLIC_COLUMNS} FROM restaurants WHERE id = ?`)
+      .bind(id).first<Restaurant>();
+  }
+
+  /**
+   * Obtiene un restaurante por su restaurant_key de GloriaFood
+   */
+  async getRestaurantByKey(restaurantKey: string): Promise<Restaurant | null> {
+    return this.db.prepare(`SELECT ${PUBLIC_COLUMNS} FROM restaurants WHERE restaurant_key = ?`)
+      .bind(restaurantKey).first<Restaurant>();
+  }
+
+  /**
+   * Resuelve un restaurante a partir de restaurant_id o restaurant_key
+   */
+  async resolveRestaurant(restaurantId?: string, restaurantKey?: string): Promise<Restaurant | null> {
+    if (restaurantId) {
+      const id = parseInt(restaurantId);
+      return Number.isNaN(id) ? null : this.getRestaurantById(id);
+    }
+    if (restaurantKey) {
+      return this.getRestaurantByKey(restaurantKey);
+    }
+    return null;
+  }
+
+  /**
+   * Obtiene los restaurantes activos con secret key (para polling y menú)
+   */
+  async getSyncableRestaurants(): Promise<Restaurant[]> {
+    const restaurants = await this.db.prepare(`
+      SELECT ${PUBLIC_COLUMNS} FROM restaurants
+      WHERE active = 1 AND secret_key IS NOT NULL AND secret_key != ''
+      ORDER BY id
+    `).all<Restaurant>();
+
+    return restaurants.results;
+  }
+
+  /**
+   * Obtiene los restaurantes activos
+   */
+  async getActiveRestaurants(): Promise<Restaurant[]> {
+    const restaurants = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM restaurants WHERE active = 1 ORDER BY id`
+    ).all<Restaurant>();
+
+    return restaurants.results;
+  }
+
+  /**
+   * Obtiene la secret key de GloriaFood de un restaurante
+   */
+  async getSecretKey(id: number): Promise<string | null> {
+    const result = await this.db.prepare(
+      'SELECT secret_key FROM restaurants WHERE id = ?'
+    ).bind(id).first<{ secret_key: string | null }>();
+
+    return result?.secret_key || null;
+  }
+
+  /**
+   * Crea un restaurante
+   */
+  async createRestaurant(data: RestaurantInput): Promise<number> {
+    const result = await this.db.prepare(`
+      INSERT INTO restaurants (
+        gloriafood_id, restaurant_key, name, timezone, currency, active, secret_key
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      data.gloriafood_id || null,
+      data.restaurant_key,
+      data.name,
+      data.timezone || 'UTC',
+      data.currency || 'USD',
+      data.active === false ? 0 : 1,
+      data.secret_key || null
+    ).run();
+
+    return result.meta.last_row_id as number;
+  }
+
+  /**
+   * Actualiza un restaurante
+   */
+  async updateRestaurant(id: number, data: RestaurantInput): Promise<boolean> {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (data.gloriafood_id !== undefined) {
+      fields.push('gloriafood_id = ?');
+      values.push(data.gloriafood_id);
+    }
+    if (data.restaurant_key !== undefined) {
+      fields.push('restaurant_key = ?');
+      values.push(data.restaurant_key);
+    }
+    if (data.name !== undefined) {
+      fields.push('name = ?');
+      values.push(data.name);
+    }
+    if (data.timezone !== undefined) {
+      fields.push('timezone = ?');
+      values.push(data.timezone);
+    }
+    if (data.currency !== undefined) {
+      fields.push('currency = ?');
+      values.push(data.currency);
+    }
+    if (data.active !== undefined) {
+      fields.push('active = ?');
+      values.push(data.active ? 1 : 0);
+    }
+    if (data.secret_key !== undefined) {
+      fields.push('secret_key = ?');
+      values.push(data.secret_key || null);
+    }
+
+    if (fields.length === 0) return false;
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const result = await this.db.prepare(
+      `UPDATE restaurants SET ${fields.join(', ')} WHERE id = ?`
+    ).bind(...values).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Obtiene o crea el restaurante de un pedido recibido
+   */
+  async getOrCreateRestaurant(order: GloriaFoodOrder): Promise<number> {
+    const existing = await this.db.prepare(
+      'SELECT id FROM restaurants WHERE restaurant_key = ?'
+    ).bind(order.restaurant_key).first<{ id: number }>();
+
+    if (existing) {
+      return existing.id;
+    }
+
+    return this.createRestaurant({
+      gloriafood_id: order.restaurant_id,
+      restaurant_key: order.restaurant_key,
+      name: order.restaurant_name,
+      timezone: order.restaurant_timezone || 'UTC',
+      currency: order.currency
+    });
+  }
+}
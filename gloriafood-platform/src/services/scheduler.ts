@@ -0,0 +1,175 @@
+import type { Env, Restaurant } from '../types';
+import { GloriaFoodClient } from './gloriafood-client';
+import { IngestionService } from './ingestion';
+import { MenuService } from './menu';
+import { RestaurantsService } from './restaurants';
+import { SegmentsService } from './segments';
+
+// Expresiones cron configuradas en wrangler.toml
+export const ORDER_POLL_CRON = '* * * * *';
+export const MENU_SYNC_CRON = '0 */6 * * *';
+export const CLIENT_SEGMENTS_CRON = '30 3 * * *';
+
+/**
+ * Resultado de un trabajo programado para un restaurante
+ */
+interface RestaurantRunResult {
+  restaurant_id: number;
+  success: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Servicio de trabajos programados (polling de pedidos, sincronización de menús
+ * y segmentación de clientes)
+ */
+export class SchedulerService {
+  private env: Env;
+  private db: D1Database;
+  private restaurants: RestaurantsService;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.db = env.DB;
+    this.restaurants = new RestaurantsService(env);
+  }
+
+  /**
+   * Ejecuta el trabajo asociado a una expresión cron
+   */
+  async run(cron: string): Promise<void> {
+    switch (cron) {
+      case ORDER_POLL_CRON:
+        await this.pollOrders(cron);
+        break;
+      case MENU_SYNC_CRON:
+        await this.syncMenus(cron);
+        break;
+      case CLIENT_SEGMENTS_CRON:
+        await this.computeClientSegments(cron);
+        break;
+      default:
+        console.warn(`No scheduled job for cron "${cron}"`);
+    }
+  }
+
+  /**
+   * Obtiene los pedidos pendientes de cada restaurante mediante polling
+   * (para locales que no pueden recibir pedidos push)
+   */
+  async pollOrders(cron: string): Promise<void> {
+    const ingestionService = new IngestionService(this.env);
+
+    await this.runForRestaurants('scheduled_order_poll', cron, async (restaurant, secretKey) => {
+      const gloriaFood = new GloriaFoodClient(this.env, secretKey);
+      const response = await gloriaFood.pollOrders();
+      const result = await ingestionService.processPolledOrders(response);
+
+      return {
+        received: response.orders.length,
+        processed: result.processed,
+        failed: result.failed
+      };
+    });
+  }
+
+  /**
+   * Sincroniza el menú de cada restaurante
+   */
+  async syncMenus(cron: string): Promise<void> {
+    await this.runForRestaurants('scheduled_menu_sync', cron, async (restaurant) => {
+      const menuService = new MenuService(this.env, restaurant.id);
+      const { syncId, changes, ...counts } = (await menuService.syncMenu()).stats;
+
+      // El detalle queda en menu_changes; aquí solo se suma el número de cambios
+      const changeCount = Object.values(changes)
+        .reduce((sum, byType) => sum + Object.values(byType).reduce((a, b) => a + b, 0), 0);
+
+      return { ...counts, changes: changeCount };
+    });
+  }
+
+  /**
+   * Recalcula los segmentos RFM de los clientes de cada restaurante activo
+   */
+  async computeClientSegments(cron: string): Promise<void> {
+    const restaurants = await this.restaurants.getActiveRestaurants();
+
+    await this.runEach('scheduled_client_segments', cron, restaurants, async (restaurant) => {
+      return new SegmentsService(this.env, restaurant.id).computeSegments();
+    });
+  }
+
+  /**
+   * Ejecuta un trabajo de GloriaFood para cada restaurante sincronizable
+   */
+  private async runForRestaurants(
+    eventType: string,
+    cron: string,
+    job: (restaurant: Restaurant, secretKey: string) => Promise<Record<string, number>>
+  ): Promise<void> {
+    const restaurants = await this.restaurants.getSyncableRestaurants();
+
+    await this.runEach(eventType, cron, restaurants, async (restaurant) => {
+      const secretKey = await this.restaurants.getSecretKey(restaurant.id);
+      if (!secretKey) {
+        throw new Error('Restaurant has no GloriaFood secret key configured');
+      }
+
+      return job(restaurant, secretKey);
+    });
+  }
+
+  /**
+   * Ejecuta un trabajo para cada restaurante y registra el resultado.
+   * El fallo de un restaurante no detiene a los demás.
+   */
+  private async runEach(
+    eventType: string,
+    cron: string,
+    restaurants: Restaurant[],
+    job: (restaurant: Restaurant) => Promise<Record<string, number>>
+  ): Promise<void> {
+    const results: RestaurantRunResult[] = [];
+    const totals: Record<string, number> = {};
+
+    for (const restaurant of restaurants) {
+      try {
+        const counts = await job(restaurant);
+        for (const [key, value] of Object.entries(counts)) {
+          totals[key] = (totals[key] || 0) + value;
+        }
+        results.push({ restaurant_id: restaurant.id, success: true, ...counts });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`${eventType} failed for restaurant ${restaurant.id}:`, error);
+        results.push({ restaurant_id: restaurant.id, success: false, error: errorMessage });
+      }
+    }
+
+    const failedRestaurants = results.filter(r => !r.success).length;
+
+    await this.logEvent(eventType, {
+      cron,
+      restaurants: restaurants.length,
+      failed_restaurants: failedRestaurants,
+      ...totals,
+      results
+    }, failedRestaurants > 0 ? 'error' : 'success');
+  }
+
+  /**
+   * Registra el resultado de una ejecución en el log
+   */
+  private async logEvent(eventType: string, payload: any, status: string): Promise<void> {
+    const errorMessage = status === 'error'
+      ? `${payload.failed_restaurants} of ${payload.restaurants} restaurants failed`
+      : null;
+
+    await this.db.prepare(`
+      INSERT INTO webhook_logs (event_type, payload, status, error_message)
+      VALUES (?, ?, ?, ?)
+    `).bind(eventType, JSON.stringify(payload), status, errorMessage).run();
+  }
+}
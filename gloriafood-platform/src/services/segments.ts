@@ -0,0 +1,201 @@
+import type { Env, ClientSegment, ClientSegmentSummary } from '../types';
+import { toSqlTimestamp } from './timezone';
+
+export const CLIENT_SEGMENTS: ClientSegment[] = ['champions', 'loyal', 'new', 'at_risk', 'lost'];
+
+export function isClientSegment(value: unknown): value is ClientSegment {
+  return typeof value === 'string' && (CLIENT_SEGMENTS as string[]).includes(value);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Puntuación de recencia: días máximos desde el último pedido para 5, 4, 3 y 2 puntos
+const RECENCY_THRESHOLDS = [30, 60, 90, 180];
+
+// Puntuación de frecuencia: pedidos mínimos para 5, 4, 3 y 2 puntos
+const FREQUENCY_THRESHOLDS = [10, 5, 3, 2];
+
+// Días durante los que un cliente con un solo pedido se considera nuevo
+const NEW_CLIENT_DAYS = 30;
+
+// Riesgo de abandono: el tiempo sin pedir supera en este factor al intervalo habitual
+const CHURN_INTERVAL_FACTOR = 3;
+
+// Sentencias por batch al guardar los segmentos
+const WRITE_BATCH_SIZE = 100;
+
+/**
+ * Pedidos de un cliente en el restaurante
+ */
+interface ClientOrderStats {
+  client_id: number;
+  frequency: number;
+  monetary: number;
+  first_order_at: string;
+  last_order_at: string;
+}
+
+function scoreByThresholds(value: number, thresholds: number[], higherIsBetter: boolean): number {
+  const index = thresholds.findIndex(threshold => higherIsBetter ? value >= threshold : value <= threshold);
+  return index === -1 ? 1 : 5 - index;
+}
+
+/**
+ * Número de elementos iniciales de una lista ordenada que cumplen la condición (búsqueda binaria)
+ */
+function countWhile(sorted: number[], predicate: (value: number) => boolean): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (predicate(sorted[mid])) low = mid + 1; else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Segmento a partir de las puntuaciones (se aplica la primera regla que encaja)
+ */
+function segmentFor(r: number, f: number, m: number, frequency: number, recencyDays: number): ClientSegment {
+  if (frequency === 1 && recencyDays <= NEW_CLIENT_DAYS) return 'new';
+  if (r === 1) return 'lost';
+  if (r >= 4 && f >= 4 && m >= 4) return 'champions';
+  if (r >= 3 && f >= 3) return 'loyal';
+  return 'at_risk';
+}
+
+/**
+ * Segmentación RFM de los clientes de un restaurante.
+ *
+ * La recencia y la frecuencia se puntúan con umbrales fijos (en días y pedidos)
+ * y el importe por quintiles dentro del restaurante, porque depende de su moneda
+ * y sus precios. Solo cuentan los pedidos no cancelados ni reembolsados, en la
+ * fecha de aceptación.
+ */
+export class SegmentsService {
+  private db: D1Database;
+  private restaurantId: number;
+
+  constructor(env: Env, restaurantId: number) {
+    this.db = env.DB;
+    this.restaurantId = restaurantId;
+  }
+
+  /**
+   * Recalcula y guarda el segmento de todos los clientes del restaurante
+   */
+  async computeSegments(now: Date = new Date()): Promise<Record<ClientSegment, number> & { churn_risk: number }> {
+    const rows = await this.db.prepare(`
+      SELECT
+        client_id,
+        COUNT(*) as frequency,
+        COALESCE(SUM(total_price), 0) as monetary,
+        MIN(datetime(COALESCE(accepted_at, created_at))) as first_order_at,
+        MAX(datetime(COALESCE(accepted_at, created_at))) as last_order_at
+      FROM orders
+      WHERE restaurant_id = ? AND client_id IS NOT NULL AND status NOT IN ('cancelled', 'refunded')
+      GROUP BY client_id
+    `).bind(this.restaurantId).all<ClientOrderStats>();
+
+    // Quintil del importe por rango medio (los empates comparten puntuación)
+    const amounts = rows.results.map(row => row.monetary).sort((a, b) => a - b);
+    const monetaryScore = (value: number): number => {
+      const below = countWhile(amounts, amount => amount < value);
+      const equal = countWhile(amounts, amount => amount <= value) - below;
+      return Math.min(5, 1 + Math.floor(5 * (below + equal / 2) / amounts.length));
+    };
+
+    const computedAt = toSqlTimestamp(now);
+    const counts = { champions: 0, loyal: 0, new: 0, at_risk: 0, lost: 0, churn_risk: 0 };
+    const statements: D1PreparedStatement[] = [];
+
+    for (const row of rows.results) {
+      const first = Date.parse(`${row.first_order_at.replace(' ', 'T')}Z`);
+      const last = Date.parse(`${row.last_order_at.replace(' ', 'T')}Z`);
+      const recencyDays = Math.max(0, Math.floor((now.getTime() - last) / DAY_MS));
+      const avgIntervalDays = row.frequency > 1 ? (last - first) / DAY_MS / (row.frequency - 1) : null;
+
+      const r = scoreByThresholds(recencyDays, RECENCY_THRESHOLDS, false);
+      const f = scoreByThresholds(row.frequency, FREQUENCY_THRESHOLDS, true);
+      const m = monetaryScore(row.monetary);
+      const segment = segmentFor(r, f, m, row.frequency, recencyDays);
+      const churnRisk = avgIntervalDays !== null && recencyDays > CHURN_INTERVAL_FACTOR * Math.max(avgIntervalDays, 1);
+
+      counts[segment]++;
+      if (churnRisk) counts.churn_risk++;
+
+      statements.push(this.db.prepare(`
+        INSERT OR REPLACE INTO client_segments (
+          client_id, restaurant_id, segment, recency_days, frequency, monetary,
+          r_score, f_score, m_score, avg_interval_days, churn_risk,
+          first_order_at, last_order_at, computed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        row.client_id,
+        this.restaurantId,
+        segment,
+        recencyDays,
+        row.frequency,
+        Math.round(row.monetary * 100) / 100,
+        r,
+        f,
+        m,
+        avgIntervalDays === null ? null : Math.round(avgIntervalDays * 10) / 10,
+        churnRisk ? 1 : 0,
+        row.first_order_at,
+        row.last_order_at,
+        computedAt
+      ));
+    }
+
+    for (let i = 0; i < statements.length; i += WRITE_BATCH_SIZE) {
+      await this.db.batch(statements.slice(i, i + WRITE_BATCH_SIZE));
+    }
+
+    // Clientes que ya no tienen pedidos válidos en el restaurante (fusionados, cancelados...)
+    await this.db.prepare(
+      'DELETE FROM client_segments WHERE restaurant_id = ? AND computed_at != ?'
+    ).bind(this.restaurantId, computedAt).run();
+
+    return counts;
+  }
+
+  /**
+   * Número de clientes, riesgo de abandono y medias de cada segmento
+   */
+  async getSummary(): Promise<{ computed_at: string | null; segments: ClientSegmentSummary[] }> {
+    const rows = await this.db.prepare(`
+      SELECT
+        segment,
+        COUNT(*) as clients,
+        SUM(churn_risk) as churn_risk,
+        ROUND(AVG(recency_days), 1) as avg_recency_days,
+        ROUND(AVG(frequency), 1) as avg_frequency,
+        ROUND(AVG(monetary), 2) as avg_monetary,
+        MAX(computed_at) as computed_at
+      FROM client_segments
+      WHERE restaurant_id = ?
+      GROUP BY segment
+    `).bind(this.restaurantId).all<ClientSegmentSummary & { computed_at: string }>();
+
+    const bySegment = new Map(rows.results.map(row => [row.segment, row]));
+
+    return {
+      computed_at: rows.results.reduce<string | null>(
+        (latest, row) => !latest || row.computed_at > latest ? row.computed_at : latest,
+        null
+      ),
+      segments: CLIENT_SEGMENTS.map(segment => {
+        const row = bySegment.get(segment);
+        return {
+          segment,
+          clients: row?.clients || 0,
+          churn_risk: row?.churn_risk || 0,
+          avg_recency_days: row?.avg_recency_days || 0,
+          avg_frequency: row?.avg_frequency || 0,
+          avg_monetary: row?.avg_monetary || 0
+        };
+      })
+    };
+  }
+}
@@ -1,15 +1,52 @@
-import type { Env, DashboardStats } from '../types';
+import type { Env, DashboardStats, PromotionPerformance, PromotionStats, Restaurant, StatsBasis } from '../types';
+import { addDays, localDate, localTimeSql, resolveTimezone, startOfLocalDay, toSqlTimestamp } from './timezone';
+
+// Timestamp en el que se basa cada estadística (con respaldo si el pedido no lo trae)
+const BASIS_COLUMNS: Record<StatsBasis, string> = {
+  accepted: 'COALESCE(accepted_at, created_at)',
+  fulfilled: 'COALESCE(fulfill_at, accepted_at, created_at)',
+  received: 'created_at'
+};
+
+export const STATS_BASES = Object.keys(BASIS_COLUMNS) as StatsBasis[];
+
+// Líneas de promoción de GloriaFood (su item_discount es el descuento total de la promoción)
+const PROMO_ITEM_TYPES = "('promo_cart', 'promo_item', 'promo_cart_item')";
+
+type PromotionRow = Omit<PromotionPerformance, 'avg_basket_vs_non_promo' | 'new_client_share'>;
+
+export function isStatsBasis(value: unknown): value is StatsBasis {
+  return typeof value === 'string' && value in BASIS_COLUMNS;
+}
 
 /**
- * Servicio para estadísticas y dashboard
+ * Clave de caché del dashboard de un restaurante para un timestamp base
+ */
+export function dashboardCacheKey(restaurantId: number, basis: StatsBasis): string {
+  return `dashboard:stats:${restaurantId}:${basis}`;
+}
+
+/**
+ * Servicio para estadísticas y dashboard de un restaurante.
+ *
+ * Los días y las horas se calculan en la zona horaria del restaurante, sobre el
+ * timestamp elegido: aceptación (por defecto), entrega/recogida o recepción.
  */
 export class StatsService {
   private db: D1Database;
   private cache: KVNamespace;
+  private restaurantId: number;
+  private currency: string;
+  private timezone: string;
+  private basis: StatsBasis;
 
-  constructor(env: Env) {
+  constructor(env: Env, restaurant: Restaurant, basis: StatsBasis = 'accepted') {
     this.db = env.DB;
     this.cache = env.CACHE;
+    this.restaurantId = restaurant.id;
+    this.currency = restaurant.currency;
+    this.timezone = resolveTimezone(restaurant.timezone);
+    this.basis = basis;
   }
 
   /**
@@ -17,7 +54,8 @@ export class StatsService {
    */
   async getDashboardStats(): Promise<DashboardStats> {
     // Intentar obtener de caché
-    const cached = await this.cache.get('dashboard:stats');
+    const cacheKey = dashboardCacheKey(this.restaurantId, this.basis);
+    const cached = await this.cache.get(cacheKey);
     if (cached) {
       return JSON.parse(cached);
     }
@@ -41,11 +79,33 @@ export class StatsService {
     };
 
     // Guardar en caché por 5 minutos
-    await this.cache.put('dashboard:stats', JSON.stringify(stats), { expirationTtl: 300 });
+    await this.cache.put(cacheKey, JSON.stringify(stats), { expirationTtl: 300 });
 
     return stats;
   }
 
+  /**
+   * Rango de días locales: desde el inicio de hace `days` días hasta el final de hoy
+   */
+  private lastDays(days: number): { from: Date; to: Date } {
+    const today = localDate(this.timezone);
+    return {
+      from: startOfLocalDay(this.timezone, addDays(today, -days)),
+      to: startOfLocalDay(this.timezone, addDays(today, 1))
+    };
+  }
+
+  /**
+   * Condición SQL del timestamp base dentro de un rango
+   */
+  private rangeCondition(range: { from: Date; to: Date }): { sql: string; params: string[] } {
+    const column = `datetime(${BASIS_COLUMNS[this.basis]})`;
+    return {
+      sql: `${column} >= ? AND ${column} < ?`,
+      params: [toSqlTimestamp(range.from), toSqlTimestamp(range.to)]
+    };
+  }
+
   /**
    * Obtiene estadísticas por período
    */
@@ -54,19 +114,8 @@ export class StatsService {
     revenue: number;
     avgOrderValue: number;
   }> {
-    let dateCondition: string;
-
-    switch (period) {
-      case 'today':
-        dateCondition = "DATE(created_at) = DATE('now')";
-        break;
-      case 'week':
-        dateCondition = "created_at >= DATE('now', '-7 days')";
-        break;
-      case 'month':
-        dateCondition = "created_at >= DATE('now', '-30 days')";
-        break;
-    }
+    const days = { today: 0, week: 7, month: 30 }[period];
+    const condition = this.rangeCondition(this.lastDays(days));
 
     const result = await this.db.prepare(`
       SELECT
@@ -74,8 +123,8 @@ export class StatsService {
         COALESCE(SUM(total_price), 0) as revenue,
         COALESCE(AVG(total_price), 0) as avg_order_value
       FROM orders
-      WHERE ${dateCondition}
-    `).first<{
+      WHERE restaurant_id = ? AND ${condition.sql}
+    `).bind(this.restaurantId, ...condition.params).first<{
       orders: number;
       revenue: number;
       avg_order_value: number;
@@ -99,9 +148,10 @@ export class StatsService {
         c.last_name as client_last_name
       FROM orders o
       LEFT JOIN clients c ON o.client_id = c.id
+      WHERE o.restaurant_id = ?
       ORDER BY o.created_at DESC
       LIMIT ?
-    `).bind(limit).all();
+    `).bind(this.restaurantId, limit).all();
 
     return orders.results;
   }
@@ -116,11 +166,11 @@ export class StatsService {
         COUNT(o.id) as total_orders,
         SUM(o.total_price) as total_spent
       FROM clients c
-      INNER JOIN orders o ON c.id = o.client_id
+      INNER JOIN orders o ON c.id = o.client_id AND o.restaurant_id = ?
       GROUP BY c.id
       ORDER BY total_spent DESC
       LIMIT ?
-    `).bind(limit).all();
+    `).bind(this.restaurantId, limit).all();
 
     return clients.results;
   }
@@ -129,13 +179,15 @@ export class StatsService {
    * Obtiene pedidos agrupados por tipo
    */
   private async getOrdersByType(): Promise<{ pickup: number; delivery: number }> {
+    const condition = this.rangeCondition(this.lastDays(30));
+
     const result = await this.db.prepare(`
       SELECT
         SUM(CASE WHEN type = 'pickup' THEN 1 ELSE 0 END) as pickup,
         SUM(CASE WHEN type = 'delivery' THEN 1 ELSE 0 END) as delivery
       FROM orders
-      WHERE created_at >= DATE('now', '-30 days')
-    `).first<{ pickup: number; delivery: number }>();
+      WHERE restaurant_id = ? AND ${condition.sql}
+    `).bind(this.restaurantId, ...condition.params).first<{ pickup: number; delivery: number }>();
 
     return {
       pickup: result?.pickup || 0,
@@ -147,17 +199,21 @@ export class StatsService {
    * Obtiene estadísticas de ventas por día
    */
   async getSalesByDay(days: number = 30): Promise<any[]> {
+    const range = this.lastDays(days);
+    const condition = this.rangeCondition(range);
+    const localTime = localTimeSql(BASIS_COLUMNS[this.basis], this.timezone, range.from, range.to);
+
     const result = await this.db.prepare(`
       SELECT
-        DATE(created_at) as date,
+        DATE(${localTime.sql}) as date,
         COUNT(*) as orders,
         SUM(total_price) as revenue,
         AVG(total_price) as avg_order_value
       FROM orders
-      WHERE created_at >= DATE('now', '-' || ? || ' days')
-      GROUP BY DATE(created_at)
+      WHERE restaurant_id = ? AND ${condition.sql}
+      GROUP BY date
       ORDER BY date ASC
-    `).bind(days).all();
+    `).bind(...localTime.params, this.restaurantId, ...condition.params).all();
 
     return result.results;
   }
@@ -166,16 +222,20 @@ export class StatsService {
    * Obtiene estadísticas de ventas por hora
    */
   async getSalesByHour(): Promise<any[]> {
+    const range = this.lastDays(30);
+    const condition = this.rangeCondition(range);
+    const localTime = localTimeSql(BASIS_COLUMNS[this.basis], this.timezone, range.from, range.to);
+
     const result = await this.db.prepare(`
       SELECT
-        CAST(strftime('%H', created_at) AS INTEGER) as hour,
+        CAST(strftime('%H', ${localTime.sql}) AS INTEGER) as hour,
         COUNT(*) as orders,
         SUM(total_price) as revenue
       FROM orders
-      WHERE created_at >= DATE('now', '-30 days')
+      WHERE restaurant_id = ? AND ${condition.sql}
       GROUP BY hour
       ORDER BY hour ASC
-    `).all();
+    `).bind(...localTime.params, this.restaurantId, ...condition.params).all();
 
     return result.results;
   }
@@ -186,16 +246,17 @@ export class StatsService {
   async getTopProducts(limit: number = 10): Promise<any[]> {
     const result = await this.db.prepare(`
       SELECT
-        name,
-        SUM(quantity) as total_quantity,
-        SUM(total_price) as total_revenue,
-        COUNT(DISTINCT order_id) as order_count
-      FROM order_items
-      WHERE type = 'item'
-      GROUP BY name
+        oi.name,
+        SUM(oi.quantity) as total_quantity,
+        SUM(oi.total_price) as total_revenue,
+        COUNT(DISTINCT oi.order_id) as order_count
+      FROM order_items oi
+      INNER JOIN orders o ON oi.order_id = o.id
+      WHERE oi.type = 'item' AND o.restaurant_id = ?
+      GROUP BY oi.name
       ORDER BY total_quantity DESC
       LIMIT ?
-    `).bind(limit).all();
+    `).bind(this.restaurantId, limit).all();
 
     return result.results;
   }
@@ -210,10 +271,10 @@ export class StatsService {
         COUNT(*) as count,
         SUM(total_price) as total
       FROM orders
-      WHERE payment_method IS NOT NULL
+      WHERE restaurant_id = ? AND payment_method IS NOT NULL
       GROUP BY payment_method
       ORDER BY count DESC
-    `).all();
+    `).bind(this.restaurantId).all();
 
     return result.results;
   }
@@ -229,11 +290,155 @@ export class StatsService {
         SUM(total_price) as revenue,
         AVG(delivery_fee) as avg_delivery_fee
       FROM orders
-      WHERE type = 'delivery' AND delivery_zone IS NOT NULL
+      WHERE restaurant_id = ? AND type = 'delivery' AND delivery_zone IS NOT NULL
       GROUP BY delivery_zone
       ORDER BY orders DESC
-    `).all();
+    `).bind(this.restaurantId).all();
 
     return result.results;
   }
+
+  /**
+   * Rendimiento de promociones y cupones entre dos días locales (ambos incluidos).
+   *
+   * Las promociones salen de las líneas `promo_*` de los pedidos y los cupones de
+   * los códigos introducidos (`order_coupons`); un cupón cuenta como canjeado si
+   * el pedido tiene una promoción con ese código o ID. Un pedido es de cliente
+   * nuevo si el cliente no tiene ningún pedido anterior en el restaurante. Los
+   * pedidos cancelados o reembolsados no cuentan.
+   */
+  async getPromotionStats(from?: string, to?: string): Promise<PromotionStats> {
+    const today = localDate(this.timezone);
+    const lastDay = to || today;
+    const firstDay = from || addDays(lastDay, -29);
+
+    const condition = this.rangeCondition({
+      from: startOfLocalDay(this.timezone, firstDay),
+      to: startOfLocalDay(this.timezone, addDays(lastDay, 1))
+    });
+
+    // Pedidos del rango, marcando si son el primero del cliente en el restaurante
+    const rangedOrders = `
+      WITH ranged AS (
+        SELECT
+          o.id,
+          o.total_price,
+          CASE
+            WHEN o.client_id IS NULL THEN NULL
+            WHEN EXISTS (
+              SELECT 1 FROM orders p
+              WHERE p.client_id = o.client_id AND p.restaurant_id = o.restaurant_id
+                AND p.id < o.id AND p.status NOT IN ('cancelled', 'refunded')
+            ) THEN 0
+            ELSE 1
+          END as first_order
+        FROM orders o
+        WHERE o.restaurant_id = ? AND o.status NOT IN ('cancelled', 'refunded') AND ${condition.sql}
+      )`;
+    const params = [this.restaurantId, ...condition.params];
+
+    // Agregados por pedido canjeado: cada pedido cuenta una vez por promoción o cupón
+    const performance = `
+      COUNT(*) as redemptions,
+      ROUND(SUM(discount), 2) as discount,
+      ROUND(SUM(total_price), 2) as revenue,
+      ROUND(AVG(total_price), 2) as avg_basket,
+      SUM(CASE WHEN first_order = 1 THEN 1 ELSE 0 END) as new_client_orders,
+      SUM(CASE WHEN first_order = 0 THEN 1 ELSE 0 END) as returning_client_orders`;
+
+    const [nonPromo, promotions, coupons] = await Promise.all([
+      this.db.prepare(`
+        ${rangedOrders}
+        SELECT
+          COUNT(*) as orders,
+          ROUND(COALESCE(SUM(total_price), 0), 2) as revenue,
+          ROUND(COALESCE(AVG(total_price), 0), 2) as avg_basket
+        FROM ranged r
+        WHERE NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = r.id AND oi.type IN ${PROMO_ITEM_TYPES})
+          AND NOT EXISTS (SELECT 1 FROM order_coupons oc WHERE oc.order_id = r.id)
+      `).bind(...params).first<PromotionStats['non_promo']>(),
+
+      this.db.prepare(`
+        ${rangedOrders}
+        SELECT promotion_id, name, type, coupon, ${performance}
+        FROM (
+          SELECT
+            oi.type_id as promotion_id,
+            MAX(oi.name) as name,
+            MAX(oi.type) as type,
+            MAX(oi.coupon) as coupon,
+            COALESCE(CAST(oi.type_id AS TEXT), oi.name) as promotion_key,
+            SUM(oi.item_discount) as discount,
+            r.total_price,
+            r.first_order
+          FROM order_items oi
+          INNER JOIN ranged r ON oi.order_id = r.id
+          WHERE oi.type IN ${PROMO_ITEM_TYPES}
+          GROUP BY promotion_key, r.id
+        )
+        GROUP BY promotion_key
+        ORDER BY redemptions DESC, discount DESC
+      `).bind(...params).all<PromotionRow & {
+        promotion_id: number | null;
+        name: string;
+        type: 'promo_cart' | 'promo_item' | 'promo_cart_item';
+        coupon: string | null;
+      }>(),
+
+      this.db.prepare(`
+        ${rangedOrders}
+        SELECT
+          coupon_code,
+          COUNT(*) as orders,
+          SUM(applied) as redemptions,
+          ROUND(COALESCE(SUM(CASE WHEN applied THEN discount END), 0), 2) as discount,
+          ROUND(COALESCE(SUM(CASE WHEN applied THEN total_price END), 0), 2) as revenue,
+          ROUND(COALESCE(AVG(CASE WHEN applied THEN total_price END), 0), 2) as avg_basket,
+          SUM(CASE WHEN applied AND first_order = 1 THEN 1 ELSE 0 END) as new_client_orders,
+          SUM(CASE WHEN applied AND first_order = 0 THEN 1 ELSE 0 END) as returning_client_orders
+        FROM (
+          SELECT
+            oc.coupon_code,
+            r.total_price,
+            r.first_order,
+            COUNT(oi.id) > 0 as applied,
+            COALESCE(SUM(oi.item_discount), 0) as discount
+          FROM order_coupons oc
+          INNER JOIN ranged r ON oc.order_id = r.id
+          LEFT JOIN order_items oi ON oi.order_id = r.id
+            AND oi.type IN ${PROMO_ITEM_TYPES}
+            AND (oi.coupon = oc.coupon_code COLLATE NOCASE OR CAST(oi.type_id AS TEXT) = oc.coupon_code)
+          GROUP BY oc.id
+        )
+        GROUP BY coupon_code COLLATE NOCASE
+        ORDER BY redemptions DESC, orders DESC
+      `).bind(...params).all<PromotionRow & { coupon_code: string; orders: number }>()
+    ]);
+
+    const baseline = nonPromo || { orders: 0, revenue: 0, avg_basket: 0 };
+
+    // Diferencia con el ticket medio sin promoción y proporción de clientes nuevos
+    const compare = <T extends PromotionRow>(row: T): T & PromotionPerformance => {
+      const clientOrders = row.new_client_orders + row.returning_client_orders;
+      return {
+        ...row,
+        avg_basket_vs_non_promo: row.redemptions > 0 && baseline.avg_basket > 0
+          ? Math.round((row.avg_basket / baseline.avg_basket - 1) * 10000) / 10000
+          : null,
+        new_client_share: clientOrders > 0 ? Math.round(row.new_client_orders / clientOrders * 10000) / 10000 : null
+      };
+    };
+
+    return {
+      restaurant_id: this.restaurantId,
+      timezone: this.timezone,
+      currency: this.currency,
+      basis: this.basis,
+      from: firstDay,
+      to: lastDay,
+      non_promo: baseline,
+      promotions: promotions.results.map(compare),
+      coupons: coupons.results.map(compare)
+    };
+  }
 }
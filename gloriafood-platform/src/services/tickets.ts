@@ -0,0 +1,493 @@
+import type {
+  Env,
+  Order,
+  OrderItemDetail,
+  OrderItemOptionDetail,
+  OrderTaxDetail,
+  Restaurant,
+  TicketFormat
+} from '../types';
+import { OrdersService } from './orders';
+
+export const TICKET_FORMATS: TicketFormat[] = ['text', 'escpos', 'html'];
+
+export function isTicketFormat(value: unknown): value is TicketFormat {
+  return typeof value === 'string' && (TICKET_FORMATS as string[]).includes(value);
+}
+
+// Ancho en caracteres de una impresora térmica de 80 mm (fuente A)
+const TICKET_WIDTH = 42;
+
+// Tipos de item que son productos (el resto son tasas, propinas o descuentos)
+const PRODUCT_TYPES = new Set(['item', 'promo_item', 'promo_cart_item']);
+
+// Tasas y descuentos del pedido que se muestran en el recibo
+const FEE_LABELS: Record<string, string> = {
+  delivery_fee: 'Envío',
+  service_fee_subtotal: 'Cargo por servicio',
+  service_fee_total: 'Cargo por servicio',
+  cash_discount: 'Descuento efectivo',
+  tip: 'Propina'
+};
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  delivery: 'A DOMICILIO',
+  pickup: 'PARA RECOGER',
+  dine_in: 'EN LOCAL',
+  table_reservation: 'RESERVA'
+};
+
+// Comandos ESC/POS
+const ESC = '\x1b';
+const GS = '\x1d';
+const ESCPOS = {
+  init: `${ESC}@`,
+  boldOn: `${ESC}E\x01`,
+  boldOff: `${ESC}E\x00`,
+  center: `${ESC}a\x01`,
+  left: `${ESC}a\x00`,
+  doubleSize: `${GS}!\x11`,
+  normalSize: `${GS}!\x00`,
+  feedAndCut: `${ESC}d\x03${GS}V\x00`
+};
+
+/**
+ * Línea de un ticket, independiente del formato de salida
+ */
+type TicketLine =
+  | { kind: 'title'; text: string }
+  | { kind: 'text'; text: string; bold?: boolean; indent?: number }
+  | { kind: 'row'; left: string; right: string; bold?: boolean; indent?: number }
+  | { kind: 'separator' };
+
+/**
+ * Producto del pedido con sus items anidados (promociones)
+ */
+interface TicketProduct {
+  item: OrderItemDetail;
+  children: OrderItemDetail[];
+}
+
+/**
+ * Ticket ya renderizado, listo para devolver en la respuesta
+ */
+export interface RenderedTicket {
+  body: string | ArrayBuffer;
+  contentType: string;
+}
+
+/**
+ * Servicio de tickets: comanda de cocina y recibo del cliente
+ * en texto plano, ESC/POS o HTML
+ */
+export class TicketsService {
+  private orders: OrdersService;
+  private restaurant: Restaurant;
+
+  constructor(env: Env, restaurant: Restaurant) {
+    this.orders = new OrdersService(env);
+    this.restaurant = restaurant;
+  }
+
+  /**
+   * Comanda de cocina: productos agrupados con sus tamaños, opciones e
+   * instrucciones, usando los nombres internos de cocina cuando existen
+   */
+  async renderKitchenTicket(orderId: number, format: TicketFormat): Promise<RenderedTicket | null> {
+    const details = await this.orders.getOrderWithDetails(orderId, this.restaurant.id);
+    if (!details) return null;
+
+    const { order } = details;
+    const lines: TicketLine[] = [
+      { kind: 'title', text: `Pedido #${order.gloriafood_id}` },
+      { kind: 'text', text: ORDER_TYPE_LABELS[order.type] || order.type.toUpperCase(), bold: true },
+      ...this.headerLines(order, details.client),
+      { kind: 'separator' }
+    ];
+
+    for (const product of this.groupProducts(details.items)) {
+      lines.push({ kind: 'text', text: this.kitchenLabel(product.item), bold: true });
+      lines.push(...this.kitchenDetailLines(product.item, 1));
+
+      for (const child of product.children) {
+        lines.push({ kind: 'text', text: this.kitchenLabel(child), bold: true, indent: 1 });
+        lines.push(...this.kitchenDetailLines(child, 2));
+      }
+    }
+
+    if (order.instructions) {
+      lines.push({ kind: 'separator' });
+      lines.push({ kind: 'text', text: `NOTA: ${order.instructions}`, bold: true });
+    }
+
+    return this.render(lines, format, `Comanda #${order.gloriafood_id}`);
+  }
+
+  /**
+   * Recibo del cliente: productos con precios, cupones, tasas, propina,
+   * envío, impuestos y total
+   */
+  async renderReceipt(orderId: number, format: TicketFormat): Promise<RenderedTicket | null> {
+    const details = await this.orders.getOrderWithDetails(orderId, this.restaurant.id);
+    if (!details) return null;
+
+    const { order, items, taxes, coupons } = details;
+    const lines: TicketLine[] = [
+      { kind: 'title', text: this.restaurant.name },
+      { kind: 'text', text: `Pedido #${order.gloriafood_id}`, bold: true },
+      { kind: 'text', text: ORDER_TYPE_LABELS[order.type] || order.type.toUpperCase() },
+      ...this.headerLines(order, details.client),
+      { kind: 'separator' }
+    ];
+
+    for (const product of this.groupProducts(items)) {
+      lines.push(...this.receiptItemLines(product.item, 0, true));
+
+      // El precio de una promoción ya incluye el de sus items
+      for (const child of product.children) {
+        lines.push(...this.receiptItemLines(child, 1, false));
+      }
+    }
+
+    // Promociones sobre el total del carrito
+    for (const promo of items.filter(i => i.type === 'promo_cart')) {
+      lines.push({ kind: 'row', left: promo.name, right: this.money(promo.total_price - promo.item_discount) });
+      if (promo.coupon) {
+        lines.push({ kind: 'text', text: `Cupón: ${promo.coupon}`, indent: 1 });
+      }
+    }
+
+    lines.push({ kind: 'separator' });
+
+    if (order.sub_total_price !== null) {
+      lines.push({ kind: 'row', left: 'Subtotal', right: this.money(order.sub_total_price) });
+    }
+
+    for (const fee of items.filter(i => i.type in FEE_LABELS)) {
+      const label = fee.type.startsWith('service_fee') ? fee.name : FEE_LABELS[fee.type];
+      lines.push({ kind: 'row', left: label, right: this.money(fee.total_price) });
+    }
+
+    lines.push(...this.taxLines(order, taxes));
+    lines.push({ kind: 'separator' });
+    lines.push({ kind: 'row', left: 'TOTAL', right: `${this.money(order.total_price)} ${order.currency}`, bold: true });
+
+    if (order.payment_method) {
+      lines.push({ kind: 'row', left: 'Pago', right: order.payment_method });
+    }
+
+    const couponCodes = [...new Set([...coupons, ...items.filter(i => i.coupon).map(i => i.coupon as string)])];
+    if (couponCodes.length > 0) {
+      lines.push({ kind: 'text', text: `Cupones: ${couponCodes.join(', ')}` });
+    }
+
+    lines.push({ kind: 'separator' });
+    lines.push({ kind: 'text', text: '¡Gracias por su pedido!' });
+
+    return this.render(lines, format, `Recibo #${order.gloriafood_id}`);
+  }
+
+  /**
+   * Cabecera común: hora de entrega, cliente y dirección
+   */
+  private headerLines(order: Order, client: any): TicketLine[] {
+    const lines: TicketLine[] = [];
+
+    if (order.fulfill_at) {
+      const label = order.for_later ? 'PROGRAMADO' : 'Entrega';
+      lines.push({ kind: 'text', text: `${label}: ${this.formatDate(order.fulfill_at)}`, bold: !!order.for_later });
+    }
+
+    if (client) {
+      const name = [client.first_name, client.last_name].filter(Boolean).join(' ');
+      if (name) lines.push({ kind: 'text', text: `Cliente: ${name}` });
+      if (client.phone) lines.push({ kind: 'text', text: `Tel: ${client.phone}` });
+    }
+
+    if (order.type === 'delivery' && order.delivery_address) {
+      lines.push({ kind: 'text', text: `Dirección: ${order.delivery_address}` });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Agrupa los productos del pedido: los items de una promoción van bajo ella
+   */
+  private groupProducts(items: OrderItemDetail[]): TicketProduct[] {
+    const products = items.filter(i => PRODUCT_TYPES.has(i.type));
+    const ids = new Set(products.map(i => i.id));
+
+    return products
+      .filter(i => i.parent_id === null || !ids.has(i.parent_id))
+      .map(item => ({
+        item,
+        children: products.filter(child => child.parent_id === item.id)
+      }));
+  }
+
+  private kitchenLabel(item: OrderItemDetail): string {
+    return `${item.quantity}x ${item.kitchen_internal_name || item.name}`;
+  }
+
+  /**
+   * Tamaños, opciones e instrucciones de un item en la comanda
+   */
+  private kitchenDetailLines(item: OrderItemDetail, indent: number): TicketLine[] {
+    const lines: TicketLine[] = this.sortOptions(item.options).map(option => ({
+      kind: 'text' as const,
+      text: `${option.type === 'size' ? '' : '+ '}${this.optionQuantity(option)}${option.kitchen_internal_name || option.name}`,
+      indent
+    }));
+
+    if (item.instructions) {
+      lines.push({ kind: 'text', text: `» ${item.instructions}`, bold: true, indent });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Líneas de un producto en el recibo (precio total del item y extras con precio)
+   */
+  private receiptItemLines(item: OrderItemDetail, indent: number, priced: boolean): TicketLine[] {
+    const label = `${item.quantity}x ${item.name}`;
+    const lines: TicketLine[] = [priced
+      ? { kind: 'row', left: label, right: this.money(item.total_price), indent }
+      : { kind: 'text', text: label, indent }];
+
+    for (const option of this.sortOptions(item.options)) {
+      const price = option.price > 0 ? ` (+${this.money(option.price * option.quantity)})` : '';
+      lines.push({ kind: 'text', text: `${this.optionQuantity(option)}${option.name}${price}`, indent: indent + 1 });
+    }
+
+    // El descuento de la promoción va en el producto principal; cart_discount es
+    // el reparto de las promociones de carrito, que ya tienen su propia línea
+    if (priced && item.item_discount > 0) {
+      lines.push({ kind: 'row', left: 'Descuento', right: this.money(-item.item_discount), indent: indent + 1 });
+    }
+
+    if (item.coupon) {
+      lines.push({ kind: 'text', text: `Cupón: ${item.coupon}`, indent: indent + 1 });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Impuestos: con NET se suman al total, con GROSS ya están incluidos en los precios
+   */
+  private taxLines(order: Order, taxes: OrderTaxDetail[]): TicketLine[] {
+    const included = order.tax_type === 'GROSS';
+    const name = order.tax_name || 'Impuestos';
+
+    // Agrupar por tasa (el desglose por tipo no interesa al cliente)
+    const byRate = new Map<number, number>();
+    for (const tax of taxes) {
+      byRate.set(tax.rate, (byRate.get(tax.rate) || 0) + tax.value);
+    }
+
+    if (byRate.size === 0 && order.tax_value) {
+      byRate.set(0, order.tax_value);
+    }
+
+    return [...byRate.entries()].map(([rate, value]) => ({
+      kind: 'row' as const,
+      left: `${name}${rate ? ` ${+(rate * 100).toFixed(2)}%` : ''}${included ? ' (incluido)' : ''}`,
+      right: this.money(value)
+    }));
+  }
+
+  /**
+   * Primero el tamaño y después el resto de opciones
+   */
+  private sortOptions(options: OrderItemOptionDetail[]): OrderItemOptionDetail[] {
+    return [...options].sort((a, b) => (a.type === 'size' ? 0 : 1) - (b.type === 'size' ? 0 : 1));
+  }
+
+  private optionQuantity(option: OrderItemOptionDetail): string {
+    return option.quantity > 1 ? `${option.quantity}x ` : '';
+  }
+
+  private money(amount: number): string {
+    return (amount || 0).toFixed(2);
+  }
+
+  /**
+   * Formatea una fecha en la zona horaria del restaurante
+   */
+  private formatDate(value: string): string {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return value;
+
+    try {
+      return new Intl.DateTimeFormat('es', {
+        timeZone: this.restaurant.timezone || 'UTC',
+        dateStyle: 'short',
+        timeStyle: 'short'
+      }).format(date);
+    } catch {
+      return value;
+    }
+  }
+
+  // =====================================================
+  // FORMATOS DE SALIDA
+  // =====================================================
+
+  private render(lines: TicketLine[], format: TicketFormat, title: string): RenderedTicket {
+    switch (format) {
+      case 'escpos':
+        return { body: this.renderEscPos(lines), contentType: 'application/octet-stream' };
+      case 'html':
+        return { body: this.renderHtml(lines, title), contentType: 'text/html; charset=utf-8' };
+      default:
+        return { body: this.renderText(lines), contentType: 'text/plain; charset=utf-8' };
+    }
+  }
+
+  private renderText(lines: TicketLine[]): string {
+    return lines.flatMap(line => this.textLines(line, TICKET_WIDTH)).join('\n') + '\n';
+  }
+
+  /**
+   * ESC/POS: mismo contenido que el texto plano, con negritas, título a doble
+   * tamaño y corte de papel. Las impresoras usan code pages de un byte, así que
+   * el texto se reduce a ASCII.
+   */
+  private renderEscPos(lines: TicketLine[]): ArrayBuffer {
+    let output = ESCPOS.init;
+
+    for (const line of lines) {
+      if (line.kind === 'title') {
+        // A doble tamaño caben la mitad de caracteres
+        output += ESCPOS.center + ESCPOS.doubleSize + ESCPOS.boldOn;
+        output += this.wrap(line.text, TICKET_WIDTH / 2).join('\n') + '\n';
+        output += ESCPOS.boldOff + ESCPOS.normalSize + ESCPOS.left;
+        continue;
+      }
+
+      const text = this.textLines(line, TICKET_WIDTH).join('\n') + '\n';
+      const bold = line.kind !== 'separator' && line.bold;
+      output += bold ? ESCPOS.boldOn + text + ESCPOS.boldOff : text;
+    }
+
+    output += ESCPOS.feedAndCut;
+
+    const ascii = output.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x00-\x7f]/g, '?');
+    const bytes = new Uint8Array(ascii.length);
+    for (let i = 0; i < ascii.length; i++) {
+      bytes[i] = ascii.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  private renderHtml(lines: TicketLine[], title: string): string {
+    const body = lines.map(line => {
+      switch (line.kind) {
+        case 'title':
+          return `<h1>${this.escapeHtml(line.text)}</h1>`;
+        case 'separator':
+          return '<hr>';
+        case 'text':
+          return `<div class="${this.htmlClasses(line)}">${this.escapeHtml(line.text)}</div>`;
+        case 'row':
+          return `<div class="row ${this.htmlClasses(line)}"><span>${this.escapeHtml(line.left)}</span><span>${this.escapeHtml(line.right)}</span></div>`;
+      }
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(title)}</title>
+<style>
+  body { font-family: monospace; width: 80mm; margin: 0 auto; padding: 4mm; }
+  h1 { font-size: 1.4em; text-align: center; margin: 0 0 4px; }
+  hr { border: none; border-top: 1px dashed #000; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .bold { font-weight: bold; }
+  .indent-1 { padding-left: 2ch; }
+  .indent-2 { padding-left: 4ch; }
+  .indent-3 { padding-left: 6ch; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  private htmlClasses(line: { bold?: boolean; indent?: number }): string {
+    return [line.bold ? 'bold' : '', line.indent ? `indent-${line.indent}` : ''].filter(Boolean).join(' ');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Convierte una línea en líneas de texto de ancho fijo
+   */
+  private textLines(line: TicketLine, width: number): string[] {
+    switch (line.kind) {
+      case 'separator':
+        return ['-'.repeat(width)];
+      case 'title':
+        return this.wrap(line.text.toUpperCase(), width).map(text => this.center(text, width));
+      case 'text': {
+        const pad = '  '.repeat(line.indent || 0);
+        return this.wrap(line.text, width - pad.length).map(text => pad + text);
+      }
+      case 'row': {
+        const pad = '  '.repeat(line.indent || 0);
+        const leftWidth = width - pad.length - line.right.length - 1;
+        const left = this.wrap(line.left, leftWidth);
+        const last = left.pop() || '';
+        return [
+          ...left.map(text => pad + text),
+          pad + last.padEnd(leftWidth + 1) + line.right
+        ];
+      }
+    }
+  }
+
+  /**
+   * Parte un texto en líneas de como máximo `width` caracteres
+   */
+  private wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > width) {
+        lines.push(current);
+        current = '';
+      }
+
+      let rest = word;
+      while (rest.length > width) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+
+      current = current ? `${current} ${rest}` : rest;
+    }
+
+    lines.push(current);
+    return lines;
+  }
+
+  private center(text: string, width: number): string {
+    return ' '.repeat(Math.max(0, Math.floor((width - text.length) / 2))) + text;
+  }
+}
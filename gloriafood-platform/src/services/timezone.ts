@@ -0,0 +1,156 @@
+/**
+ * Utilidades de zona horaria para agrupar pedidos por la hora local del restaurante.
+ *
+ * D1 (SQLite) solo conoce UTC, así que los desfases de la zona horaria se calculan
+ * aquí con Intl y se pasan a SQL como una expresión CASE por tramos (cambios de
+ * horario de verano incluidos).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let dtf = formatters.get(timezone);
+  if (!dtf) {
+    dtf = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, dtf);
+  }
+  return dtf;
+}
+
+/**
+ * Indica si una zona horaria IANA es válida
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Zona horaria utilizable (UTC si la guardada no es válida)
+ */
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+}
+
+/**
+ * Desfase en minutos de la zona horaria respecto a UTC en un instante
+ */
+export function timezoneOffset(timezone: string, date: Date): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Formatea un instante como timestamp de SQLite ('YYYY-MM-DD HH:MM:SS', UTC)
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Fecha local (YYYY-MM-DD) de un instante en la zona horaria
+ */
+export function localDate(timezone: string, date: Date = new Date()): string {
+  const local = new Date(date.getTime() + timezoneOffset(timezone, date) * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+/**
+ * Instante UTC en que empieza un día local (YYYY-MM-DD) en la zona horaria
+ */
+export function startOfLocalDay(timezone: string, day: string): Date {
+  const midnightUtc = Date.parse(`${day}T00:00:00Z`);
+  let instant = midnightUtc - timezoneOffset(timezone, new Date(midnightUtc)) * 60000;
+  // Segunda pasada por si el desfase cambia entre las dos horas
+  instant = midnightUtc - timezoneOffset(timezone, new Date(instant)) * 60000;
+  return new Date(instant);
+}
+
+/**
+ * Suma días a una fecha YYYY-MM-DD
+ */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Tramos con desfase constante entre dos instantes. Cada tramo termina en
+ * `until` (exclusivo); el último no tiene fin.
+ */
+function offsetSegments(timezone: string, from: Date, to: Date): { until: Date | null; offset: number }[] {
+  const segments: { until: Date | null; offset: number }[] = [];
+  let current = from.getTime();
+  let offset = timezoneOffset(timezone, from);
+
+  while (current < to.getTime()) {
+    const next = Math.min(current + DAY_MS, to.getTime());
+    const nextOffset = timezoneOffset(timezone, new Date(next));
+
+    if (nextOffset !== offset) {
+      // Buscar el minuto exacto del cambio
+      let low = current;
+      let high = next;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (timezoneOffset(timezone, new Date(mid)) === offset) low = mid; else high = mid;
+      }
+      segments.push({ until: new Date(high), offset });
+      offset = nextOffset;
+    }
+    current = next;
+  }
+
+  segments.push({ until: null, offset });
+  return segments;
+}
+
+/**
+ * Expresión SQL que convierte una columna de timestamp UTC a la hora local del
+ * restaurante ('YYYY-MM-DD HH:MM:SS'), válida para valores entre `from` y `to`.
+ * Los parámetros deben enlazarse en el orden en que aparece la expresión.
+ */
+export function localTimeSql(
+  column: string,
+  timezone: string,
+  from: Date,
+  to: Date
+): { sql: string; params: string[] } {
+  const segments = offsetSegments(timezone, from, to);
+  const modifier = (offset: number) => `${offset >= 0 ? '+' : ''}${offset} minutes`;
+
+  if (segments.length === 1) {
+    return { sql: `datetime(${column}, ?)`, params: [modifier(segments[0].offset)] };
+  }
+
+  const params: string[] = [];
+  const cases = segments.slice(0, -1).map(segment => {
+    params.push(toSqlTimestamp(segment.until as Date), modifier(segment.offset));
+    return `WHEN datetime(${column}) < ? THEN ?`;
+  });
+  params.push(modifier(segments[segments.length - 1].offset));
+
+  return {
+    sql: `datetime(${column}, CASE ${cases.join(' ')} ELSE ? END)`,
+    params
+  };
+}
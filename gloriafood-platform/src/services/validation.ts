@@ -0,0 +1,467 @@
+import type { Context, MiddlewareHandler } from 'hono';
+
+/**
+ * Esquemas de validación de las peticiones.
+ *
+ * Cada esquema valida y convierte un valor, y describe ese valor como JSON
+ * Schema para el documento OpenAPI. La query string y los parámetros de ruta
+ * llegan como texto, así que al validarlos se convierten números y booleanos.
+ */
+
+export interface FieldError {
+  field: string;
+  location: ValidationTarget;
+  message: string;
+}
+
+export type ValidationTarget = 'query' | 'param' | 'json';
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ParseContext {
+  location: ValidationTarget;
+  coerce: boolean;
+  errors: FieldError[];
+}
+
+// Resultado de un valor que no ha pasado la validación (el error ya está en el contexto)
+export const INVALID = Symbol('invalid');
+export type Checked<T> = T | typeof INVALID;
+
+export abstract class Schema<T> {
+  protected description?: string;
+
+  /**
+   * Valida el valor en `path`; si no es válido deja los errores en el contexto
+   */
+  abstract check(value: unknown, path: string, ctx: ParseContext): Checked<T>;
+
+  protected abstract toJsonSchema(): JsonSchema;
+
+  jsonSchema(): JsonSchema {
+    const schema = this.toJsonSchema();
+    return this.description ? { ...schema, description: this.description } : schema;
+  }
+
+  /**
+   * Si el campo puede faltar en un objeto
+   */
+  isOptional(): boolean {
+    return false;
+  }
+
+  describe(description: string): this {
+    const copy = Object.create(Object.getPrototypeOf(this)) as this;
+    return Object.assign(copy, this, { description });
+  }
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+
+  nullable(): Schema<T | null> {
+    return new NullableSchema(this);
+  }
+
+  default(value: Exclude<T, undefined>): Schema<Exclude<T, undefined>> {
+    return new DefaultSchema(this as Schema<Exclude<T, undefined> | undefined>, value);
+  }
+
+  parse(value: unknown, location: ValidationTarget = 'json'): ValidationResult<T> {
+    const ctx: ParseContext = { location, coerce: location !== 'json', errors: [] };
+    const data = this.check(value, '', ctx);
+
+    if (data === INVALID || ctx.errors.length > 0) {
+      return { success: false, errors: ctx.errors };
+    }
+    return { success: true, data };
+  }
+
+  protected fail(path: string, ctx: ParseContext, message: string): typeof INVALID {
+    ctx.errors.push({ field: path || '(root)', location: ctx.location, message });
+    return INVALID;
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private inner: Schema<T>) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<T | undefined> {
+    return value === undefined ? undefined : this.inner.check(value, path, ctx);
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return this.inner.jsonSchema();
+  }
+}
+
+export class NullableSchema<T> extends Schema<T | null> {
+  constructor(private inner: Schema<T>) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<T | null> {
+    return value === null ? null : this.inner.check(value, path, ctx);
+  }
+
+  isOptional(): boolean {
+    return this.inner.isOptional();
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return { ...this.inner.jsonSchema(), nullable: true };
+  }
+}
+
+export class DefaultSchema<T> extends Schema<T> {
+  constructor(private inner: Schema<T | undefined>, private value: T) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<T> {
+    if (value === undefined || (ctx.coerce && value === '')) return this.value;
+    return this.inner.check(value, path, ctx) as Checked<T>;
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return { ...this.inner.jsonSchema(), default: this.value };
+  }
+}
+
+type StringFormat = 'date' | 'date-time' | 'email' | 'uri';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class StringSchema extends Schema<string> {
+  constructor(private options: { min?: number; max?: number; pattern?: RegExp; format?: StringFormat } = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<string> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+    if (typeof value !== 'string') return this.fail(path, ctx, 'must be a string');
+
+    const { min, max, pattern, format } = this.options;
+    if (min !== undefined && value.length < min) {
+      return this.fail(path, ctx, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+    }
+    if (max !== undefined && value.length > max) {
+      return this.fail(path, ctx, `must be at most ${max} characters`);
+    }
+    if (pattern && !pattern.test(value)) {
+      return this.fail(path, ctx, `must match ${pattern.source}`);
+    }
+    if (format && !isValidFormat(value, format)) {
+      return this.fail(path, ctx, `must be a valid ${format}`);
+    }
+
+    return value;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    const { min, max, pattern, format } = this.options;
+    return {
+      type: 'string',
+      ...(min !== undefined && { minLength: min }),
+      ...(max !== undefined && { maxLength: max }),
+      ...(pattern && { pattern: pattern.source }),
+      ...(format && { format })
+    };
+  }
+}
+
+function isValidFormat(value: string, format: StringFormat): boolean {
+  switch (format) {
+    case 'date': {
+      // Además del formato, que el día exista (2024-02-30 no vale)
+      const date = new Date(`${value}T00:00:00Z`);
+      return DATE_PATTERN.test(value) && !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }
+    case 'date-time':
+      return !Number.isNaN(Date.parse(value));
+    case 'email':
+      return EMAIL_PATTERN.test(value);
+    case 'uri':
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+      } catch {
+        return false;
+      }
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  constructor(private values: readonly T[]) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<T> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+    if (typeof value !== 'string' || !(this.values as readonly string[]).includes(value)) {
+      return this.fail(path, ctx, `must be one of: ${this.values.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return { type: 'string', enum: [...this.values] };
+  }
+}
+
+export class NumberSchema extends Schema<number> {
+  constructor(private options: { integer?: boolean; min?: number; max?: number } = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<number> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+
+    const number = ctx.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    const { integer, min, max } = this.options;
+
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return this.fail(path, ctx, integer ? 'must be an integer' : 'must be a number');
+    }
+    if (integer && !Number.isInteger(number)) return this.fail(path, ctx, 'must be an integer');
+    if (min !== undefined && number < min) return this.fail(path, ctx, `must be at least ${min}`);
+    if (max !== undefined && number > max) return this.fail(path, ctx, `must be at most ${max}`);
+
+    return number;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    const { integer, min, max } = this.options;
+    return {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max })
+    };
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  check(value: unknown, path: string, ctx: ParseContext): Checked<boolean> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+    if (typeof value === 'boolean') return value;
+
+    if (ctx.coerce && (value === 'true' || value === '1')) return true;
+    if (ctx.coerce && (value === 'false' || value === '0')) return false;
+
+    return this.fail(path, ctx, 'must be a boolean');
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(private item: Schema<T>, private options: { min?: number; max?: number } = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<T[]> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+
+    // Un parámetro de query repetido llega como lista, y uno solo como texto
+    const list = ctx.coerce && typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list)) return this.fail(path, ctx, 'must be an array');
+
+    const { min, max } = this.options;
+    if (min !== undefined && list.length < min) {
+      return this.fail(path, ctx, min === 1 ? 'must not be empty' : `must have at least ${min} items`);
+    }
+    if (max !== undefined && list.length > max) return this.fail(path, ctx, `must have at most ${max} items`);
+
+    const errors = ctx.errors.length;
+    const items = list.map((item, index) => this.item.check(item, `${path}[${index}]`, ctx));
+
+    return ctx.errors.length > errors ? INVALID : items as T[];
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    const { min, max } = this.options;
+    return {
+      type: 'array',
+      items: this.item.jsonSchema(),
+      ...(min !== undefined && { minItems: min }),
+      ...(max !== undefined && { maxItems: max })
+    };
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<S extends Shape> = Simplify<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }
+>;
+
+/**
+ * Objeto con campos conocidos. Los campos que no están en el esquema se descartan,
+ * salvo en los objetos estrictos, que los rechazan.
+ */
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> {
+  constructor(readonly shape: S, private isStrict: boolean = false) {
+    super();
+  }
+
+  strict(): ObjectSchema<S> {
+    return new ObjectSchema(this.shape, true);
+  }
+
+  check(value: unknown, path: string, ctx: ParseContext): Checked<ObjectOutput<S>> {
+    if (value === undefined) return this.fail(path, ctx, 'is required');
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return this.fail(path, ctx, 'must be an object');
+    }
+
+    const errors = ctx.errors.length;
+    const result: Record<string, unknown> = {};
+
+    if (this.isStrict) {
+      for (const key of Object.keys(value).filter(key => !(key in this.shape))) {
+        this.fail(path ? `${path}.${key}` : key, ctx, 'is not allowed');
+      }
+    }
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const field = schema.check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, ctx);
+      // Los campos ausentes siguen ausentes: los servicios distinguen "no enviado" de null
+      if (field !== undefined && field !== INVALID) result[key] = field;
+    }
+
+    return ctx.errors.length > errors ? INVALID : result as ObjectOutput<S>;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    const required = Object.entries(this.shape)
+      .filter(([, schema]) => !schema.isOptional())
+      .map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(this.shape).map(([key, schema]) => [key, schema.jsonSchema()])),
+      ...(required.length > 0 && { required }),
+      ...(this.isStrict && { additionalProperties: false })
+    };
+  }
+}
+
+export class UnknownSchema extends Schema<unknown> {
+  check(value: unknown, path: string, ctx: ParseContext): Checked<unknown> {
+    return value === undefined ? this.fail(path, ctx, 'is required') : value;
+  }
+
+  protected toJsonSchema(): JsonSchema {
+    return {};
+  }
+}
+
+export const v = {
+  string: (options?: { min?: number; max?: number; pattern?: RegExp; format?: StringFormat }) => new StringSchema(options),
+  enumeration: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  number: (options?: { min?: number; max?: number }) => new NumberSchema(options),
+  integer: (options?: { min?: number; max?: number }) => new NumberSchema({ ...options, integer: true }),
+  boolean: () => new BooleanSchema(),
+  array: <T>(item: Schema<T>, options?: { min?: number; max?: number }) => new ArraySchema(item, options),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+  unknown: () => new UnknownSchema()
+};
+
+// =====================================================
+// MIDDLEWARES
+// =====================================================
+
+// Esquema que valida una ruta, para el documento OpenAPI
+export const ROUTE_SCHEMA = Symbol('routeSchema');
+
+export interface RouteSchema {
+  target: ValidationTarget;
+  schema: Schema<unknown>;
+}
+
+/**
+ * Respuesta 400 común a todas las validaciones
+ */
+export function validationErrorResponse(c: Context, errors: FieldError[]): Response {
+  return c.json({ success: false, error: 'Invalid request', errors }, 400);
+}
+
+function validationMiddleware<Target extends ValidationTarget, T>(
+  target: Target,
+  schema: Schema<T>,
+  read: (c: Context) => Promise<unknown> | unknown
+): MiddlewareHandler<any, string, { out: { [K in Target]: T } }> {
+  const middleware: MiddlewareHandler = async (c, next) => {
+    let value: unknown;
+    try {
+      value = await read(c);
+    } catch {
+      return validationErrorResponse(c, [{ field: '(root)', location: target, message: 'must be valid JSON' }]);
+    }
+
+    const result = schema.parse(value, target);
+    if (!result.success) {
+      return validationErrorResponse(c, result.errors);
+    }
+
+    c.req.addValidatedData(target, result.data as object);
+    return next();
+  };
+
+  return Object.assign(middleware, { [ROUTE_SCHEMA]: { target, schema } as RouteSchema });
+}
+
+/**
+ * Valida la query string; el resultado se obtiene con c.req.valid('query')
+ */
+export function validateQuery<T>(schema: Schema<T>) {
+  return validationMiddleware('query', schema, c => Object.fromEntries(
+    Object.entries(c.req.queries()).map(([key, values]) => [key, values.length === 1 ? values[0] : values])
+  ));
+}
+
+/**
+ * Valida los parámetros de la ruta; el resultado se obtiene con c.req.valid('param')
+ */
+export function validateParams<T>(schema: Schema<T>) {
+  return validationMiddleware('param', schema, c => c.req.param());
+}
+
+/**
+ * Valida el cuerpo JSON (sin cuerpo se valida un objeto vacío); el resultado se obtiene con c.req.valid('json')
+ */
+export function validateBody<T>(schema: Schema<T>) {
+  return validationMiddleware('json', schema, async c => {
+    const text = await c.req.text();
+    return text.trim() === '' ? {} : JSON.parse(text);
+  });
+}
+
+/**
+ * Documenta el cuerpo de una ruta que lo valida por su cuenta (por ejemplo, porque puede ser JSON o XML)
+ */
+export function documentBody<T>(schema: Schema<T>): MiddlewareHandler {
+  const middleware: MiddlewareHandler = (_c, next) => next();
+  return Object.assign(middleware, { [ROUTE_SCHEMA]: { target: 'json', schema } as RouteSchema });
+}
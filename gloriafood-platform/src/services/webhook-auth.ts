@@ -0,0 +1,207 @@
+import type { Env } from '../types';
+import { GloriaFoodClient, timingSafeEqual } from './gloriafood-client';
+
+// Intentos fallidos permitidos a un mismo origen (IP) en cada ventana
+export const MAX_FAILED_ATTEMPTS = 10;
+const FAILED_ATTEMPTS_WINDOW = 15 * 60;
+
+// Diferencia máxima (segundos) entre el timestamp firmado y la hora del Worker
+export const SIGNATURE_TOLERANCE = 5 * 60;
+
+// KV no admite caducidades de menos de 60 segundos
+const MIN_KV_TTL = 60;
+
+export type WebhookAuthResult =
+  | { result: 'ok' }
+  | { result: 'forbidden'; error: string }
+  | { result: 'rate_limited'; retryAfter: number }
+  | { result: 'unauthorized'; error: string };
+
+export interface WebhookAuthRequest {
+  ip: string | null;
+  authorization: string | undefined;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  body: string;
+}
+
+interface FailedAttempts {
+  count: number;
+  reset_at: number; // epoch en segundos
+}
+
+/**
+ * HMAC-SHA256 en hexadecimal
+ */
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Bytes de una dirección IPv4 o IPv6, o null si no es válida
+ */
+function parseIp(ip: string): number[] | null {
+  if (ip.includes('.') && !ip.includes(':')) {
+    const parts = ip.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+      return null;
+    }
+    return parts.map(Number);
+  }
+
+  const halves = ip.toLowerCase().split('::');
+  if (halves.length > 2) return null;
+
+  const groups = halves.map(half => (half === '' ? [] : half.split(':')));
+  const missing = 8 - groups.reduce((total, half) => total + half.length, 0);
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const all = halves.length === 1 ? groups[0] : [...groups[0], ...Array(missing).fill('0'), ...groups[1]];
+  if (!all.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return all.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Indica si una IP está dentro de una entrada de la allowlist (IP exacta o rango CIDR)
+ */
+function ipMatches(ip: number[], entry: string): boolean {
+  const [address, prefix] = entry.split('/');
+  const range = parseIp(address);
+  if (!range || range.length !== ip.length) return false;
+
+  const bits = prefix === undefined ? ip.length * 8 : Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > ip.length * 8) return false;
+
+  for (let i = 0; i < ip.length; i++) {
+    const maskBits = Math.min(8, Math.max(0, bits - i * 8));
+    const mask = (0xff << (8 - maskBits)) & 0xff;
+    if ((ip[i] & mask) !== (range[i] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Autenticación del webhook de pedidos: master key (actual o anterior) comparada
+ * en tiempo constante, allowlist de IPs, límite de intentos fallidos por IP y,
+ * si se configura WEBHOOK_SIGNING_SECRET, firma con timestamp de los proxies relay
+ */
+export class WebhookAuthService {
+  private env: Env;
+  private cache: KVNamespace;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.cache = env.CACHE;
+  }
+
+  /**
+   * Comprueba una petición al webhook; los fallos cuentan para el límite de su IP
+   */
+  async authenticate(request: WebhookAuthRequest): Promise<WebhookAuthResult> {
+    if (!this.isAllowedIp(request.ip)) {
+      return { result: 'forbidden', error: 'IP address not allowed' };
+    }
+
+    const source = request.ip || 'unknown';
+    const now = Math.floor(Date.now() / 1000);
+    const failures = await this.cache.get<FailedAttempts>(this.failuresKey(source), 'json');
+    const activeFailures = failures && failures.reset_at > now ? failures : null;
+
+    if (activeFailures && activeFailures.count >= MAX_FAILED_ATTEMPTS) {
+      return { result: 'rate_limited', retryAfter: activeFailures.reset_at - now };
+    }
+
+    const error = await this.check(request, now);
+
+    if (error) {
+      const count = (activeFailures?.count ?? 0) + 1;
+      const resetAt = activeFailures?.reset_at ?? now + FAILED_ATTEMPTS_WINDOW;
+      await this.cache.put(
+        this.failuresKey(source),
+        JSON.stringify({ count, reset_at: resetAt }),
+        { expirationTtl: Math.max(MIN_KV_TTL, resetAt - now) }
+      );
+      return { result: 'unauthorized', error };
+    }
+
+    return { result: 'ok' };
+  }
+
+  /**
+   * Sin allowlist se aceptan todas las IPs
+   */
+  private isAllowedIp(ip: string | null): boolean {
+    const entries = (this.env.WEBHOOK_IP_ALLOWLIST || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+    if (entries.length === 0) return true;
+
+    const parsed = ip ? parseIp(ip) : null;
+    return !!parsed && entries.some(entry => ipMatches(parsed, entry));
+  }
+
+  private async check(request: WebhookAuthRequest, now: number): Promise<string | null> {
+    const masterKeys = [this.env.GLORIAFOOD_MASTER_KEY, this.env.GLORIAFOOD_MASTER_KEY_PREVIOUS];
+
+    if (!await GloriaFoodClient.validateWebhookRequest(request.authorization, masterKeys)) {
+      return 'Invalid master key';
+    }
+
+    if (this.env.WEBHOOK_SIGNING_SECRET) {
+      return this.checkSignature(request, this.env.WEBHOOK_SIGNING_SECRET, now);
+    }
+
+    return null;
+  }
+
+  /**
+   * Firma `sha256=HMAC(secret, "{timestamp}.{body}")`, el mismo formato que los webhooks salientes.
+   * Cada firma se acepta una sola vez, así que una petición capturada no se puede repetir.
+   */
+  private async checkSignature(request: WebhookAuthRequest, secret: string, now: number): Promise<string | null> {
+    if (!request.timestamp || !request.signature) {
+      return 'Missing signature';
+    }
+
+    const timestamp = Number(request.timestamp);
+    if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE) {
+      return 'Signature timestamp outside the allowed window';
+    }
+
+    const expected = `sha256=${await hmacHex(secret, `${timestamp}.${request.body}`)}`;
+    if (!await timingSafeEqual(request.signature, expected)) {
+      return 'Invalid signature';
+    }
+
+    // Se recuerda mientras el timestamp siga dentro de la ventana
+    const replayKey = `webhook_signature:${expected}`;
+    if (await this.cache.get(replayKey)) {
+      return 'Signature already used';
+    }
+    await this.cache.put(replayKey, String(timestamp), {
+      expirationTtl: Math.max(MIN_KV_TTL, timestamp + SIGNATURE_TOLERANCE - now + 1)
+    });
+
+    return null;
+  }
+
+  private failuresKey(source: string): string {
+    return `webhook_auth_failures:${source}`;
+  }
+}
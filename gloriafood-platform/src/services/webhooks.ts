@@ -0,0 +1,449 @@
+import type {
+  Env,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionInput
+} from '../types';
+
+// Nombre de la cola de envíos (debe coincidir con wrangler.toml)
+export const WEBHOOKS_QUEUE = 'gloriafood-webhooks';
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'order.created',
+  'order.status_changed',
+  'menu.synced',
+  'client.created'
+];
+
+// Intentos de envío antes de marcar un webhook como fallido
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Tiempo máximo de espera de la respuesta del destino
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Longitud máxima de la respuesta guardada en cada intento
+const MAX_RESPONSE_BODY = 1000;
+
+/**
+ * Segundos de espera antes del siguiente envío (backoff exponencial, máx. 1 hora)
+ */
+export function deliveryBackoff(attempts: number): number {
+  return Math.min(30 * 2 ** (attempts - 1), 3600);
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as string[]).includes(value);
+}
+
+// Columnas públicas (el secret solo se devuelve al crear o rotar la suscripción)
+const PUBLIC_COLUMNS = 'id, restaurant_id, url, events, description, active, created_at, updated_at';
+
+type SubscriptionRow = Omit<WebhookSubscription, 'events'> & { events: string };
+
+/**
+ * Servicio de webhooks salientes: suscripciones, envíos firmados con HMAC y reintentos
+ */
+export class WebhooksService {
+  private env: Env;
+  private db: D1Database;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.db = env.DB;
+  }
+
+  /**
+   * Obtiene las suscripciones de un restaurante
+   */
+  async getSubscriptions(restaurantId: number): Promise<WebhookSubscription[]> {
+    const subscriptions = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM webhook_subscriptions WHERE restaurant_id = ? ORDER BY id`
+    ).bind(restaurantId).all<SubscriptionRow>();
+
+    return subscriptions.results.map(s => this.toSubscription(s));
+  }
+
+  /**
+   * Obtiene una suscripción de un restaurante
+   */
+  async getSubscription(id: number, restaurantId: number): Promise<WebhookSubscription | null> {
+    const subscription = await this.db.prepare(
+      `SELECT ${PUBLIC_COLUMNS} FROM webhook_subscriptions WHERE id = ? AND restaurant_id = ?`
+    ).bind(id, restaurantId).first<SubscriptionRow>();
+
+    return subscription ? this.toSubscription(subscription) : null;
+  }
+
+  /**
+   * Valida los datos de una suscripción; devuelve el error o null
+   */
+  validateSubscription(data: WebhookSubscriptionInput, partial: boolean): string | null {
+    if (!partial || data.url !== undefined) {
+      if (!data.url || !this.isValidUrl(data.url)) {
+        return 'url must be a valid http(s) URL';
+      }
+    }
+
+    if (!partial || data.events !== undefined) {
+      if (!Array.isArray(data.events) || data.events.length === 0) {
+        return 'events must be a non-empty array';
+      }
+      const invalid = data.events.filter(e => !isWebhookEvent(e));
+      if (invalid.length > 0) {
+        return `Invalid events: ${invalid.join(', ')}. Valid values: ${WEBHOOK_EVENTS.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Crea una suscripción y devuelve su secret de firma
+   */
+  async createSubscription(
+    restaurantId: number,
+    data: WebhookSubscriptionInput
+  ): Promise<{ id: number; secret: string }> {
+    const secret = this.generateSecret();
+
+    const result = await this.db.prepare(`
+      INSERT INTO webhook_subscriptions (restaurant_id, url, events, secret, description, active)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      restaurantId,
+      data.url,
+      JSON.stringify([...new Set(data.events)]),
+      secret,
+      data.description || null,
+      data.active === false ? 0 : 1
+    ).run();
+
+    return { id: result.meta.last_row_id as number, secret };
+  }
+
+  /**
+   * Actualiza una suscripción
+   */
+  async updateSubscription(id: number, restaurantId: number, data: WebhookSubscriptionInput): Promise<boolean> {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (data.url !== undefined) {
+      fields.push('url = ?');
+      values.push(data.url);
+    }
+    if (data.events !== undefined) {
+      fields.push('events = ?');
+      values.push(JSON.stringify([...new Set(data.events)]));
+    }
+    if (data.description !== undefined) {
+      fields.push('description = ?');
+      values.push(data.description || null);
+    }
+    if (data.active !== undefined) {
+      fields.push('active = ?');
+      values.push(data.active ? 1 : 0);
+    }
+
+    if (fields.length === 0) return false;
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, restaurantId);
+
+    const result = await this.db.prepare(
+      `UPDATE webhook_subscriptions SET ${fields.join(', ')} WHERE id = ? AND restaurant_id = ?`
+    ).bind(...values).run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Genera un nuevo secret de firma para una suscripción
+   */
+  async rotateSecret(id: number, restaurantId: number): Promise<string | null> {
+    const secret = this.generateSecret();
+
+    const result = await this.db.prepare(`
+      UPDATE webhook_subscriptions SET secret = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND restaurant_id = ?
+    `).bind(secret, id, restaurantId).run();
+
+    return result.meta.changes > 0 ? secret : null;
+  }
+
+  /**
+   * Elimina una suscripción (y su historial de envíos)
+   */
+  async deleteSubscription(id: number, restaurantId: number): Promise<boolean> {
+    const subscription = await this.getSubscription(id, restaurantId);
+    if (!subscription) return false;
+
+    await this.db.batch([
+      this.db.prepare(`
+        DELETE FROM webhook_delivery_attempts WHERE delivery_id IN (
+          SELECT id FROM webhook_deliveries WHERE subscription_id = ?
+        )
+      `).bind(id),
+      this.db.prepare('DELETE FROM webhook_deliveries WHERE subscription_id = ?').bind(id),
+      this.db.prepare('DELETE FROM webhook_subscriptions WHERE id = ?').bind(id)
+    ]);
+
+    return true;
+  }
+
+  /**
+   * Crea un envío para cada suscripción activa del restaurante interesada en el evento
+   * y los encola. Un fallo aquí nunca debe hacer fallar la operación que genera el evento.
+   */
+  async dispatch(restaurantId: number, eventType: WebhookEventType, data: unknown): Promise<void> {
+    try {
+      const subscriptions = await this.db.prepare(`
+        SELECT id FROM webhook_subscriptions
+        WHERE restaurant_id = ? AND active = 1
+          AND EXISTS (SELECT 1 FROM json_each(webhook_subscriptions.events) WHERE value = ?)
+      `).bind(restaurantId, eventType).all<{ id: number }>();
+
+      if (subscriptions.results.length === 0) return;
+
+      const payload = JSON.stringify({
+        event: eventType,
+        restaurant_id: restaurantId,
+        created_at: new Date().toISOString(),
+        data
+      });
+
+      const results = await this.db.batch(subscriptions.results.map(s =>
+        this.db.prepare(
+          'INSERT INTO webhook_deliveries (subscription_id, event_type, payload) VALUES (?, ?, ?)'
+        ).bind(s.id, eventType, payload)
+      ));
+
+      await this.env.WEBHOOKS_QUEUE.sendBatch(results.map(r => ({
+        body: { deliveryId: r.meta.last_row_id as number }
+      })));
+    } catch (error) {
+      console.error(`Webhook dispatch failed for ${eventType} (restaurant ${restaurantId}):`, error);
+    }
+  }
+
+  /**
+   * Envía un webhook y registra el intento.
+   * Indica si hay que reintentar; tras el último intento el envío queda como fallido.
+   */
+  async deliver(deliveryId: number, attempt: number): Promise<{ delivered: boolean; retry: boolean }> {
+    const delivery = await this.db.prepare(`
+      SELECT d.*, s.url, s.secret, s.active
+      FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON d.subscription_id = s.id
+      WHERE d.id = ?
+    `).bind(deliveryId).first<WebhookDelivery & { url: string; secret: string; active: number }>();
+
+    if (!delivery || delivery.status === 'delivered') {
+      return { delivered: false, retry: false };
+    }
+
+    // Las suscripciones desactivadas no reciben envíos pendientes
+    if (!delivery.active) {
+      await this.db.prepare(
+        "UPDATE webhook_deliveries SET status = 'failed', last_error = ? WHERE id = ?"
+      ).bind('Subscription is inactive', deliveryId).run();
+      return { delivered: false, retry: false };
+    }
+
+    const attemptNumber = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await this.sign(delivery.secret, `${timestamp}.${delivery.payload}`);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'gloriafood-platform-webhooks',
+          'X-Webhook-Id': String(deliveryId),
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signature}`
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    await this.db.prepare(`
+      INSERT INTO webhook_delivery_attempts (
+        delivery_id, attempt, response_status, response_body, error_message, duration_ms
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(deliveryId, attemptNumber, responseStatus, responseBody, errorMessage, Date.now() - startedAt).run();
+
+    if (!errorMessage) {
+      await this.updateDelivery(deliveryId, 'delivered', responseStatus, null);
+      return { delivered: true, retry: false };
+    }
+
+    const isFinalAttempt = attempt >= MAX_DELIVERY_ATTEMPTS;
+    await this.updateDelivery(deliveryId, isFinalAttempt ? 'failed' : 'retrying', responseStatus, errorMessage);
+
+    return { delivered: false, retry: !isFinalAttempt };
+  }
+
+  /**
+   * Marca como fallido un envío cuyo último intento ha fallado con una excepción
+   * (por ejemplo, un error de D1), para que no se quede en 'retrying'
+   */
+  async failDelivery(deliveryId: number, errorMessage: string): Promise<void> {
+    await this.db.prepare(
+      "UPDATE webhook_deliveries SET status = 'failed', last_error = ? WHERE id = ? AND status != 'delivered'"
+    ).bind(errorMessage, deliveryId).run();
+  }
+
+  /**
+   * Obtiene los envíos de un restaurante con paginación
+   */
+  async getDeliveries(restaurantId: number, page: number = 1, limit: number = 20, filters?: {
+    subscriptionId?: number;
+    status?: string;
+    eventType?: string;
+  }): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    let whereClause = 's.restaurant_id = ?';
+    const params: (string | number)[] = [restaurantId];
+
+    if (filters?.subscriptionId) {
+      whereClause += ' AND d.subscription_id = ?';
+      params.push(filters.subscriptionId);
+    }
+    if (filters?.status) {
+      whereClause += ' AND d.status = ?';
+      params.push(filters.status);
+    }
+    if (filters?.eventType) {
+      whereClause += ' AND d.event_type = ?';
+      params.push(filters.eventType);
+    }
+
+    const countResult = await this.db.prepare(`
+      SELECT COUNT(*) as total FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON d.subscription_id = s.id
+      WHERE ${whereClause}
+    `).bind(...params).first<{ total: number }>();
+
+    const offset = (page - 1) * limit;
+    const deliveries = await this.db.prepare(`
+      SELECT d.* FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON d.subscription_id = s.id
+      WHERE ${whereClause}
+      ORDER BY d.created_at DESC, d.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<WebhookDelivery>();
+
+    return { deliveries: deliveries.results, total: countResult?.total || 0 };
+  }
+
+  /**
+   * Obtiene un envío de un restaurante con sus intentos
+   */
+  async getDelivery(id: number, restaurantId: number): Promise<{
+    delivery: WebhookDelivery;
+    attempts: WebhookDeliveryAttempt[];
+  } | null> {
+    const delivery = await this.db.prepare(`
+      SELECT d.* FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON d.subscription_id = s.id
+      WHERE d.id = ? AND s.restaurant_id = ?
+    `).bind(id, restaurantId).first<WebhookDelivery>();
+
+    if (!delivery) return null;
+
+    const attempts = await this.db.prepare(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = ? ORDER BY attempt'
+    ).bind(id).all<WebhookDeliveryAttempt>();
+
+    return { delivery, attempts: attempts.results };
+  }
+
+  /**
+   * Vuelve a encolar un envío (fallido o ya entregado) con el mismo payload
+   */
+  async redeliver(id: number): Promise<void> {
+    await this.db.prepare(
+      "UPDATE webhook_deliveries SET status = 'pending', last_error = NULL WHERE id = ?"
+    ).bind(id).run();
+
+    await this.env.WEBHOOKS_QUEUE.send({ deliveryId: id });
+  }
+
+  /**
+   * Firma HMAC-SHA256 en hexadecimal
+   */
+  private async sign(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+    return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return 'whsec_' + [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private isValidUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+
+  private toSubscription(row: SubscriptionRow): WebhookSubscription {
+    return {
+      ...row,
+      events: JSON.parse(row.events),
+      active: !!row.active
+    };
+  }
+
+  /**
+   * Actualiza el estado de un envío tras un intento (cuenta el intento)
+   */
+  private async updateDelivery(
+    id: number,
+    status: WebhookDelivery['status'],
+    responseStatus: number | null,
+    lastError: string | null
+  ): Promise<void> {
+    await this.db.prepare(`
+      UPDATE webhook_deliveries SET
+        status = ?,
+        attempts = attempts + 1,
+        last_response_status = ?,
+        last_error = ?,
+        delivered_at = CASE WHEN ? = 'delivered' THEN CURRENT_TIMESTAMP ELSE delivered_at END
+      WHERE id = ?
+    `).bind(status, responseStatus, lastError, status, id).run();
+  }
+}
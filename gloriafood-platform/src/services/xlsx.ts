@@ -0,0 +1,241 @@
+/**
+ * Escritor de hojas XLSX por partes, para exportaciones en streaming.
+ *
+ * Un XLSX es un ZIP de ficheros XML. Las entradas se guardan sin comprimir y
+ * con "data descriptor" (CRC y tamaño al final de cada entrada), así cada fila
+ * se puede emitir en cuanto se genera sin tener la hoja entera en memoria.
+ */
+
+import { neutralizeFormula } from './reports';
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Bit 3: CRC y tamaños en el data descriptor; bit 11: nombres en UTF-8
+const ZIP_FLAGS = 0x0808;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`;
+
+const workbook = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`;
+
+const SHEET_END = '</sheetData></worksheet>';
+
+function escapeXml(text: string): string {
+  return text
+    // Caracteres de control no permitidos en XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Letra(s) de una columna a partir de su índice (0 = A)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Fecha y hora en formato MS-DOS (la precisión es de 2 segundos)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+  };
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  offset: number;
+  crc: number;
+  size: number;
+}
+
+/**
+ * Libro XLSX de una sola hoja. Cada método devuelve los bytes que hay que
+ * enviar a continuación; el fichero completo es la concatenación de todos.
+ */
+export class XlsxWriter {
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+  private offset = 0;
+  private rowNumber = 0;
+  private modified = dosDateTime(new Date());
+  private sheetName: string;
+
+  constructor(sheetName: string) {
+    this.sheetName = sheetName;
+  }
+
+  /**
+   * Inicio del fichero: partes fijas del libro, apertura de la hoja y fila de cabecera
+   */
+  start(columns: string[]): Uint8Array {
+    return concat([
+      this.file('[Content_Types].xml', CONTENT_TYPES),
+      this.file('_rels/.rels', ROOT_RELS),
+      this.file('xl/workbook.xml', workbook(this.sheetName)),
+      this.file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS),
+      this.beginEntry('xl/worksheets/sheet1.xml'),
+      this.write(SHEET_START),
+      this.row(columns)
+    ]);
+  }
+
+  /**
+   * Una fila de la hoja. Los números van como números y el resto como texto
+   * (neutralizado como fórmula, como en el CSV).
+   */
+  row(values: unknown[]): Uint8Array {
+    const rowNumber = ++this.rowNumber;
+    const cells = values.map((value, index) => {
+      const ref = `${columnName(index)}${rowNumber}`;
+      if (value === null || value === undefined || value === '') return '';
+      if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+      if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(neutralizeFormula(String(value)))}</t></is></c>`;
+    });
+
+    return this.write(`<row r="${rowNumber}">${cells.join('')}</row>`);
+  }
+
+  /**
+   * Cierre de la hoja y directorio central del ZIP
+   */
+  finish(): Uint8Array {
+    const parts = [this.write(SHEET_END), this.endEntry()];
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, 20, true);
+      header.setUint16(8, ZIP_FLAGS, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, this.modified.time, true);
+      header.setUint16(14, this.modified.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+      parts.push(this.emit(new Uint8Array(header.buffer)), this.emit(entry.name));
+    }
+    const directorySize = this.offset - directoryOffset;
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+    parts.push(this.emit(new Uint8Array(end.buffer)));
+
+    return concat(parts);
+  }
+
+  private file(name: string, content: string): Uint8Array {
+    return concat([this.beginEntry(name), this.write(content), this.endEntry()]);
+  }
+
+  private beginEntry(name: string): Uint8Array {
+    const entry: ZipEntry = { name: encoder.encode(name), offset: this.offset, crc: 0xffffffff, size: 0 };
+    this.current = entry;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, ZIP_FLAGS, true);
+    header.setUint16(8, 0, true);
+    header.setUint16(10, this.modified.time, true);
+    header.setUint16(12, this.modified.date, true);
+    header.setUint16(26, entry.name.length, true);
+
+    return concat([this.emit(new Uint8Array(header.buffer)), this.emit(entry.name)]);
+  }
+
+  private write(content: string): Uint8Array {
+    const entry = this.current as ZipEntry;
+    const bytes = encoder.encode(content);
+
+    let crc = entry.crc;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    entry.crc = crc;
+    entry.size += bytes.length;
+
+    return this.emit(bytes);
+  }
+
+  private endEntry(): Uint8Array {
+    const entry = this.current as ZipEntry;
+    entry.crc = (entry.crc ^ 0xffffffff) >>> 0;
+    this.entries.push(entry);
+    this.current = null;
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.size, true);
+    descriptor.setUint32(12, entry.size, true);
+
+    return this.emit(new Uint8Array(descriptor.buffer));
+  }
+
+  private emit(bytes: Uint8Array): Uint8Array {
+    this.offset += bytes.length;
+    return bytes;
+  }
+}
@@ -6,13 +6,27 @@
 export interface Env {
   DB: D1Database;
   CACHE: KVNamespace;
-  GLORIAFOOD_SECRET_KEY: string;
+  ORDERS_QUEUE: Queue<OrderQueueMessage>;
+  ORDER_FEED: DurableObjectNamespace;
+  WEBHOOKS_QUEUE: Queue<WebhookQueueMessage>;
   GLORIAFOOD_MASTER_KEY: string;
+  GLORIAFOOD_MASTER_KEY_PREVIOUS?: string; // Se sigue aceptando mientras se rota la master key
+  WEBHOOK_IP_ALLOWLIST?: string; // IPs o rangos CIDR separados por comas
+  WEBHOOK_SIGNING_SECRET?: string; // Activa la firma con timestamp (proxies relay)
   GLORIAFOOD_API_URL: string;
   API_VERSION: string;
   API_AUTH_TOKEN: string;
 }
 
+// Variables de contexto de Hono disponibles en las rutas
+export interface AppVariables {
+  restaurant: Restaurant;
+  apiKey: ApiKey | null; // null con el token general (API_AUTH_TOKEN)
+  requestId: string;
+}
+
+export type AppEnv = { Bindings: Env; Variables: AppVariables };
+
 // =====================================================
 // TIPOS DE PEDIDOS (Orders)
 // =====================================================
@@ -255,10 +269,73 @@ export interface Restaurant {
   timezone: string;
   currency: string;
   active: boolean;
+  has_secret_key: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Permisos de las API keys ('admin' incluye todos los demás)
+export type ApiScope = 'orders:read' | 'orders:write' | 'menu:sync' | 'clients:pii' | 'stats:read' | 'admin';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;
+  scopes: ApiScope[];
+  restaurant_id: number | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyInput {
+  name?: string;
+  scopes?: string[];
+  restaurant_id?: number | null;
+  expires_at?: string | null;
+}
+
+// Log de auditoría de las llamadas que modifican datos
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Lo que indica cada ruta al registrar una modificación
+export interface AuditTarget {
+  entity_type: string;
+  entity_id: number | null;
+  action: string;
+  restaurant_id?: number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  request_id: string;
+  restaurant_id: number | null;
+  api_key_id: number | null;
+  actor: string;
+  method: string;
+  route: string;
+  path: string;
+  entity_type: string;
+  entity_id: number | null;
+  action: string;
+  changes: AuditChanges | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface RestaurantInput {
+  gloriafood_id?: number | null;
+  restaurant_key?: string;
+  name?: string;
+  timezone?: string;
+  currency?: string;
+  active?: boolean;
+  secret_key?: string | null;
+}
+
 export interface Client {
   id: number;
   gloriafood_id: number | null;
@@ -266,19 +343,179 @@ export interface Client {
   last_name: string | null;
   email: string | null;
   phone: string | null;
+  email_normalized: string | null;
+  phone_normalized: string | null;
   order_count: number;
   marketing_consent: boolean;
+  merged_into_id: number | null;
+  anonymized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Historial del consentimiento de marketing
+export type ConsentSource = 'gloriafood' | 'api' | 'erasure';
+
+export interface ClientConsentChange {
+  id: number;
+  client_id: number;
+  restaurant_id: number | null;
+  marketing_consent: boolean;
+  previous_consent: boolean | null;
+  source: ConsentSource;
+  order_gloriafood_id: number | null;
+  created_at: string;
+}
+
+// Registros afectados por el borrado (anonimización) de un cliente
+export interface ClientErasure {
+  client_id: number;
+  clients_anonymized: number;
+  orders_scrubbed: number;
+  addresses_deleted: number;
+  billing_details_scrubbed: number;
+  payloads_scrubbed: number;
+}
+
+export type ClientErasureResult =
+  | { result: 'erased'; erasure: ClientErasure }
+  | { result: 'not_found' }
+  | { result: 'already_anonymized'; anonymized_at: string };
+
+// Clientes del restaurante que comparten email o teléfono normalizado
+export interface DuplicateClientGroup {
+  match: 'email' | 'phone';
+  value: string;
+  clients: Client[];
+}
+
+export interface ClientMerge {
+  id: number;
+  restaurant_id: number;
+  survivor_id: number;
+  merged_id: number;
+  merged_snapshot: Client;
+  orders_moved: number;
+  addresses_moved: number;
+  created_at: string;
+}
+
+export type ClientMergeResult =
+  | { result: 'merged'; client: Client; merges: ClientMerge[] }
+  | { result: 'not_found'; ids: number[] }
+  | { result: 'invalid'; error: string };
+
+// Segmentación RFM (recencia, frecuencia, importe) de los clientes de un restaurante
+export type ClientSegment = 'champions' | 'loyal' | 'new' | 'at_risk' | 'lost';
+
+export interface ClientSegmentRecord {
+  client_id: number;
+  restaurant_id: number;
+  segment: ClientSegment;
+  recency_days: number;
+  frequency: number;
+  monetary: number;
+  r_score: number;
+  f_score: number;
+  m_score: number;
+  avg_interval_days: number | null;
+  churn_risk: boolean;
+  first_order_at: string;
+  last_order_at: string;
+  computed_at: string;
+}
+
+export interface ClientSegmentSummary {
+  segment: ClientSegment;
+  clients: number;
+  churn_risk: number;
+  avg_recency_days: number;
+  avg_frequency: number;
+  avg_monetary: number;
+}
+
+// Filtros del listado (y la exportación) de clientes
+export interface ClientFilters {
+  search?: string;
+  segment?: ClientSegment;
+  churnRisk?: boolean;
+}
+
+// Audiencias de marketing: filtros sobre los pedidos válidos del cliente en el restaurante
+export interface AudienceFilters {
+  last_order_after?: string; // Fechas locales YYYY-MM-DD (inclusivas)
+  last_order_before?: string;
+  last_order_within_days?: number;
+  inactive_days?: number; // Sin pedidos en los últimos N días
+  min_orders?: number;
+  max_orders?: number;
+  min_spent?: number;
+  max_spent?: number;
+  favorite_product?: string; // Producto más pedido (por unidades)
+  delivery_zone?: string; // Ha pedido alguna vez en la zona
+  order_type?: 'pickup' | 'delivery'; // Ha hecho algún pedido de este tipo
+  used_coupon?: boolean;
+  coupon_code?: string; // Ha usado este cupón
+}
+
+export interface MarketingAudience {
+  id: number;
+  restaurant_id: number;
+  name: string;
+  description: string | null;
+  filters: AudienceFilters;
   created_at: string;
   updated_at: string;
 }
 
+export interface MarketingAudienceInput {
+  name?: string;
+  description?: string | null;
+  filters?: AudienceFilters;
+}
+
+export interface AudienceMember {
+  client_id: number;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  order_count: number;
+  total_spent: number;
+  last_order_at: string;
+}
+
+export interface AudienceExport {
+  id: number;
+  restaurant_id: number;
+  audience_id: number | null;
+  audience_name: string;
+  filters: AudienceFilters;
+  client_count: number;
+  api_key_id: number | null;
+  requested_by: string; // API key autenticada o 'API_AUTH_TOKEN'
+  requested_by_header: string | null; // Cabecera X-Requested-By, sin verificar
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export type OrderStatus =
+  | 'accepted'
+  | 'preparing'
+  | 'ready'
+  | 'out_for_delivery'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded';
+
 export interface Order {
   id: number;
   gloriafood_id: number;
   pos_system_id: number | null;
   restaurant_id: number | null;
   client_id: number | null;
-  status: string;
+  status: OrderStatus;
   type: 'pickup' | 'delivery';
   source: string | null;
   currency: string;
@@ -300,11 +537,283 @@ export interface Order {
   delivery_zone: string | null;
   outside_delivery_area: boolean;
   tip_amount: number;
+  price_check: PriceCheckStatus;
+  expected_sub_total_price: number | null;
+  expected_tax_value: number | null;
+  expected_total_price: number | null;
   raw_payload: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Validación de precios de un pedido contra el menú sincronizado
+export type PriceCheckStatus = 'ok' | 'mismatch' | 'unchecked';
+
+export type PriceDiscrepancyKind = 'price' | 'not_in_menu' | 'removed_from_menu' | 'line_total';
+
+export interface PriceDiscrepancy {
+  item_gloriafood_id: number;
+  type_id: number | null;
+  entity_type: 'item' | 'size' | 'option';
+  name: string;
+  kind: PriceDiscrepancyKind;
+  expected: number | null;
+  actual: number | null;
+}
+
+export interface PriceValidationResult {
+  status: PriceCheckStatus;
+  expected_sub_total_price: number | null;
+  expected_tax_value: number | null;
+  expected_total_price: number | null;
+  discrepancies: PriceDiscrepancy[];
+}
+
+export interface OrderStatusHistory {
+  id: number;
+  order_id: number;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface OrderItemDetail {
+  id: number;
+  order_id: number;
+  gloriafood_id: number | null;
+  parent_id: number | null;
+  name: string;
+  type: OrderItem['type'];
+  type_id: number | null;
+  quantity: number;
+  price: number;
+  total_price: number;
+  tax_rate: number;
+  tax_value: number;
+  tax_type: string | null;
+  item_discount: number;
+  cart_discount: number;
+  cart_discount_rate: number;
+  instructions: string | null;
+  kitchen_internal_name: string | null;
+  coupon: string | null;
+  options: OrderItemOptionDetail[];
+}
+
+export interface OrderItemOptionDetail {
+  id: number;
+  name: string;
+  group_name: string | null;
+  type: 'size' | 'option';
+  quantity: number;
+  price: number;
+  kitchen_internal_name: string | null;
+}
+
+export interface OrderTaxDetail {
+  type: string;
+  rate: number;
+  value: number;
+}
+
+export type TicketFormat = 'text' | 'escpos' | 'html';
+
+// Filtros del listado (y la exportación) de pedidos
+export interface OrderFilters {
+  status?: string;
+  type?: 'pickup' | 'delivery';
+  dateFrom?: string;
+  dateTo?: string;
+  restaurantId?: number;
+}
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+// Historial de cambios del menú generado en cada sincronización
+export type MenuChangeEntity = 'item' | 'size' | 'option';
+
+export type MenuChangeType = 'added' | 'removed' | 'renamed' | 'repriced';
+
+export interface MenuChange {
+  id: number;
+  restaurant_id: number;
+  menu_id: number;
+  sync_id: string;
+  entity_type: MenuChangeEntity;
+  entity_id: number;
+  gloriafood_id: number;
+  name: string;
+  change_type: MenuChangeType;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+export type MenuChangeCounts = Record<MenuChangeEntity, Record<MenuChangeType, number>>;
+
+export interface MenuSyncStats {
+  syncId: string;
+  categories: number;
+  items: number;
+  sizes: number;
+  optionGroups: number;
+  options: number;
+  changes: MenuChangeCounts;
+}
+
+// Informe de impuestos (importes de la base imponible sin impuesto)
+export interface TaxReportTotals {
+  orders: number;
+  taxable_base: number;
+  tax: number;
+  gross: number;
+}
+
+export interface TaxReportLine extends TaxReportTotals {
+  date: string;
+  tax_model: 'NET' | 'GROSS';
+  type: string;
+  rate: number;
+}
+
+export interface TaxReport {
+  restaurant_id: number;
+  timezone: string;
+  currency: string;
+  from: string;
+  to: string;
+  totals: TaxReportTotals;
+  by_rate: (TaxReportTotals & { rate: number })[];
+  by_type: (TaxReportTotals & { type: string })[];
+  by_model: (TaxReportTotals & { tax_model: 'NET' | 'GROSS' })[];
+  by_day: (TaxReportTotals & { date: string })[];
+  lines: TaxReportLine[];
+}
+
+export type OrderStatusUpdateResult =
+  | { result: 'updated'; from: OrderStatus; to: OrderStatus }
+  | { result: 'not_found' }
+  | { result: 'invalid_transition'; from: OrderStatus; to: OrderStatus; allowed: OrderStatus[] };
+
+// Eventos del feed en tiempo real de pedidos (un Durable Object por restaurante)
+export type OrderFeedEvent =
+  | {
+    type: 'order.created';
+    restaurant_id: number;
+    order_id: number;
+    gloriafood_id: number;
+    status: OrderStatus;
+    order_type: Order['type'];
+    total_price: number;
+    currency: string;
+    fulfill_at: string | null;
+    client_name: string | null;
+    at: string;
+  }
+  | {
+    type: 'order.status_changed';
+    restaurant_id: number;
+    order_id: number;
+    gloriafood_id: number;
+    from: OrderStatus;
+    to: OrderStatus;
+    actor: string;
+    note: string | null;
+    at: string;
+  };
+
+// =====================================================
+// TIPOS DE INGESTA (cola de webhooks)
+// =====================================================
+
+export interface OrderQueueMessage {
+  payloadId: number;
+  previousAttempts?: number; // Intentos hechos antes de encolarlo (polling)
+}
+
+export interface WebhookPayload {
+  id: number;
+  content_type: string | null;
+  raw_payload: string;
+  status: 'pending' | 'retrying' | 'processed' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  received_at: string;
+  processed_at: string | null;
+}
+
+export interface DeadLetterOrder {
+  id: number;
+  payload_id: number | null;
+  restaurant_id: number | null;
+  gloriafood_id: number | null;
+  kind: 'order' | 'payload'; // 'payload' cuando no se pudo parsear el payload completo
+  payload: string;
+  error_message: string | null;
+  attempts: number;
+  status: 'pending' | 'replayed';
+  created_at: string;
+  replayed_at: string | null;
+}
+
+// =====================================================
+// TIPOS DE WEBHOOKS SALIENTES
+// =====================================================
+
+export type WebhookEventType =
+  | 'order.created'
+  | 'order.status_changed'
+  | 'menu.synced'
+  | 'client.created';
+
+export interface WebhookSubscription {
+  id: number;
+  restaurant_id: number;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  active?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  subscription_id: number;
+  event_type: WebhookEventType;
+  payload: string;
+  status: 'pending' | 'retrying' | 'delivered' | 'failed';
+  attempts: number;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: number;
+  delivery_id: number;
+  attempt: number;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export interface WebhookQueueMessage {
+  deliveryId: number;
+}
+
 // =====================================================
 // TIPOS DE RESPUESTAS API
 // =====================================================
@@ -327,6 +836,41 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// Timestamp en el que se basan las estadísticas
+export type StatsBasis = 'accepted' | 'fulfilled' | 'received';
+
+// Rendimiento de una promoción o cupón en un rango de días
+export interface PromotionPerformance {
+  redemptions: number; // Pedidos en los que se aplicó
+  discount: number;
+  revenue: number; // Importe total de esos pedidos
+  avg_basket: number;
+  avg_basket_vs_non_promo: number | null; // Diferencia relativa con los pedidos sin promoción
+  new_client_orders: number; // Primer pedido del cliente en el restaurante
+  returning_client_orders: number;
+  new_client_share: number | null;
+}
+
+export interface PromotionStats {
+  restaurant_id: number;
+  timezone: string;
+  currency: string;
+  basis: StatsBasis;
+  from: string;
+  to: string;
+  non_promo: { orders: number; revenue: number; avg_basket: number };
+  promotions: (PromotionPerformance & {
+    promotion_id: number | null;
+    name: string;
+    type: 'promo_cart' | 'promo_item' | 'promo_cart_item';
+    coupon: string | null;
+  })[];
+  coupons: (PromotionPerformance & {
+    coupon_code: string;
+    orders: number; // Pedidos en los que se introdujo (aunque no se aplicara)
+  })[];
+}
+
 export interface DashboardStats {
   today: {
     orders: number;
@@ -0,0 +1,106 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker, waitFor } from './helpers/worker.mjs';
+import { orderFixture } from './simulator/gloriafood-simulator.mjs';
+
+const RESTAURANT_KEY = 'bvvZ3913t1cJRf8HA5OxvO2FjiSmExSly';
+const OTHER_RESTAURANT_KEY = 'other-restaurant-key';
+
+// Pedido del ejemplo con otros datos
+function order(changes) {
+  const payload = JSON.parse(orderFixture('US_tax_model_order'));
+  Object.assign(payload.orders[0], changes);
+  return JSON.stringify(payload);
+}
+
+describe('fusión de clientes', () => {
+  let worker;
+  const ids = {};
+
+  before(async () => {
+    worker = await startWorker();
+
+    for (const [name, key] of [['restaurant', RESTAURANT_KEY], ['other', OTHER_RESTAURANT_KEY]]) {
+      const created = await worker.request('POST', '/api/restaurants', { body: { restaurant_key: key, name } });
+      ids[name] = created.json.data.id;
+    }
+
+    // El mismo cliente con dos cuentas; el duplicado también ha pedido en el otro restaurante
+    const duplicate = {
+      client_id: 757,
+      client_email: 'john.doe.work@example.com',
+      client_phone: '+12125550000',
+      client_address: 'Wall street 1, Manhattan',
+      client_address_parts: { street: 'Wall street 1', city: 'Manhattan' }
+    };
+    await worker.pushOrder({ fixture: 'US_tax_model_order' });
+    await worker.pushOrder({ body: order({ ...duplicate, id: 7001 }) });
+    await worker.pushOrder({ body: order({ ...duplicate, id: 7002, restaurant_id: 196, restaurant_key: OTHER_RESTAURANT_KEY }) });
+    await waitFor(async () => (await worker.db.prepare('SELECT COUNT(*) as total FROM orders').first()).total === 3);
+
+    ids.survivor = (await worker.db.prepare('SELECT id FROM clients WHERE gloriafood_id = 756').first()).id;
+    ids.duplicate = (await worker.db.prepare('SELECT id FROM clients WHERE gloriafood_id = 757').first()).id;
+
+    await worker.request('POST', `/api/clients/segments/refresh?restaurant_id=${ids.restaurant}`);
+    await worker.request('POST', `/api/clients/segments/refresh?restaurant_id=${ids.other}`);
+  });
+
+  after(() => worker.dispose());
+
+  const merge = (token) => worker.request('POST', `/api/clients/${ids.survivor}/merge?restaurant_id=${ids.restaurant}`, {
+    body: { client_ids: [ids.duplicate] },
+    ...(token && { token })
+  });
+
+  test('una API key limitada a un restaurante no puede fusionar clientes', async () => {
+    const key = await worker.request('POST', '/api/admin/api-keys', {
+      body: { name: 'Marketing', scopes: ['clients:pii'], restaurant_id: ids.restaurant }
+    });
+
+    const response = await merge(key.json.data.key);
+    assert.equal(response.status, 403);
+
+    const duplicate = await worker.db.prepare('SELECT merged_into_id FROM clients WHERE id = ?').bind(ids.duplicate).first();
+    assert.equal(duplicate.merged_into_id, null);
+  });
+
+  test('los pedidos, direcciones, segmentos y consentimientos pasan al cliente conservado', async () => {
+    const response = await merge();
+    assert.equal(response.status, 200);
+
+    const orders = await worker.db.prepare('SELECT gloriafood_id, client_id FROM orders ORDER BY gloriafood_id').all();
+    assert.deepEqual(orders.results, [
+      { gloriafood_id: 6816, client_id: ids.survivor },
+      { gloriafood_id: 7001, client_id: ids.survivor },
+      { gloriafood_id: 7002, client_id: ids.survivor }
+    ]);
+
+    const addresses = await worker.db.prepare('SELECT client_id, full_address FROM client_addresses ORDER BY full_address').all();
+    assert.deepEqual(addresses.results, [
+      { client_id: ids.survivor, full_address: 'Park avenue 121, Manhattan' },
+      { client_id: ids.survivor, full_address: 'Wall street 1, Manhattan' }
+    ]);
+
+    const merges = await worker.db.prepare('SELECT * FROM client_merges').all();
+    assert.equal(merges.results.length, 1);
+    const [row] = merges.results;
+    assert.deepEqual(
+      { survivor_id: row.survivor_id, merged_id: row.merged_id, orders_moved: row.orders_moved, addresses_moved: row.addresses_moved },
+      { survivor_id: ids.survivor, merged_id: ids.duplicate, orders_moved: 2, addresses_moved: 1 }
+    );
+    assert.equal(JSON.parse(row.merged_snapshot).email, 'john.doe.work@example.com');
+
+    const segments = await worker.db.prepare(
+      'SELECT client_id, restaurant_id, frequency FROM client_segments ORDER BY restaurant_id'
+    ).all();
+    assert.deepEqual(segments.results, [
+      { client_id: ids.survivor, restaurant_id: ids.restaurant, frequency: 2 },
+      { client_id: ids.survivor, restaurant_id: ids.other, frequency: 1 }
+    ]);
+
+    const consent = await worker.db.prepare(
+      'SELECT COUNT(*) as total FROM client_consent_history WHERE client_id = ?'
+    ).bind(ids.duplicate).first();
+    assert.equal(consent.total, 0);
+  });
+});
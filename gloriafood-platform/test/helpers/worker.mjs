@@ -0,0 +1,196 @@
+// =====================================================
+// WORKER DE PRUEBA (Miniflare con D1, KV, colas y Durable Objects locales)
+// =====================================================
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { GloriaFoodSimulator } from '../simulator/gloriafood-simulator.mjs';
+
+const ROOT = fileURLToPath(new URL('../../', import.meta.url));
+
+export const API_TOKEN = 'test-api-token';
+export const MASTER_KEY = 'test-master-key';
+export const GLORIAFOOD_API_URL = 'http://gloriafood.test';
+
+let bundle;
+
+/**
+ * Compila el Worker una vez por proceso de test
+ */
+function buildWorker() {
+  bundle ??= build({
+    entryPoints: [`${ROOT}src/index.ts`],
+    bundle: true,
+    format: 'esm',
+    platform: 'neutral',
+    mainFields: ['module', 'main'],
+    conditions: ['workerd', 'worker', 'browser'],
+    write: false,
+    logLevel: 'error'
+  }).then(result => result.outputFiles[0].text);
+
+  return bundle;
+}
+
+const MIGRATIONS_DIR = `${ROOT}schema/migrations/`;
+
+/**
+ * Migraciones de schema/migrations, en orden
+ */
+export function migrationFiles() {
+  return readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort();
+}
+
+/**
+ * Aplica las migraciones indicadas (D1 ejecuta una sentencia por llamada)
+ */
+export async function applyMigrations(db, files = migrationFiles()) {
+  const statements = files
+    .flatMap(file => readFileSync(MIGRATIONS_DIR + file, 'utf8').split(/;\s*\n/))
+    .map(statement => statement.replace(/--.*$/gm, '').trim())
+    .filter(Boolean);
+
+  for (const statement of statements) {
+    await db.prepare(statement).run();
+  }
+}
+
+/**
+ * Arranca el Worker con una base de datos nueva (con las migraciones de `migrations`,
+ * por defecto todas) y el simulador de GloriaFood.
+ * Las peticiones salientes a otros hosts (webhooks salientes) se guardan en `outbound`.
+ */
+export async function startWorker({ bindings = {}, migrations = migrationFiles() } = {}) {
+  const simulator = new GloriaFoodSimulator();
+  const outbound = [];
+
+  const mf = new Miniflare({
+    modules: [{ type: 'ESModule', path: `${ROOT}worker.js`, contents: await buildWorker() }],
+    compatibilityDate: '2024-02-08',
+    d1Databases: ['DB'],
+    kvNamespaces: ['CACHE'],
+    queueProducers: { ORDERS_QUEUE: 'gloriafood-orders', WEBHOOKS_QUEUE: 'gloriafood-webhooks' },
+    queueConsumers: {
+      'gloriafood-orders': { maxBatchTimeout: 1 },
+      'gloriafood-webhooks': { maxBatchTimeout: 1 }
+    },
+    durableObjects: { ORDER_FEED: 'OrderFeed' },
+    bindings: {
+      GLORIAFOOD_MASTER_KEY: MASTER_KEY,
+      API_AUTH_TOKEN: API_TOKEN,
+      GLORIAFOOD_API_URL,
+      API_VERSION: '2',
+      ...bindings
+    },
+    // La salida del Worker (logger de Hono, console.*) solo se muestra con TEST_WORKER_LOGS=1
+    handleRuntimeStdio: (stdout, stderr) => {
+      for (const [stream, target] of [[stdout, process.stdout], [stderr, process.stderr]]) {
+        if (process.env.TEST_WORKER_LOGS) stream.pipe(target);
+        else stream.resume();
+      }
+    },
+    outboundService: async (request) => {
+      if (request.url.startsWith(GLORIAFOOD_API_URL)) {
+        // Miniflare usa su propia clase Request: se pasa al simulador como una estándar
+        return simulator.fetch(new Request(request.url, {
+          method: request.method,
+          headers: Object.fromEntries(request.headers),
+          body: ['GET', 'HEAD'].includes(request.method) ? undefined : await request.arrayBuffer()
+        }));
+      }
+      outbound.push({ url: request.url, headers: Object.fromEntries(request.headers), body: await request.text() });
+      return new Response('ok');
+    }
+  });
+
+  const db = await mf.getD1Database('DB');
+  await applyMigrations(db, migrations);
+
+  /**
+   * Petición al Worker; un `body` que no es texto se envía como JSON.
+   * Por defecto se autentica con API_AUTH_TOKEN (`token: null` para no enviar Authorization).
+   */
+  async function request(method, path, { body, headers = {}, token = API_TOKEN } = {}) {
+    const requestHeaders = { ...(token !== null && { Authorization: `Bearer ${token}` }), ...headers };
+    let requestBody = body;
+
+    if (body !== undefined && typeof body !== 'string') {
+      requestBody = JSON.stringify(body);
+      requestHeaders['Content-Type'] ??= 'application/json';
+    }
+
+    const response = await mf.dispatchFetch(`http://localhost${path}`, {
+      method,
+      headers: requestHeaders,
+      body: requestBody
+    });
+    const text = await response.text();
+
+    let json = null;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      // Respuesta que no es JSON (CSV, comandas, XLSX...)
+    }
+
+    return { status: response.status, headers: response.headers, text, json };
+  }
+
+  return {
+    mf,
+    db,
+    simulator,
+    outbound,
+    request,
+
+    /**
+     * Envía un payload de ejemplo al webhook, como GloriaFood
+     */
+    pushOrder(options = {}) {
+      return simulator.pushOrder(
+        (init) => mf.dispatchFetch('http://localhost/webhook/orders', init),
+        { masterKey: MASTER_KEY, ...options }
+      );
+    },
+
+    /**
+     * Ejecuta el cron indicado (ver wrangler.toml)
+     */
+    async scheduled(cron) {
+      const worker = await mf.getWorker();
+      await worker.scheduled({ cron });
+    },
+
+    /**
+     * Entrega un lote al consumidor de la cola indicada como el intento número `attempts`.
+     * Devuelve qué mensajes se han confirmado (explicitAcks) y cuáles se reintentan (retryMessages).
+     */
+    async queue(queueName, bodies, { attempts = 1 } = {}) {
+      const worker = await mf.getWorker();
+      return worker.queue(queueName, bodies.map((body, index) => ({
+        id: `message-${index}`,
+        timestamp: new Date(),
+        body,
+        attempts
+      })));
+    },
+
+    dispose: () => mf.dispose()
+  };
+}
+
+/**
+ * Espera a que `check` devuelva un valor (la cola procesa los mensajes en segundo plano)
+ */
+export async function waitFor(check, { timeout = 10000, interval = 100 } = {}) {
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, interval));
+  }
+}
@@ -0,0 +1,390 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { startWorker, waitFor, MASTER_KEY } from './helpers/worker.mjs';
+import { orderFixture } from './simulator/gloriafood-simulator.mjs';
+
+const RESTAURANT_KEY = 'bvvZ3913t1cJRf8HA5OxvO2FjiSmExSly';
+const XML_RESTAURANT_KEY = 'LnCRs1RB9h91E27r5l4vvybBTkXIh7evG';
+const SECRET_KEY = 'sim-secret';
+
+const orderCount = async (db) =>
+  (await db.prepare('SELECT COUNT(*) as total FROM orders').first()).total;
+
+const processedPayloads = async (db) =>
+  (await db.prepare("SELECT COUNT(*) as total FROM webhook_payloads WHERE status = 'processed'").first()).total;
+
+describe('webhook de pedidos', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+  });
+
+  after(() => worker.dispose());
+
+  test('guarda un pedido JSON con sus líneas, cliente y restaurante', async () => {
+    const response = await worker.pushOrder({ fixture: 'US_tax_model_order' });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).success, true);
+
+    await waitFor(async () => (await processedPayloads(worker.db)) === 1);
+
+    const order = await worker.db.prepare('SELECT * FROM orders WHERE gloriafood_id = 6816').first();
+    assert.ok(order);
+    assert.equal(order.type, 'delivery');
+    assert.equal(order.total_price, 75.66);
+
+    const restaurant = await worker.db.prepare('SELECT * FROM restaurants WHERE id = ?').bind(order.restaurant_id).first();
+    assert.equal(restaurant.restaurant_key, RESTAURANT_KEY);
+
+    const items = await worker.db.prepare('SELECT COUNT(*) as total FROM order_items WHERE order_id = ?').bind(order.id).first();
+    assert.ok(items.total > 0);
+
+    const client = await worker.db.prepare('SELECT * FROM clients WHERE id = ?').bind(order.client_id).first();
+    assert.equal(client.email, 'john.doe@gmail.com');
+  });
+
+  test('no duplica un pedido que llega dos veces', async () => {
+    await worker.pushOrder({ fixture: 'EU_tax_model_order' });
+    await worker.pushOrder({ fixture: 'US_tax_model_order' });
+
+    await waitFor(async () => (await processedPayloads(worker.db)) === 3);
+
+    assert.equal(await orderCount(worker.db), 2);
+    const client = await worker.db.prepare('SELECT COUNT(*) as total FROM clients').first();
+    assert.equal(client.total, 1);
+  });
+
+  test('rechaza la master key incorrecta', async () => {
+    const response = await worker.pushOrder({ masterKey: 'wrong' });
+    assert.equal(response.status, 401);
+
+    const missing = await worker.pushOrder({ masterKey: undefined });
+    assert.equal(missing.status, 401);
+  });
+
+  test('un payload no válido recibe 400 y queda en dead-letter para reprocesarlo', async () => {
+    const payload = JSON.parse(orderFixture('US_tax_model_order'));
+    delete payload.orders[0].restaurant_key;
+
+    const response = await worker.pushOrder({ body: JSON.stringify(payload) });
+    assert.equal(response.status, 400);
+
+    const body = await response.json();
+    assert.deepEqual(body.errors, [{ field: 'orders[0].restaurant_key', location: 'json', message: 'is required' }]);
+
+    const deadLetters = await worker.request('GET', '/api/dead-letters');
+    assert.equal(deadLetters.json.data.length, 1);
+    assert.equal(deadLetters.json.data[0].kind, 'payload');
+
+    const malformed = await worker.pushOrder({ body: '<orders>' , format: 'xml' });
+    assert.equal(malformed.status, 400);
+  });
+});
+
+// Los payloads XML de ejemplo son de otra integración push (otra restaurant_key) del mismo
+// restaurante de GloriaFood, así que se prueban con su propia base de datos
+describe('webhook de pedidos en XML', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+  });
+
+  after(() => worker.dispose());
+
+  test('guarda un pedido XML y no lo duplica', async () => {
+    assert.equal((await worker.pushOrder({ fixture: 'EU_tax_model_order', format: 'xml' })).status, 200);
+    assert.equal((await worker.pushOrder({ fixture: 'EU_tax_model_order', format: 'xml' })).status, 200);
+
+    await waitFor(async () => (await processedPayloads(worker.db)) === 2);
+
+    assert.equal(await orderCount(worker.db), 1);
+    const order = await worker.db.prepare('SELECT * FROM orders WHERE gloriafood_id = 6819').first();
+    assert.equal(order.total_price, 41.14);
+  });
+
+  test('el pedido XML se lee campo a campo igual que el JSON', async () => {
+    const { raw_payload } = await worker.db.prepare('SELECT raw_payload FROM orders WHERE gloriafood_id = 6819').first();
+    const expected = JSON.parse(orderFixture('EU_tax_model_order')).orders[0];
+
+    // En XML un texto null y uno vacío se escriben igual (<instructions/>) y se leen como ''
+    const text = ['instructions', 'kitchen_internal_name', 'missed_reason', 'reference'];
+    const emptyText = (entry) => {
+      for (const field of text) {
+        if (field in entry) entry[field] ??= '';
+      }
+      return entry;
+    };
+    emptyText(expected);
+    for (const item of expected.items) {
+      emptyText(item);
+      item.options.forEach(emptyText);
+    }
+
+    // Valores que difieren entre los propios payloads de ejemplo XML y JSON
+    Object.assign(expected, { restaurant_key: XML_RESTAURANT_KEY, pos_system_id: 29 });
+    Object.assign(expected.items[9], { price: 10, total_item_price: 10 });
+    Object.assign(expected.items[11], { total_item_price: 5, tax_value: -0.7983 });
+    Object.assign(expected.items[12], { type_id: 124 });
+
+    assert.deepEqual(JSON.parse(raw_payload), expected);
+  });
+});
+
+describe('polling de pedidos', () => {
+  let worker;
+  let restaurantId;
+
+  before(async () => {
+    worker = await startWorker();
+    worker.simulator.addRestaurant(SECRET_KEY);
+
+    const created = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: RESTAURANT_KEY, name: 'Simulador', secret_key: SECRET_KEY }
+    });
+    restaurantId = created.json.data.id;
+  });
+
+  after(() => worker.dispose());
+
+  test('el cron recoge los pedidos pendientes con la secret key del restaurante', async () => {
+    worker.simulator.queueFixture(SECRET_KEY, 'US_tax_model_order');
+
+    await worker.scheduled('* * * * *');
+
+    assert.equal(await orderCount(worker.db), 1);
+    const pop = worker.simulator.requests.find(request => request.path === '/pos/order/pop');
+    assert.equal(pop.authorization, SECRET_KEY);
+    assert.equal(pop.apiVersion, '2');
+
+    // GloriaFood ya no devuelve el pedido: el siguiente polling no trae nada
+    await worker.scheduled('* * * * *');
+    assert.equal(await orderCount(worker.db), 1);
+  });
+
+  test('el polling manual procesa los pedidos y no duplica los que ya llegaron', async () => {
+    worker.simulator.queueFixture(SECRET_KEY, 'US_tax_model_order');
+    worker.simulator.queueFixture(SECRET_KEY, 'EU_tax_model_order');
+
+    const response = await worker.request('POST', `/api/orders/poll?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.json.data.map(result => [result.gloriafood_id, result.is_new]), [[6816, false], [6819, true]]);
+    assert.equal(await orderCount(worker.db), 2);
+  });
+
+  test('una respuesta no válida de GloriaFood queda en dead-letter', async () => {
+    worker.simulator.queueOrders(SECRET_KEY, [{ id: 1 }]);
+
+    const response = await worker.request('POST', `/api/orders/poll?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 502);
+    assert.ok(response.json.errors.length > 0);
+
+    const deadLetters = await worker.request('GET', '/api/dead-letters');
+    assert.equal(deadLetters.json.data[0].kind, 'payload');
+  });
+
+  test('una secret key que GloriaFood no reconoce devuelve error', async () => {
+    await worker.request('PUT', `/api/restaurants/${restaurantId}`, { body: { secret_key: 'unknown' } });
+
+    const response = await worker.request('POST', `/api/orders/poll?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 500);
+    assert.match(response.json.error, /401/);
+  });
+});
+
+describe('seguridad del webhook', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker({
+      bindings: {
+        GLORIAFOOD_MASTER_KEY_PREVIOUS: 'previous-master-key',
+        WEBHOOK_IP_ALLOWLIST: '203.0.113.0/24, 2001:db8::/32',
+        WEBHOOK_SIGNING_SECRET: 'relay-secret'
+      }
+    });
+  });
+
+  after(() => worker.dispose());
+
+  // Cada firma solo se acepta una vez: cada petición lleva un timestamp distinto
+  let clock = Math.floor(Date.now() / 1000);
+
+  const signed = (body, timestamp = clock--) => ({
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': `sha256=${createHmac('sha256', 'relay-secret').update(`${timestamp}.${body}`).digest('hex')}`
+  });
+
+  const push = (ip, { masterKey = MASTER_KEY, headers } = {}) => {
+    const body = orderFixture('US_tax_model_order');
+    return worker.pushOrder({
+      masterKey,
+      body,
+      headers: { 'CF-Connecting-IP': ip, ...(headers ?? signed(body)) }
+    });
+  };
+
+  test('solo acepta IPs de la allowlist', async () => {
+    assert.equal((await push('203.0.113.7')).status, 200);
+    assert.equal((await push('2001:db8::1')).status, 200);
+    assert.equal((await push('198.51.100.1')).status, 403);
+  });
+
+  test('acepta la master key anterior durante la rotación', async () => {
+    assert.equal((await push('203.0.113.8', { masterKey: 'previous-master-key' })).status, 200);
+  });
+
+  test('exige una firma reciente y no repetida', async () => {
+    const body = orderFixture('US_tax_model_order');
+    const headers = signed(body);
+
+    assert.equal((await push('203.0.113.9', { headers: {} })).status, 401);
+    assert.equal((await push('203.0.113.9', { headers })).status, 200);
+    assert.equal((await push('203.0.113.9', { headers })).status, 401);
+    assert.equal((await push('203.0.113.9', { headers: signed(body, Math.floor(Date.now() / 1000) - 600) })).status, 401);
+  });
+
+  test('limita los intentos fallidos por IP', async () => {
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await push('203.0.113.10', { masterKey: 'wrong' })).status, 401);
+    }
+
+    const blocked = await push('203.0.113.10');
+    assert.equal(blocked.status, 429);
+    assert.ok(Number(blocked.headers.get('Retry-After')) > 0);
+
+    // Otra IP no está afectada
+    assert.equal((await push('203.0.113.11')).status, 200);
+  });
+});
+
+describe('reintentos de un pedido', () => {
+  let worker;
+  let restaurantId;
+
+  before(async () => {
+    worker = await startWorker();
+
+    const created = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: RESTAURANT_KEY, name: 'Simulador' }
+    });
+    restaurantId = created.json.data.id;
+
+    await worker.request('POST', `/api/webhooks?restaurant_id=${restaurantId}`, {
+      body: { url: 'https://hooks.example.com/clients', events: ['client.created'] }
+    });
+  });
+
+  after(() => worker.dispose());
+
+  // Pedido de invitado (sin ID de cliente) en dead-letter, para reprocesarlo a mano
+  const deadLetter = async (fixture, id) => {
+    const order = JSON.parse(orderFixture(fixture)).orders[0];
+    Object.assign(order, { id, client_id: null, user_id: null });
+
+    const result = await worker.db.prepare(`
+      INSERT INTO dead_letter_orders (restaurant_id, gloriafood_id, kind, payload) VALUES (?, ?, 'order', ?)
+    `).bind(restaurantId, id, JSON.stringify(order)).run();
+    return result.meta.last_row_id;
+  };
+
+  // El batch del pedido falla en el primer intento y funciona en el segundo
+  const replayAfterFailure = async (deadLetterId) => {
+    await worker.db.prepare(
+      "CREATE TRIGGER fail_order_items BEFORE INSERT ON order_items BEGIN SELECT RAISE(ABORT, 'D1 unavailable'); END"
+    ).run();
+    assert.equal((await worker.request('POST', `/api/dead-letters/${deadLetterId}/replay`)).status, 500);
+
+    await worker.db.prepare('DROP TRIGGER fail_order_items').run();
+    assert.equal((await worker.request('POST', `/api/dead-letters/${deadLetterId}/replay`)).status, 200);
+  };
+
+  const clientCreatedDeliveries = async () =>
+    (await worker.db.prepare("SELECT COUNT(*) as total FROM webhook_deliveries WHERE event_type = 'client.created'").first()).total;
+
+  test('un cliente nuevo solo se crea si se guarda el pedido y se avisa con client.created', async () => {
+    await replayAfterFailure(await deadLetter('US_tax_model_order', 9001));
+
+    const clients = await worker.db.prepare('SELECT * FROM clients').all();
+    assert.equal(clients.results.length, 1);
+    assert.equal(clients.results[0].order_count, 1);
+    assert.equal(await clientCreatedDeliveries(), 1);
+
+    const history = await worker.db.prepare('SELECT COUNT(*) as total FROM client_consent_history').first();
+    assert.equal(history.total, 1);
+    const addresses = await worker.db.prepare('SELECT COUNT(*) as total FROM client_addresses').first();
+    assert.equal(addresses.total, 1);
+  });
+
+  test('un reintento no vuelve a sumar el pedido al cliente', async () => {
+    await replayAfterFailure(await deadLetter('US_tax_model_order', 9002));
+
+    const client = await worker.db.prepare('SELECT * FROM clients').first();
+    assert.equal(client.order_count, 2);
+    assert.equal(await clientCreatedDeliveries(), 1);
+
+    const orders = await worker.db.prepare('SELECT COUNT(*) as total FROM orders WHERE client_id = ?').bind(client.id).first();
+    assert.equal(orders.total, 2);
+  });
+});
+
+describe('fallos inesperados en la cola de pedidos', () => {
+  let worker;
+
+  before(async () => {
+    worker = await startWorker();
+    await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: RESTAURANT_KEY, name: 'Simulador' }
+    });
+
+    // D1 falla al guardar el resultado del payload: processPayload lanza una excepción
+    await worker.db.prepare(`
+      CREATE TRIGGER fail_payload_status BEFORE UPDATE OF status ON webhook_payloads
+      WHEN NEW.status != 'failed' BEGIN SELECT RAISE(ABORT, 'D1 unavailable'); END
+    `).run();
+  });
+
+  after(() => worker.dispose());
+
+  const storePayload = async () => (await worker.db.prepare(
+    "INSERT INTO webhook_payloads (content_type, raw_payload) VALUES ('application/json', ?)"
+  ).bind(orderFixture('US_tax_model_order')).run()).meta.last_row_id;
+
+  const deadLetters = async (payloadId) => (await worker.db.prepare(
+    'SELECT kind, attempts, error_message FROM dead_letter_orders WHERE payload_id = ?'
+  ).bind(payloadId).all()).results;
+
+  test('antes del último intento se reintenta', async () => {
+    const payloadId = await storePayload();
+    const result = await worker.queue('gloriafood-orders', [{ payloadId }], { attempts: 4 });
+
+    assert.equal(result.retryMessages.length, 1);
+    assert.deepEqual(await deadLetters(payloadId), []);
+  });
+
+  test('en el último intento el payload va a dead-letter y se confirma el mensaje', async () => {
+    const payloadId = await storePayload();
+    const result = await worker.queue('gloriafood-orders', [{ payloadId }], { attempts: 5 });
+
+    assert.deepEqual(result.retryMessages, []);
+    assert.deepEqual(result.explicitAcks, ['message-0']);
+    const [deadLetter, ...others] = await deadLetters(payloadId);
+    assert.deepEqual(others, []);
+    assert.equal(deadLetter.kind, 'payload');
+    assert.equal(deadLetter.attempts, 5);
+    assert.match(deadLetter.error_message, /D1 unavailable/);
+
+    const payload = await worker.db.prepare('SELECT status, attempts FROM webhook_payloads WHERE id = ?').bind(payloadId).first();
+    assert.deepEqual(payload, { status: 'failed', attempts: 5 });
+  });
+
+  test('los intentos hechos por polling antes de encolar cuentan para el límite', async () => {
+    const payloadId = await storePayload();
+    const result = await worker.queue('gloriafood-orders', [{ payloadId, previousAttempts: 1 }], { attempts: 4 });
+
+    assert.deepEqual(result.retryMessages, []);
+    assert.equal((await deadLetters(payloadId)).length, 1);
+  });
+});
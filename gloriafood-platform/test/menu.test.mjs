@@ -0,0 +1,109 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers/worker.mjs';
+import { menuFixture } from './simulator/gloriafood-simulator.mjs';
+
+const SECRET_KEY = 'sim-secret';
+
+describe('sincronización del menú', () => {
+  let worker;
+  let restaurantId;
+
+  before(async () => {
+    worker = await startWorker();
+    worker.simulator.addRestaurant(SECRET_KEY);
+
+    const created = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: 'menu-restaurant-key', name: 'Simulador', secret_key: SECRET_KEY }
+    });
+    restaurantId = created.json.data.id;
+  });
+
+  after(() => worker.dispose());
+
+  test('sin sincronizar no hay menú', async () => {
+    const response = await worker.request('GET', `/api/menu?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 404);
+  });
+
+  test('POST /api/menu/sync guarda categorías, items, tamaños y opciones', async () => {
+    const response = await worker.request('POST', `/api/menu/sync?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 200);
+    assert.equal(response.json.success, true);
+
+    const menuRequest = worker.simulator.requests.find(request => request.path === '/pos/menu');
+    assert.equal(menuRequest.authorization, SECRET_KEY);
+
+    const menu = await worker.request('GET', `/api/menu?restaurant_id=${restaurantId}`);
+    assert.equal(menu.status, 200);
+    assert.equal(menu.json.data.gloriafood_id, 4108);
+    assert.deepEqual(menu.json.data.categories.map(category => category.name), ['Pizza', 'Pasta']);
+
+    const margherita = menu.json.data.categories[0].items.find(item => item.gloriafood_id === 58424);
+    assert.equal(margherita.name, 'Pizza Margherita');
+    assert.equal(margherita.price, 7);
+    assert.ok(margherita.sizes.length > 0);
+    assert.ok(margherita.groups.length > 0);
+
+    const categories = await worker.request('GET', `/api/menu/categories?restaurant_id=${restaurantId}`);
+    assert.equal(categories.json.data.length, 2);
+
+    const items = await worker.request('GET', `/api/menu/categories/${categories.json.data[0].id}/items?restaurant_id=${restaurantId}`);
+    assert.equal(items.json.data.length, 2);
+
+    const search = await worker.request('GET', `/api/menu/search?restaurant_id=${restaurantId}&q=Margherita`);
+    assert.deepEqual(search.json.data.map(item => item.gloriafood_id), [58424]);
+  });
+
+  test('una segunda sincronización no duplica el menú ni registra cambios', async () => {
+    const before = await worker.db.prepare('SELECT COUNT(*) as total FROM menu_items').first();
+    const changes = (await worker.request('GET', `/api/menu/changes?restaurant_id=${restaurantId}`)).json.pagination.total;
+
+    const response = await worker.request('POST', `/api/menu/sync?restaurant_id=${restaurantId}`);
+    assert.equal(response.status, 200);
+
+    const after = await worker.db.prepare('SELECT COUNT(*) as total FROM menu_items').first();
+    assert.equal(after.total, before.total);
+
+    const changesAfter = await worker.request('GET', `/api/menu/changes?restaurant_id=${restaurantId}`);
+    assert.equal(changesAfter.json.pagination.total, changes);
+  });
+
+  test('si falla la sincronización se mantienen las relaciones con los grupos de opciones', async () => {
+    const links = await worker.db.prepare('SELECT * FROM menu_item_option_groups ORDER BY id').all();
+
+    await worker.db.prepare(
+      "CREATE TRIGGER fail_option_group_links BEFORE INSERT ON menu_item_option_groups BEGIN SELECT RAISE(ABORT, 'D1 unavailable'); END"
+    ).run();
+    const response = await worker.request('POST', `/api/menu/sync?restaurant_id=${restaurantId}`);
+    await worker.db.prepare('DROP TRIGGER fail_option_group_links').run();
+
+    assert.equal(response.status, 500);
+    assert.deepEqual((await worker.db.prepare('SELECT * FROM menu_item_option_groups ORDER BY id').all()).results, links.results);
+  });
+
+  test('el cron de menús detecta los cambios de precio y los items eliminados', async () => {
+    const menu = JSON.parse(menuFixture());
+    const [margherita, removed] = menu.categories[0].items;
+    margherita.price = 8.5;
+    menu.categories[0].items = [margherita];
+    worker.simulator.setMenu(SECRET_KEY, menu);
+
+    await worker.scheduled('0 */6 * * *');
+
+    const repriced = await worker.request('GET', `/api/menu/changes?restaurant_id=${restaurantId}&entity=item&type=repriced`);
+    assert.equal(repriced.json.data.length, 1);
+    assert.equal(repriced.json.data[0].gloriafood_id, 58424);
+    assert.equal(Number(repriced.json.data[0].old_value), 7);
+    assert.equal(Number(repriced.json.data[0].new_value), 8.5);
+
+    const deleted = await worker.request('GET', `/api/menu/changes?restaurant_id=${restaurantId}&entity=item&type=removed`);
+    assert.deepEqual(deleted.json.data.map(change => change.gloriafood_id), [removed.id]);
+
+    const current = await worker.request('GET', `/api/menu?restaurant_id=${restaurantId}`);
+    assert.deepEqual(current.json.data.categories[0].items.map(item => [item.gloriafood_id, item.price]), [[58424, 8.5]]);
+
+    const log = await worker.db.prepare("SELECT * FROM webhook_logs WHERE event_type = 'scheduled_menu_sync'").first();
+    assert.equal(log.status, 'success');
+  });
+});
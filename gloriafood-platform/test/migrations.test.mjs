@@ -0,0 +1,46 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyMigrations, migrationFiles, startWorker, waitFor } from './helpers/worker.mjs';
+
+describe('migraciones sobre una base de datos ya desplegada', () => {
+  let worker;
+
+  before(async () => {
+    // Base de datos creada con el esquema original, con datos
+    worker = await startWorker({ migrations: ['0001_initial_schema.sql'] });
+
+    await worker.db.batch([
+      worker.db.prepare("INSERT INTO restaurants (id, gloriafood_id, restaurant_key, name) VALUES (1, 195, 'bvvZ3913t1cJRf8HA5OxvO2FjiSmExSly', 'Existente')"),
+      worker.db.prepare("INSERT INTO clients (id, gloriafood_id, email, phone) VALUES (1, 756, ' John.Doe@Gmail.com ', '0040 (741) 111-111')"),
+      worker.db.prepare("INSERT INTO menus (id, gloriafood_id, restaurant_id) VALUES (1, 4108, 1)"),
+      worker.db.prepare("INSERT INTO menu_categories (id, menu_id, gloriafood_id, name) VALUES (1, 1, 14937, 'Pizza')"),
+      worker.db.prepare("INSERT INTO menu_items (id, category_id, gloriafood_id, name, price) VALUES (1, 1, 58424, 'Pizza Margherita', 7)"),
+      worker.db.prepare("INSERT INTO menu_option_groups (id, gloriafood_id, name) VALUES (1, 16978, 'Extra Toppings'), (2, 99999, 'Sin usar')"),
+      worker.db.prepare('INSERT INTO menu_item_option_groups (item_id, option_group_id) VALUES (1, 1)')
+    ]);
+
+    await applyMigrations(worker.db, migrationFiles().slice(1));
+  });
+
+  after(() => worker.dispose());
+
+  test('añade las columnas nuevas y rellena las que se calculan', async () => {
+    const client = await worker.db.prepare('SELECT * FROM clients WHERE id = 1').first();
+    assert.equal(client.email_normalized, 'john.doe@gmail.com');
+    assert.equal(client.phone_normalized, '40741111111');
+    assert.equal(client.merged_into_id, null);
+    assert.equal(client.anonymized_at, null);
+
+    const groups = await worker.db.prepare('SELECT id, menu_id FROM menu_option_groups ORDER BY id').all();
+    assert.deepEqual(groups.results, [{ id: 1, menu_id: 1 }]);
+  });
+
+  test('la plataforma funciona sobre la base de datos migrada', async () => {
+    assert.equal((await worker.pushOrder({ fixture: 'US_tax_model_order' })).status, 200);
+
+    const order = await waitFor(() => worker.db.prepare('SELECT * FROM orders WHERE gloriafood_id = 6816').first());
+    assert.equal(order.restaurant_id, 1);
+    assert.equal(order.client_id, 1);
+    assert.notEqual(order.price_check, null);
+  });
+});
@@ -0,0 +1,67 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker, waitFor } from './helpers/worker.mjs';
+import { orderFixture } from './simulator/gloriafood-simulator.mjs';
+
+const RESTAURANT_KEY = 'bvvZ3913t1cJRf8HA5OxvO2FjiSmExSly';
+
+describe('informe de impuestos', () => {
+  let worker;
+  let report;
+
+  before(async () => {
+    worker = await startWorker();
+
+    const created = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: RESTAURANT_KEY, name: 'Simulador' }
+    });
+
+    // Pedido NET con la Cola al 0 % y sin descuento, y pedido GROSS con el gasto
+    // de envío sin tax_type
+    const payload = JSON.parse(orderFixture('US_tax_model_order'));
+    const cola = payload.orders[0].items.find(item => item.name === 'Cola');
+    Object.assign(cola, { tax_rate: 0, tax_value: 0, item_discount: 0 });
+
+    const grossPayload = JSON.parse(orderFixture('EU_tax_model_order'));
+    delete grossPayload.orders[0].items.find(item => item.type === 'delivery_fee').tax_type;
+
+    await worker.pushOrder({ body: JSON.stringify(payload) });
+    await worker.pushOrder({ body: JSON.stringify(grossPayload) });
+    await waitFor(async () => (await worker.db.prepare('SELECT COUNT(*) as total FROM orders').first()).total === 2);
+
+    const response = await worker.request('GET', `/api/reports/taxes?restaurant_id=${created.json.data.id}&from=2019-05-01&to=2019-05-31`);
+    assert.equal(response.status, 200);
+    report = response.json.data;
+  });
+
+  after(() => worker.dispose());
+
+  const line = (taxModel, type, rate) =>
+    report.lines.find(entry => entry.tax_model === taxModel && entry.type === type && entry.rate === rate);
+
+  test('la base sale del importe de las líneas con sus descuentos', () => {
+    // NET: la base es el importe (el subtotal del pedido, 47.80)
+    const { orders, taxable_base, tax, gross } = line('NET', 'item', 0.19);
+    assert.deepEqual({ orders, taxable_base, tax, gross }, { orders: 1, taxable_base: 47.8, tax: 9.08, gross: 56.88 });
+
+    // GROSS: el importe ya lleva el impuesto (10 / 1.19); el gasto de envío sin
+    // tax_type cuenta con el modelo del pedido
+    assert.equal(line('GROSS', 'delivery_fee', 0.19).taxable_base, 8.4);
+    assert.equal(line('GROSS', 'item', 0.19).taxable_base, 23.03);
+
+    // La propina del pedido NET llega con tax_type GROSS
+    const tips = report.by_type.find(entry => entry.type === 'tip');
+    assert.equal(tips.taxable_base, round2(6.88 / 1.19 + 3.74 / 1.19));
+  });
+
+  test('las líneas al 0 % aparecen con su base', () => {
+    assert.deepEqual(report.by_rate.find(entry => entry.rate === 0), {
+      rate: 0, orders: 1, taxable_base: 5, tax: 0, gross: 5
+    });
+    assert.equal(line('NET', 'item', 0).taxable_base, 5);
+  });
+});
+
+function round2(value) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,258 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker, waitFor, API_TOKEN } from './helpers/worker.mjs';
+import { orderFixture } from './simulator/gloriafood-simulator.mjs';
+
+const RESTAURANT_KEY = 'bvvZ3913t1cJRf8HA5OxvO2FjiSmExSly';
+const SECRET_KEY = 'sim-secret';
+
+// Un segundo pedido de otro cliente, a partir del payload de ejemplo
+function secondClientOrder() {
+  const payload = JSON.parse(orderFixture('US_tax_model_order'));
+  Object.assign(payload.orders[0], {
+    id: 7001,
+    client_id: 757,
+    client_first_name: 'Jane',
+    client_email: 'jane.doe@example.com',
+    client_phone: '+15550000001'
+  });
+  return JSON.stringify(payload);
+}
+
+describe('rutas de la API', () => {
+  let worker;
+  // IDs creados durante la preparación y por las propias rutas
+  const ids = {};
+  const covered = new Set();
+
+  const q = () => `restaurant_id=${ids.restaurant}`;
+
+  before(async () => {
+    worker = await startWorker();
+    worker.simulator.addRestaurant(SECRET_KEY);
+
+    const restaurant = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: RESTAURANT_KEY, name: 'Simulador', secret_key: SECRET_KEY }
+    });
+    ids.restaurant = restaurant.json.data.id;
+
+    // La suscripción se crea antes de los pedidos para que haya entregas
+    const subscription = await worker.request('POST', `/api/webhooks?${q()}`, {
+      body: { url: 'https://hooks.example.com/orders', events: ['order.created'] }
+    });
+    ids.webhook = subscription.json.data.id;
+
+    await worker.request('POST', `/api/menu/sync?${q()}`);
+    ids.category = (await worker.request('GET', `/api/menu/categories?${q()}`)).json.data[0].id;
+
+    await worker.pushOrder({ fixture: 'US_tax_model_order' });
+    await worker.pushOrder({ fixture: 'EU_tax_model_order' });
+    await worker.pushOrder({ body: secondClientOrder() });
+
+    const invalid = JSON.parse(orderFixture('US_tax_model_order'));
+    delete invalid.orders[0].restaurant_key;
+    await worker.pushOrder({ body: JSON.stringify(invalid) });
+
+    await waitFor(async () => {
+      const orders = await worker.db.prepare('SELECT COUNT(*) as total FROM orders').first();
+      const deliveries = await worker.db.prepare('SELECT COUNT(*) as total FROM webhook_deliveries').first();
+      return orders.total === 3 && deliveries.total === 3;
+    });
+
+    ids.order = (await worker.db.prepare('SELECT id FROM orders WHERE gloriafood_id = 6816').first()).id;
+    ids.client = (await worker.db.prepare('SELECT id FROM clients WHERE gloriafood_id = 756').first()).id;
+    ids.duplicate = (await worker.db.prepare('SELECT id FROM clients WHERE gloriafood_id = 757').first()).id;
+    ids.delivery = (await worker.db.prepare('SELECT id FROM webhook_deliveries LIMIT 1').first()).id;
+
+    // Un pedido que agotó los reintentos por un fallo transitorio: se puede reprocesar
+    const failed = JSON.parse(orderFixture('EU_tax_model_order')).orders[0];
+    failed.id = 7002;
+    const deadLetter = await worker.db.prepare(`
+      INSERT INTO dead_letter_orders (restaurant_id, gloriafood_id, kind, payload, error_message, attempts)
+      VALUES (?, ?, 'order', ?, 'D1_ERROR: timeout', 3)
+    `).bind(ids.restaurant, failed.id, JSON.stringify(failed)).run();
+    ids.deadLetter = deadLetter.meta.last_row_id;
+  });
+
+  after(() => worker.dispose());
+
+  // [operación (como en /openapi.json), petición, estado esperado, comprobación opcional]
+  // En orden: las rutas que borran van después de las que leen el mismo recurso
+  const cases = [
+    ['GET /', () => ({ path: '/', token: null }), 200],
+    ['GET /health', () => ({ path: '/health', token: null }), 200],
+    ['GET /openapi.json', () => ({ path: '/openapi.json', token: null }), 200],
+    ['POST /webhook/orders', () => ({ path: '/webhook/orders', token: null }), 401],
+
+    ['GET /api/restaurants', () => ({ path: '/api/restaurants' }), 200, (r) => assert.equal(r.json.data.length, 1)],
+    ['GET /api/restaurants/{id}', () => ({ path: `/api/restaurants/${ids.restaurant}` }), 200],
+    ['POST /api/restaurants', () => ({ path: '/api/restaurants', body: { name: 'Sin key' } }), 400],
+    ['PUT /api/restaurants/{id}', () => ({ path: `/api/restaurants/${ids.restaurant}`, body: { timezone: 'Europe/Madrid' } }), 200],
+
+    ['GET /api/orders', () => ({ path: `/api/orders?${q()}` }), 200, (r) => assert.equal(r.json.pagination.total, 3)],
+    ['GET /api/orders/discrepancies', () => ({ path: `/api/orders/discrepancies?${q()}` }), 200],
+    ['GET /api/orders/{id}', () => ({ path: `/api/orders/${ids.order}?${q()}` }), 200, (r) => assert.equal(r.json.data.order.gloriafood_id, 6816)],
+    ['GET /api/orders/{id}/ticket', () => ({ path: `/api/orders/${ids.order}/ticket?${q()}` }), 200, (r) => assert.match(r.text, /6816/)],
+    ['GET /api/orders/{id}/receipt', () => ({ path: `/api/orders/${ids.order}/receipt?${q()}&format=html` }), 200],
+    ['PUT /api/orders/{id}/status', () => ({ path: `/api/orders/${ids.order}/status?${q()}`, body: { status: 'preparing' } }), 200],
+    ['POST /api/orders/poll', () => ({ path: `/api/orders/poll?${q()}` }), 200, (r) => assert.deepEqual(r.json.data, [])],
+
+    ['GET /api/menu', () => ({ path: `/api/menu?${q()}` }), 200],
+    ['GET /api/menu/categories', () => ({ path: `/api/menu/categories?${q()}` }), 200],
+    ['GET /api/menu/categories/{id}/items', () => ({ path: `/api/menu/categories/${ids.category}/items?${q()}` }), 200],
+    ['GET /api/menu/search', () => ({ path: `/api/menu/search?${q()}&q=Pizza` }), 200, (r) => assert.ok(r.json.data.length > 0)],
+    ['GET /api/menu/changes', () => ({ path: `/api/menu/changes?${q()}` }), 200],
+    ['POST /api/menu/sync', () => ({ path: `/api/menu/sync?${q()}` }), 200],
+
+    ['GET /api/clients', () => ({ path: `/api/clients?${q()}` }), 200, (r) => assert.equal(r.json.pagination.total, 2)],
+    ['GET /api/clients/top', () => ({ path: `/api/clients/top?${q()}` }), 200],
+    ['GET /api/clients/marketing', () => ({ path: `/api/clients/marketing?${q()}` }), 200],
+    ['GET /api/clients/stats', () => ({ path: `/api/clients/stats?${q()}` }), 200],
+    ['POST /api/clients/segments/refresh', () => ({ path: `/api/clients/segments/refresh?${q()}` }), 200],
+    ['GET /api/clients/segments', () => ({ path: `/api/clients/segments?${q()}` }), 200],
+    ['GET /api/clients/duplicates', () => ({ path: `/api/clients/duplicates?${q()}` }), 200],
+    ['GET /api/clients/{id}', () => ({ path: `/api/clients/${ids.client}?${q()}` }), 200],
+    ['PUT /api/clients/{id}', () => ({ path: `/api/clients/${ids.client}?${q()}`, body: { marketing_consent: true } }), 200],
+    ['GET /api/clients/{id}/consent', () => ({ path: `/api/clients/${ids.client}/consent?${q()}` }), 200, (r) => assert.equal(r.json.data.marketing_consent, true)],
+    ['POST /api/clients/{id}/merge', () => ({ path: `/api/clients/${ids.client}/merge?${q()}`, body: { client_ids: [ids.duplicate] } }), 200],
+    ['GET /api/clients/{id}/merges', () => ({ path: `/api/clients/${ids.client}/merges?${q()}` }), 200],
+    ['GET /api/clients/{id}/export', () => ({ path: `/api/clients/${ids.client}/export?${q()}` }), 200],
+
+    ['POST /api/marketing/audiences/preview', () => ({ path: `/api/marketing/audiences/preview?${q()}`, body: { filters: { min_orders: 1 } } }), 200],
+    ['POST /api/marketing/audiences', () => ({ path: `/api/marketing/audiences?${q()}`, body: { name: 'Habituales', filters: { min_orders: 1 } } }), 201,
+      (r) => { ids.audience = r.json.data.id; }],
+    ['GET /api/marketing/audiences', () => ({ path: `/api/marketing/audiences?${q()}` }), 200],
+    ['GET /api/marketing/audiences/{id}', () => ({ path: `/api/marketing/audiences/${ids.audience}?${q()}` }), 200],
+    ['PUT /api/marketing/audiences/{id}', () => ({ path: `/api/marketing/audiences/${ids.audience}?${q()}`, body: { description: 'Con pedidos' } }), 200],
+    ['GET /api/marketing/audiences/{id}/preview', () => ({ path: `/api/marketing/audiences/${ids.audience}/preview?${q()}` }), 200],
+    ['GET /api/marketing/audiences/{id}/export', () => ({
+      path: `/api/marketing/audiences/${ids.audience}/export?${q()}`,
+      headers: { 'X-Requested-By': 'someone-else' }
+    }), 200],
+    ['GET /api/marketing/exports', () => ({ path: `/api/marketing/exports?${q()}` }), 200, (r) => {
+      assert.equal(r.json.data.length, 1);
+      assert.equal(r.json.data[0].requested_by, 'API_AUTH_TOKEN');
+      assert.equal(r.json.data[0].requested_by_header, 'someone-else');
+    }],
+    ['DELETE /api/marketing/audiences/{id}', () => ({ path: `/api/marketing/audiences/${ids.audience}?${q()}` }), 200],
+
+    ['GET /api/stats/dashboard', () => ({ path: `/api/stats/dashboard?${q()}` }), 200],
+    ['GET /api/stats/sales/daily', () => ({ path: `/api/stats/sales/daily?${q()}` }), 200],
+    ['GET /api/stats/sales/hourly', () => ({ path: `/api/stats/sales/hourly?${q()}` }), 200],
+    ['GET /api/stats/products/top', () => ({ path: `/api/stats/products/top?${q()}` }), 200],
+    ['GET /api/stats/payments', () => ({ path: `/api/stats/payments?${q()}` }), 200],
+    ['GET /api/stats/delivery-zones', () => ({ path: `/api/stats/delivery-zones?${q()}` }), 200],
+    ['GET /api/stats/promotions', () => ({ path: `/api/stats/promotions?${q()}` }), 200],
+    ['GET /api/reports/taxes', () => ({ path: `/api/reports/taxes?${q()}&from=2019-01-01&to=2019-12-31` }), 200],
+
+    ['GET /api/exports/orders', () => ({ path: `/api/exports/orders?${q()}` }), 200, (r) => assert.match(r.headers.get('Content-Type'), /csv/)],
+    ['GET /api/exports/clients', () => ({ path: `/api/exports/clients?${q()}&format=ndjson` }), 200],
+    ['GET /api/exports/menu-items', () => ({ path: `/api/exports/menu-items?${q()}&format=xlsx` }), 200],
+
+    ['GET /api/logs', () => ({ path: '/api/logs' }), 200],
+    ['GET /api/audit', () => ({ path: '/api/audit' }), 200, (r) => assert.ok(r.json.data.length > 0)],
+
+    ['GET /api/dead-letters', () => ({ path: '/api/dead-letters' }), 200],
+    ['GET /api/dead-letters/{id}', () => ({ path: `/api/dead-letters/${ids.deadLetter}` }), 200],
+    ['POST /api/dead-letters/{id}/replay', () => ({ path: `/api/dead-letters/${ids.deadLetter}/replay` }), 200,
+      (r) => assert.equal(r.json.data.isNew, true)],
+
+    ['GET /api/webhooks', () => ({ path: `/api/webhooks?${q()}` }), 200],
+    ['POST /api/webhooks', () => ({ path: `/api/webhooks?${q()}`, body: { url: 'not a url', events: ['order.created'] } }), 400],
+    ['PUT /api/webhooks/{id}', () => ({ path: `/api/webhooks/${ids.webhook}?${q()}`, body: { events: ['order.created', 'menu.synced'] } }), 200],
+    ['POST /api/webhooks/{id}/rotate-secret', () => ({ path: `/api/webhooks/${ids.webhook}/rotate-secret?${q()}` }), 200],
+    ['GET /api/webhooks/deliveries', () => ({ path: `/api/webhooks/deliveries?${q()}` }), 200],
+    ['GET /api/webhooks/deliveries/{id}', () => ({ path: `/api/webhooks/deliveries/${ids.delivery}?${q()}` }), 200],
+    ['POST /api/webhooks/deliveries/{id}/redeliver', () => ({ path: `/api/webhooks/deliveries/${ids.delivery}/redeliver?${q()}` }), 200],
+    ['DELETE /api/webhooks/{id}', () => ({ path: `/api/webhooks/${ids.webhook}?${q()}` }), 200],
+
+    ['POST /api/admin/api-keys', () => ({ path: '/api/admin/api-keys', body: { name: 'Lectura', scopes: ['orders:read'], restaurant_id: ids.restaurant } }), 201,
+      (r) => { ids.apiKey = r.json.data.id; ids.apiKeyToken = r.json.data.key; }],
+    ['GET /api/admin/api-keys', () => ({ path: '/api/admin/api-keys' }), 200],
+    ['GET /api/admin/api-keys/{id}', () => ({ path: `/api/admin/api-keys/${ids.apiKey}` }), 200],
+
+    // Anonimiza al cliente: al final para no afectar a las demás rutas de clientes
+    ['DELETE /api/clients/{id}', () => ({ path: `/api/clients/${ids.client}?${q()}` }), 200]
+  ];
+
+  for (const [operation, build, status, check] of cases) {
+    test(operation, async () => {
+      const method = operation.split(' ')[0];
+      const { path, ...options } = build();
+
+      const response = await worker.request(method, path, options);
+      assert.equal(response.status, status, response.text);
+      await check?.(response);
+
+      covered.add(operation);
+    });
+  }
+
+  test('GET /api/orders/stream', async () => {
+    // SSE: se comprueba la cabecera y se cierra la conexión sin leer el cuerpo
+    const response = await worker.mf.dispatchFetch(`http://localhost/api/orders/stream?${q()}&token=${API_TOKEN}`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('Content-Type'), /text\/event-stream/);
+    await response.body.cancel();
+
+    covered.add('GET /api/orders/stream');
+  });
+
+  test('las rutas /api exigen autenticación y los scopes de la API key', async () => {
+    assert.equal((await worker.request('GET', `/api/orders?${q()}`, { token: null })).status, 401);
+    assert.equal((await worker.request('GET', `/api/orders?${q()}`, { token: `${API_TOKEN}x` })).status, 401);
+
+    const read = await worker.request('GET', `/api/orders?${q()}`, { token: ids.apiKeyToken });
+    assert.equal(read.status, 200);
+
+    const write = await worker.request('PUT', `/api/orders/${ids.order}/status?${q()}`, {
+      token: ids.apiKeyToken,
+      body: { status: 'ready' }
+    });
+    assert.equal(write.status, 403);
+
+    const revoked = await worker.request('DELETE', `/api/admin/api-keys/${ids.apiKey}`);
+    assert.equal(revoked.status, 200);
+    covered.add('DELETE /api/admin/api-keys/{id}');
+
+    assert.equal((await worker.request('GET', `/api/orders?${q()}`, { token: ids.apiKeyToken })).status, 401);
+  });
+
+  test('el historial de estados registra la identidad autenticada, no el actor del body', async () => {
+    const key = await worker.request('POST', '/api/admin/api-keys', {
+      body: { name: 'Cocina', scopes: ['orders:write'], restaurant_id: ids.restaurant }
+    });
+
+    const response = await worker.request('PUT', `/api/orders/${ids.order}/status?${q()}`, {
+      token: key.json.data.key,
+      body: { status: 'ready', actor: 'admin' }
+    });
+    assert.equal(response.status, 200);
+
+    const history = await worker.db.prepare(
+      'SELECT to_status, actor, note FROM order_status_history WHERE order_id = ? AND from_status IS NOT NULL ORDER BY id'
+    ).bind(ids.order).all();
+    assert.deepEqual(history.results, [
+      { to_status: 'preparing', actor: 'API_AUTH_TOKEN', note: null },
+      { to_status: 'ready', actor: 'Cocina', note: 'admin' }
+    ]);
+  });
+
+  test('las exportaciones CSV y XLSX no dejan textos que se abran como fórmulas', async () => {
+    await worker.db.prepare("UPDATE menu_items SET name = '=HYPERLINK(\"http://evil.test\")' WHERE gloriafood_id = 58424").run();
+
+    const csv = await worker.request('GET', `/api/exports/menu-items?${q()}&format=csv`);
+    assert.match(csv.text, /"'=HYPERLINK\(""http:\/\/evil\.test""\)"/);
+
+    const xlsx = await worker.request('GET', `/api/exports/menu-items?${q()}&format=xlsx`);
+    assert.ok(xlsx.text.includes(`<t xml:space="preserve">'=HYPERLINK(&quot;http://evil.test&quot;)</t>`));
+  });
+
+  test('todas las operaciones de /openapi.json tienen prueba', async () => {
+    const spec = (await worker.request('GET', '/openapi.json', { token: null })).json;
+    const operations = Object.entries(spec.paths)
+      .flatMap(([path, methods]) => Object.keys(methods).map(method => `${method.toUpperCase()} ${path}`));
+
+    assert.deepEqual(operations.filter(operation => !covered.has(operation)), []);
+  });
+});
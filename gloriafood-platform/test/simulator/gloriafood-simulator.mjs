@@ -0,0 +1,139 @@
+// =====================================================
+// SIMULADOR DE LA API DE GLORIAFOOD
+// =====================================================
+//
+// Sirve /pos/order/pop y /pos/menu a partir de los payloads de ejemplo de
+// accepted_orders y fetch_menu, y envía pedidos push al webhook.
+// Es un handler fetch (Request -> Response): en los tests se conecta al Worker
+// como outboundService de Miniflare y en local se sirve con server.mjs.
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_ROOT = fileURLToPath(new URL('../../../', import.meta.url));
+
+export const ORDER_FIXTURES = ['US_tax_model_order', 'EU_tax_model_order'];
+
+/**
+ * Payload de ejemplo de accepted_orders (`format` json o xml), sin parsear
+ */
+export function orderFixture(name, format = 'json') {
+  return readFileSync(`${FIXTURES_ROOT}accepted_orders/payload/${format}/${name}.${format}`, 'utf8');
+}
+
+/**
+ * Menú de ejemplo de fetch_menu (`format` json o xml), sin parsear
+ */
+export function menuFixture(format = 'json') {
+  return readFileSync(`${FIXTURES_ROOT}fetch_menu/payload/menu.${format}`, 'utf8');
+}
+
+export class GloriaFoodSimulator {
+  constructor() {
+    // secret key -> { orders pendientes de polling, menú (JSON) o null para el de ejemplo }
+    this.restaurants = new Map();
+    // Peticiones recibidas, para comprobar cabeceras y llamadas en los tests
+    this.requests = [];
+    this.fetch = this.fetch.bind(this);
+  }
+
+  /**
+   * Da de alta un restaurante con su secret key (la de polling y menú)
+   */
+  addRestaurant(secretKey, { menu = null } = {}) {
+    this.restaurants.set(secretKey, { orders: [], menu });
+    return this;
+  }
+
+  /**
+   * Sustituye el menú que devuelve /pos/menu (por ejemplo, para simular cambios de precio)
+   */
+  setMenu(secretKey, menu) {
+    this.getRestaurant(secretKey).menu = menu;
+  }
+
+  /**
+   * Deja pedidos pendientes: los devuelve el siguiente /pos/order/pop
+   */
+  queueOrders(secretKey, orders) {
+    this.getRestaurant(secretKey).orders.push(...orders);
+  }
+
+  /**
+   * Deja pendientes los pedidos de un payload de ejemplo
+   */
+  queueFixture(secretKey, name) {
+    this.queueOrders(secretKey, JSON.parse(orderFixture(name)).orders);
+  }
+
+  /**
+   * Envía un payload de ejemplo al webhook como lo haría GloriaFood.
+   * `send` es una URL o una función con la firma de fetch (por ejemplo mf.dispatchFetch).
+   */
+  async pushOrder(send, { fixture = ORDER_FIXTURES[0], format = 'json', masterKey, body, headers = {} } = {}) {
+    const request = {
+      method: 'POST',
+      headers: {
+        'Content-Type': format === 'xml' ? 'application/xml' : 'application/json',
+        ...(masterKey !== undefined && { Authorization: masterKey }),
+        ...headers
+      },
+      body: body ?? orderFixture(fixture, format)
+    };
+
+    return typeof send === 'string' ? fetch(send, request) : send(request);
+  }
+
+  /**
+   * Handler de la API simulada
+   */
+  async fetch(input, init) {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const secretKey = request.headers.get('Authorization');
+
+    this.requests.push({
+      method: request.method,
+      path: url.pathname,
+      authorization: secretKey,
+      apiVersion: request.headers.get('Glf-Api-Version'),
+      accept: request.headers.get('Accept')
+    });
+
+    const restaurant = secretKey ? this.restaurants.get(secretKey) : undefined;
+    const route = `${request.method} ${url.pathname}`;
+
+    if (route !== 'POST /pos/order/pop' && route !== 'GET /pos/menu') {
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (!restaurant) {
+      return Response.json({ error: 'Invalid authorization key' }, { status: 401 });
+    }
+    if (request.headers.get('Glf-Api-Version') !== '2') {
+      return Response.json({ error: 'Unsupported API version' }, { status: 400 });
+    }
+
+    if (route === 'POST /pos/order/pop') {
+      // Como GloriaFood, cada pedido se entrega una sola vez
+      const orders = restaurant.orders.splice(0);
+      return Response.json({ count: orders.length, orders });
+    }
+
+    if (restaurant.menu) {
+      return Response.json(restaurant.menu);
+    }
+
+    const isXml = request.headers.get('Accept')?.includes('xml');
+    return new Response(menuFixture(isXml ? 'xml' : 'json'), {
+      headers: { 'Content-Type': isXml ? 'application/xml' : 'application/json' }
+    });
+  }
+
+  getRestaurant(secretKey) {
+    const restaurant = this.restaurants.get(secretKey);
+    if (!restaurant) {
+      throw new Error(`Unknown simulator restaurant: ${secretKey}`);
+    }
+    return restaurant;
+  }
+}
@@ -0,0 +1,72 @@
+// Simulador de GloriaFood como servidor HTTP, para usarlo con `wrangler dev`:
+//
+//   npm run simulator -- --port 8788 --secret-key sim-secret \
+//     --webhook-url http://localhost:8787/webhook/orders --master-key MASTER_KEY
+//
+// y en .dev.vars: GLORIAFOOD_API_URL=http://localhost:8788
+//
+// Además de /pos/order/pop y /pos/menu, admite:
+//   POST /simulator/orders?fixture=US_tax_model_order   deja pendientes los pedidos del payload
+//   POST /simulator/push?fixture=EU_tax_model_order&format=xml   envía el payload al webhook
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { GloriaFoodSimulator, ORDER_FIXTURES } from './gloriafood-simulator.mjs';
+
+const { values: options } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8788' },
+    'secret-key': { type: 'string', default: 'sim-secret' },
+    'webhook-url': { type: 'string', default: 'http://localhost:8787/webhook/orders' },
+    'master-key': { type: 'string', default: '' }
+  }
+});
+
+const simulator = new GloriaFoodSimulator().addRestaurant(options['secret-key']);
+
+async function handle(request) {
+  const url = new URL(request.url);
+  const fixture = url.searchParams.get('fixture') || ORDER_FIXTURES[0];
+
+  if (request.method === 'POST' && url.pathname.startsWith('/simulator/')) {
+    if (!ORDER_FIXTURES.includes(fixture)) {
+      return Response.json({ error: `Unknown fixture. Valid values: ${ORDER_FIXTURES.join(', ')}` }, { status: 400 });
+    }
+
+    if (url.pathname === '/simulator/orders') {
+      simulator.queueFixture(options['secret-key'], fixture);
+      return Response.json({ queued: fixture });
+    }
+
+    if (url.pathname === '/simulator/push') {
+      const response = await simulator.pushOrder(options['webhook-url'], {
+        fixture,
+        format: url.searchParams.get('format') || 'json',
+        masterKey: options['master-key']
+      });
+      return new Response(response.body, { status: response.status, headers: response.headers });
+    }
+  }
+
+  return simulator.fetch(request);
+}
+
+const server = createServer(async (req, res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+
+  const body = chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+  const request = new Request(`http://${req.headers.host}${req.url}`, {
+    method: req.method,
+    headers: Object.entries(req.headers).filter(([, value]) => typeof value === 'string'),
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body
+  });
+
+  const response = await handle(request);
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+});
+
+server.listen(Number(options.port), () => {
+  console.log(`GloriaFood simulator on http://localhost:${options.port} (secret key: ${options['secret-key']})`);
+});
@@ -0,0 +1,54 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers/worker.mjs';
+
+describe('fallos inesperados en la cola de webhooks salientes', () => {
+  let worker;
+  let subscriptionId;
+
+  before(async () => {
+    worker = await startWorker();
+
+    const restaurant = await worker.request('POST', '/api/restaurants', {
+      body: { restaurant_key: 'webhooks-restaurant-key', name: 'Simulador' }
+    });
+    const subscription = await worker.request('POST', `/api/webhooks?restaurant_id=${restaurant.json.data.id}`, {
+      body: { url: 'https://hooks.example.com/orders', events: ['order.created'] }
+    });
+    subscriptionId = subscription.json.data.id;
+
+    // D1 falla al registrar el intento: deliver lanza una excepción
+    await worker.db.prepare(
+      "CREATE TRIGGER fail_delivery_attempts BEFORE INSERT ON webhook_delivery_attempts BEGIN SELECT RAISE(ABORT, 'D1 unavailable'); END"
+    ).run();
+  });
+
+  after(() => worker.dispose());
+
+  const storeDelivery = async () => (await worker.db.prepare(
+    "INSERT INTO webhook_deliveries (subscription_id, event_type, payload, status) VALUES (?, 'order.created', '{}', 'retrying')"
+  ).bind(subscriptionId).run()).meta.last_row_id;
+
+  const delivery = (id) =>
+    worker.db.prepare('SELECT status, last_error FROM webhook_deliveries WHERE id = ?').bind(id).first();
+
+  test('antes del último intento se reintenta', async () => {
+    const deliveryId = await storeDelivery();
+    const result = await worker.queue('gloriafood-webhooks', [{ deliveryId }], { attempts: 7 });
+
+    assert.equal(result.retryMessages.length, 1);
+    assert.equal((await delivery(deliveryId)).status, 'retrying');
+  });
+
+  test('en el último intento el envío queda como fallido y se confirma el mensaje', async () => {
+    const deliveryId = await storeDelivery();
+    const result = await worker.queue('gloriafood-webhooks', [{ deliveryId }], { attempts: 8 });
+
+    assert.deepEqual(result.retryMessages, []);
+    assert.deepEqual(result.explicitAcks, ['message-0']);
+
+    const { status, last_error } = await delivery(deliveryId);
+    assert.equal(status, 'failed');
+    assert.match(last_error, /D1 unavailable/);
+  });
+});